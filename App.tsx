@@ -1,63 +1,334 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { AudioPlayer } from './components/AudioPlayer';
 import { IconLoader, IconMusic, IconPhoto, IconWand, IconDownload } from './components/Icons';
-import { audioToImage, imageToAudio } from './services/audioCodec';
-import type { Status } from './types';
+import { analyseAudio, audioToImage, identifyOrbitImages, imageToAudio, readAttachments } from './services/audioCodec';
+import { CANVAS_SIZE, DEFAULT_BITS_PER_CHANNEL, ROBUST_CANVAS_SIZE } from './services/orbitCore';
+import { OrbitCodecError, type CodecErrorCode } from './services/codecErrors';
+import { createBatch, fallbackAudioName, groupOrbitFiles, orbitImageName, runBatch, type BatchProcessor } from './services/batch';
+import { defaultParams, parseStyleTag, timelineOf } from './services/renderers';
+import { DEFAULT_COVER_OVERLAY } from './services/cover';
+import type { ArtworkStyle, AudioFeatures, AudioMetadata, BatchItem, DecodeResult, EncodeOptions, EncodeResult, ErrorCorrectionLevel, LossyOptions, OrbitContainer, Status } from './types';
+import { formatBytes, formatTranscoding } from './utils/format';
+import { extensionForMimeType } from './utils/fileNames';
 import { AudioRecorder } from './components/AudioRecorder';
+import { BitDepthSelector } from './components/BitDepthSelector';
+import { ErrorCorrectionSelector } from './components/ErrorCorrectionSelector';
+import { ContainerSelector } from './components/ContainerSelector';
+import { ProgressBar } from './components/ProgressBar';
+import { ArtworkStylePanel } from './components/ArtworkStylePanel';
+import { OrbitViewer } from './components/OrbitViewer';
+import { AnimationExport } from './components/AnimationExport';
+import { BatchQueue } from './components/BatchQueue';
+import { CanvasSizeSelector } from './components/CanvasSizeSelector';
+import { CapacityPlanner } from './components/CapacityPlanner';
+import { LossySelector } from './components/LossySelector';
+import { MetadataForm } from './components/MetadataForm';
+import { AttachmentPicker } from './components/AttachmentPicker';
+import { CoverPicker } from './components/CoverPicker';
+import { DecodedAudioDetails } from './components/DecodedAudioDetails';
+import { OrbitInspector } from './components/OrbitInspector';
+
+/** Everything the user can set on the Encode tab before generating an orbit. */
+interface EncodeSettings {
+    passphrase: string;
+    bitsPerChannel: number;
+    scatter: boolean;
+    scatterKey: string; // Falls back to the passphrase when empty
+    errorCorrection: ErrorCorrectionLevel;
+    container: OrbitContainer;
+    canvasSize: number;
+    cover: File | null; // A photo to hide the audio in instead of the drawn orbit
+    coverOverlay: number; // Opacity of the orbit over the cover photo
+    metadata: AudioMetadata; // Tags for a single file; batches leave them out
+    attachments: File[]; // Packed with a single file's audio; batches leave them out
+    lossy: LossyOptions | null; // Embeds a lossy copy that fits one image instead of the file
+    variantSeed: string; // Empty draws the orbit's default look
+    style: ArtworkStyle;
+}
+
+/** How the shown orbit was drawn, which its viewer and animations follow. */
+interface EncodedArtwork {
+    style: ArtworkStyle;
+    variantSeed: string;
+}
+
+/** Secrets the Decode tab asks for when an orbit needs them. */
+interface DecodeSettings {
+    passphrase: string;
+    scatterKey: string;
+}
+
+const DEFAULT_ENCODE_SETTINGS: EncodeSettings = {
+    passphrase: '',
+    bitsPerChannel: DEFAULT_BITS_PER_CHANNEL,
+    scatter: false,
+    scatterKey: '',
+    errorCorrection: 'none',
+    container: 'pixels',
+    canvasSize: CANVAS_SIZE,
+    cover: null,
+    coverOverlay: DEFAULT_COVER_OVERLAY,
+    metadata: {},
+    attachments: [],
+    lossy: null,
+    variantSeed: '',
+    style: { renderer: 'orbit', params: defaultParams('orbit') },
+};
+
+const DEFAULT_DECODE_SETTINGS: DecodeSettings = {
+    passphrase: '',
+    scatterKey: '',
+};
 
 const App: React.FC = () => {
     const [originalAudio, setOriginalAudio] = useState<File | null>(null);
-    const [encodedImage, setEncodedImage] = useState<string | null>(null);
-    const [imageToDecode, setImageToDecode] = useState<File | null>(null);
-    const [decodedAudio, setDecodedAudio] = useState<string | null>(null);
+    const [encodeResult, setEncodeResult] = useState<EncodeResult | null>(null);
+    const [imagesToDecode, setImagesToDecode] = useState<File[]>([]);
+    const [decodeResult, setDecodeResult] = useState<DecodeResult | null>(null);
+    const decodedAudio = decodeResult?.audioUrl ?? null;
+    const [decodeErrorCode, setDecodeErrorCode] = useState<CodecErrorCode | null>(null);
+    const [encodeSettings, setEncodeSettings] = useState<EncodeSettings>(DEFAULT_ENCODE_SETTINGS);
+    const [decodeSettings, setDecodeSettings] = useState<DecodeSettings>(DEFAULT_DECODE_SETTINGS);
     
     const [status, setStatus] = useState<Status>({ state: 'idle', message: '' });
     const [activeTab, setActiveTab] = useState<'encode' | 'decode'>('encode');
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [previewFeatures, setPreviewFeatures] = useState<AudioFeatures | null>(null);
+    const [previewFailed, setPreviewFailed] = useState(false);
+    const [encodedArtwork, setEncodedArtwork] = useState<EncodedArtwork | null>(null);
+    const [decodedFeatures, setDecodedFeatures] = useState<AudioFeatures | null>(null);
+    const [audioBatch, setAudioBatch] = useState<File[]>([]); // Set when several audio files were dropped at once
+    const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
+
+    // Object URLs live as long as their file, so players keep their position across renders
+    const originalAudioUrl = useMemo(() => originalAudio && URL.createObjectURL(originalAudio), [originalAudio]);
+    const decodeImageUrls = useMemo(() => imagesToDecode.map(file => URL.createObjectURL(file)), [imagesToDecode]);
+    useEffect(() => () => { if (originalAudioUrl) URL.revokeObjectURL(originalAudioUrl); }, [originalAudioUrl]);
+    useEffect(() => () => decodeImageUrls.forEach(url => URL.revokeObjectURL(url)), [decodeImageUrls]);
+
+    // Analyse each new audio file once, so the style preview redraws without repeating it
+    useEffect(() => {
+        setPreviewFeatures(null);
+        setPreviewFailed(false);
+        if (!originalAudio) return;
+        const controller = new AbortController();
+        analyseAudio(originalAudio, () => {}, { signal: controller.signal }).then(setPreviewFeatures, (error) => {
+            if (controller.signal.aborted) return;
+            console.error(error);
+            setPreviewFailed(true);
+        });
+        return () => controller.abort();
+    }, [originalAudio]);
+
+    // Decoded audio is analysed too, for the viewer's onset flares
+    useEffect(() => {
+        setDecodedFeatures(null);
+        if (!decodedAudio) return;
+        const controller = new AbortController();
+        (async () => {
+            const blob = await (await fetch(decodedAudio)).blob();
+            setDecodedFeatures(await analyseAudio(new File([blob], 'decoded', { type: blob.type }), () => {}, { signal: controller.signal }));
+        })().catch((error) => {
+            // The viewer works without flares, so a failed analysis is only logged
+            if (!controller.signal.aborted) console.error(error);
+        });
+        return () => controller.abort();
+    }, [decodedAudio]);
 
     const handleAudioUpload = (file: File) => {
         setOriginalAudio(file);
-        setEncodedImage(null);
-        setDecodedAudio(null);
-        setImageToDecode(null);
+        setAudioBatch([]);
+        setBatchItems(null);
+        setEncodeResult(null);
+        setDecodeResult(null);
+        setImagesToDecode([]);
         setStatus({ state: 'idle', message: '' });
     };
 
-    const handleImageUpload = (file: File) => {
-        setImageToDecode(file);
-        setDecodedAudio(null);
+    // Several files make a batch; the first stands in for them in the preview
+    const handleAudioFilesUpload = (files: File[]) => {
+        handleAudioUpload(files[0]);
+        if (files.length > 1) setAudioBatch(files);
+    };
+
+    const handleImagesUpload = (files: File[]) => {
+        // Parts of a multi-image set may arrive in several drops, so new files are added to the selection
+        setImagesToDecode(prev => [
+            ...prev,
+            ...files.filter(file => !prev.some(p => p.name === file.name && p.size === file.size)),
+        ]);
+        setDecodeResult(null);
         setOriginalAudio(null);
-        setEncodedImage(null);
+        setAudioBatch([]);
+        setBatchItems(null);
+        setEncodeResult(null);
         setStatus({ state: 'idle', message: '' });
     };
 
+    const handleClearImages = () => {
+        setImagesToDecode([]);
+        setBatchItems(null);
+        setDecodeResult(null);
+        setDecodeSettings(DEFAULT_DECODE_SETTINGS);
+        setStatus({ state: 'idle', message: '' });
+    };
+
+    const handleEncodeSettingsChange = (changes: Partial<EncodeSettings>) => {
+        setEncodeSettings(prev => ({ ...prev, ...changes }));
+    };
+
+    const handleDecodeSettingsChange = (changes: Partial<DecodeSettings>) => {
+        setDecodeSettings(prev => ({ ...prev, ...changes }));
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const encodeOptions = (): EncodeOptions => {
+        const { passphrase, bitsPerChannel, scatter, scatterKey, errorCorrection, container, canvasSize, cover, coverOverlay, metadata, lossy, variantSeed, style } = encodeSettings;
+        return {
+            passphrase,
+            bitsPerChannel,
+            scatterKey: scatter ? scatterKey || passphrase : undefined,
+            errorCorrection,
+            container,
+            canvasSize,
+            cover: cover ? { image: cover, overlay: coverOverlay } : undefined,
+            metadata: audioBatch.length > 1 ? undefined : metadata,
+            lossy: lossy ?? undefined,
+            variantSeed,
+            style,
+        };
+    };
+
+    /**
+     * Runs a batch to the end, keeping the overall status in step with the
+     * queue. Items fail on their own; only cancelling stops the rest.
+     */
+    const handleBatch = async (items: BatchItem[], process: BatchProcessor, verb: 'Encoding' | 'Decoding') => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setBatchItems(items);
+        setStatus({ state: 'processing', message: `${verb} ${items.length} files...`, percent: 0 });
+        const finished = await runBatch(items, process, (current) => {
+            setBatchItems(current);
+            const index = current.findIndex(item => item.state === 'processing');
+            const settled = current.filter(item => item.state !== 'queued' && item.state !== 'processing').length;
+            const percent = Math.round((settled + (current[index]?.percent ?? 0) / 100) / current.length * 100);
+            setStatus({ state: 'processing', message: `${verb} ${Math.max(index, settled) + 1} of ${current.length}...`, percent });
+        }, controller.signal);
+        abortControllerRef.current = null;
+
+        const done = finished.filter(item => item.state === 'done').length;
+        const failed = finished.filter(item => item.state === 'failed').length;
+        if (controller.signal.aborted) {
+            setStatus({ state: 'idle', message: `${verb} cancelled after ${done} of ${finished.length} files.` });
+        } else {
+            setStatus({
+                state: 'success',
+                message: failed > 0
+                    ? `${done} of ${finished.length} files finished. ${failed} failed; see the list for why.`
+                    : `All ${finished.length} files finished.`,
+            });
+        }
+    };
+
+    const handleEncodeBatch = () => handleBatch(createBatch(audioBatch.map(file => [file])), async ({ files: [file] }, onProgress, signal) => {
+        const { images } = await audioToImage(file, onProgress, { ...encodeOptions(), signal });
+        return Promise.all(images.map(async (image, i) => ({
+            name: orbitImageName(file.name, i, images.length),
+            blob: await (await fetch(image)).blob(),
+        })));
+    }, 'Encoding');
+
+    const handleDecodeBatch = (groups: File[][]) => handleBatch(createBatch(groups), async ({ files }, onProgress, signal) => {
+        const { audioUrl, mimeType, fileName, attachments } = await imageToAudio(files, onProgress, { ...decodeSettings, signal });
+        const urls = [audioUrl, ...attachments.map(({ url }) => url)];
+        try {
+            const blobs = await Promise.all(urls.map(async url => (await fetch(url)).blob()));
+            return [
+                { name: fileName ?? fallbackAudioName(files, extensionForMimeType(mimeType)), blob: blobs[0] },
+                ...attachments.map(({ name }, i) => ({ name, blob: blobs[i + 1] })),
+            ];
+        } finally {
+            urls.forEach(url => URL.revokeObjectURL(url));
+        }
+    }, 'Decoding');
+
     const handleEncode = async () => {
         if (!originalAudio) return;
-        setStatus({ state: 'processing', message: 'Analyzing audio features...' });
+        if (audioBatch.length > 1) return handleEncodeBatch();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setStatus({ state: 'processing', message: 'Analyzing audio features...', percent: 0 });
         try {
-            const imageUrl = await audioToImage(originalAudio, (progressMessage) => {
-                setStatus({ state: 'processing', message: progressMessage });
+            const attachments = await readAttachments(encodeSettings.attachments);
+            const result = await audioToImage(originalAudio, ({ message, percent }) => {
+                setStatus({ state: 'processing', message, percent });
+            }, { ...encodeOptions(), attachments, signal: controller.signal });
+            const { style, variantSeed } = encodeSettings;
+            setEncodeResult(result);
+            setEncodedArtwork({ style, variantSeed });
+            setStatus({
+                state: 'success',
+                message: result.images.length > 1
+                    ? `Encoding complete! The audio was split across ${result.images.length} images. Save all of them to decode it later.`
+                    : 'Encoding complete! Click the image to save.',
             });
-            setEncodedImage(imageUrl);
-            setStatus({ state: 'success', message: 'Encoding complete! Click the image to save.' });
         } catch (error) {
+            if (controller.signal.aborted) {
+                setStatus({ state: 'idle', message: 'Encoding cancelled.' });
+                return;
+            }
             console.error(error);
             setStatus({ state: 'error', message: `Encoding failed: ${error instanceof Error ? error.message : String(error)}` });
+        } finally {
+            abortControllerRef.current = null;
         }
     };
 
     const handleDecode = async () => {
-        if (!imageToDecode) return;
-        setStatus({ state: 'processing', message: 'Reading image data...' });
+        if (imagesToDecode.length === 0) return;
+        setDecodeErrorCode(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setStatus({ state: 'processing', message: 'Reading image data...', percent: 0 });
         try {
-            const audioUrl = await imageToAudio(imageToDecode, (progressMessage) => {
-                setStatus({ state: 'processing', message: progressMessage });
-            });
-            setDecodedAudio(audioUrl);
-            setStatus({ state: 'success', message: 'Decoding complete!' });
+            // Images of more than one set decode as a batch; the headers say which parts belong together
+            if (imagesToDecode.length > 1) {
+                const identities = await identifyOrbitImages(imagesToDecode, ({ message, percent }) => {
+                    setStatus({ state: 'processing', message, percent });
+                }, { ...decodeSettings, signal: controller.signal });
+                const groups = groupOrbitFiles(imagesToDecode, identities);
+                if (groups.length > 1) return await handleDecodeBatch(groups);
+            }
+            const result = await imageToAudio(imagesToDecode, ({ message, percent }) => {
+                setStatus({ state: 'processing', message, percent });
+            }, { ...decodeSettings, signal: controller.signal });
+            setDecodeResult(result);
+            const { transcoding, correctedErrors, resynthesized } = result;
+            const repaired = correctedErrors > 0
+                ? ` Error correction repaired ${correctedErrors} damaged byte${correctedErrors === 1 ? '' : 's'}.`
+                : '';
+            const lossy = transcoding
+                ? ` This is a lossy copy (${formatTranscoding(transcoding)}), not the original file.`
+                : '';
+            const rebuilt = resynthesized
+                ? ' The hidden data could not be read, so the audio was rebuilt from the spectrogram in the picture: an approximation, not the original.'
+                : '';
+            setStatus({ state: 'success', message: `Decoding complete!${repaired}${lossy}${rebuilt}` });
         } catch (error) {
+            if (controller.signal.aborted) {
+                setStatus({ state: 'idle', message: 'Decoding cancelled.' });
+                return;
+            }
             console.error(error);
+            setDecodeErrorCode(error instanceof OrbitCodecError ? error.code : null);
             setStatus({ state: 'error', message: `Decoding failed: ${error instanceof Error ? error.message : 'Invalid or corrupted image.'}` });
+        } finally {
+            abortControllerRef.current = null;
         }
     };
     
@@ -85,18 +356,36 @@ const App: React.FC = () => {
                     {activeTab === 'encode' ? (
                         <EncodeTab
                             originalAudio={originalAudio}
-                            encodedImage={encodedImage}
+                            originalAudioUrl={originalAudioUrl}
+                            encodedArtwork={encodedArtwork}
+                            encodeResult={encodeResult}
+                            audioBatch={audioBatch}
+                            batchItems={audioBatch.length > 1 ? batchItems : null}
                             onAudioUpload={handleAudioUpload}
+                            onAudioFilesUpload={handleAudioFilesUpload}
                             onEncode={handleEncode}
+                            onCancel={handleCancel}
+                            previewFeatures={previewFeatures}
+                            previewFailed={previewFailed}
+                            settings={encodeSettings}
+                            onSettingsChange={handleEncodeSettingsChange}
                             status={status}
                         />
                     ) : (
                         <DecodeTab
-                            imageToDecode={imageToDecode}
-                            decodedAudio={decodedAudio}
-                            onImageUpload={handleImageUpload}
+                            imagesToDecode={imagesToDecode}
+                            decodeResult={decodeResult}
+                            decodeImageUrls={decodeImageUrls}
+                            decodedFeatures={decodedFeatures}
+                            batchItems={imagesToDecode.length > 0 ? batchItems : null}
+                            onImagesUpload={handleImagesUpload}
+                            onClearImages={handleClearImages}
                             onDecode={handleDecode}
+                            onCancel={handleCancel}
+                            settings={decodeSettings}
+                            onSettingsChange={handleDecodeSettingsChange}
                             status={status}
+                            errorCode={decodeErrorCode}
                         />
                     )}
                 </main>
@@ -111,6 +400,9 @@ const App: React.FC = () => {
                             <p className="text-gray-400">
                                 This tool embeds the raw bytes of your audio file into the least significant bits of an image's color data (a technique called steganography). The visual "orbit" is a creative representation of your audio's frequency spectrum, but it doesn't store the sound itself. This means the original audio can be perfectly reconstructed from the image, bit for bit.
                             </p>
+                            <p className="text-gray-400 mt-3">
+                                The Spectrogram style is the exception: it draws the sound's spectrogram in a fixed layout with a ring of reference colours, so even a screenshot or a recompressed copy that lost the hidden bits can be played back. That copy is rebuilt from the picture alone, and sounds like an approximation of the original.
+                            </p>
                         </div>
                     </details>
                 </div>
@@ -132,19 +424,31 @@ const TabButton: React.FC<{name: 'encode' | 'decode', activeTab: string, setActi
 
 const EncodeTab: React.FC<{
     originalAudio: File | null;
-    encodedImage: string | null;
+    originalAudioUrl: string | null;
+    encodedArtwork: EncodedArtwork | null;
+    encodeResult: EncodeResult | null;
+    audioBatch: File[];
+    batchItems: BatchItem[] | null;
     onAudioUpload: (file: File) => void;
+    onAudioFilesUpload: (files: File[]) => void;
     onEncode: () => void;
+    onCancel: () => void;
+    previewFeatures: AudioFeatures | null;
+    previewFailed: boolean;
+    settings: EncodeSettings;
+    onSettingsChange: (changes: Partial<EncodeSettings>) => void;
     status: Status;
-}> = ({ originalAudio, encodedImage, onAudioUpload, onEncode, status }) => (
+}> = ({ originalAudio, originalAudioUrl, encodedArtwork, encodeResult, audioBatch, batchItems, onAudioUpload, onAudioFilesUpload, onEncode, onCancel, previewFeatures, previewFailed, settings, onSettingsChange, status }) => (
     <div className="space-y-12 max-w-xl mx-auto">
         <div>
             <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">1. Provide Audio</h2>
             <FileUploader
-                onFileUpload={onAudioUpload}
+                onFilesUpload={onAudioFilesUpload}
                 accept="audio/*"
                 icon={<IconMusic />}
-                text={originalAudio ? `Selected: ${originalAudio.name}` : "Drag & drop an audio file"}
+                text={audioBatch.length > 1
+                    ? `Selected: ${audioBatch.length} audio files`
+                    : originalAudio ? `Selected: ${originalAudio.name}` : "Drag & drop audio files or a folder"}
             />
             <div className="flex items-center my-6">
                 <div className="flex-grow border-t border-gray-800"></div>
@@ -157,29 +461,183 @@ const EncodeTab: React.FC<{
         {originalAudio && (
             <div>
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">2. Generate Orbit</h2>
-                <AudioPlayer src={URL.createObjectURL(originalAudio)} title="Original Audio" />
+                <AudioPlayer src={originalAudioUrl ?? ''} title={audioBatch.length > 1 ? `First of ${audioBatch.length}: ${originalAudio.name}` : 'Original Audio'} />
+                {audioBatch.length > 1 && (
+                    <p className="mt-2 text-xs text-gray-500 text-center">
+                        These settings apply to every file. The style preview shows the first one.
+                    </p>
+                )}
+                <PassphraseInput
+                    value={settings.passphrase}
+                    onChange={(passphrase) => onSettingsChange({ passphrase })}
+                    placeholder="Passphrase (optional)"
+                    hint={settings.passphrase
+                        ? 'The audio will be encrypted with AES-GCM. Anyone decoding the orbit will need this passphrase.'
+                        : 'Leave empty to let anyone with the image play the audio.'}
+                />
+                <PassphraseInput
+                    type="text"
+                    value={settings.variantSeed}
+                    onChange={(variantSeed) => onSettingsChange({ variantSeed })}
+                    placeholder="Artwork variant (optional)"
+                    hint="The same audio always draws the same orbit. Type any word to get a different, equally repeatable one."
+                />
+                {audioBatch.length <= 1 && (
+                    <>
+                        <MetadataForm
+                            value={settings.metadata}
+                            onChange={(metadata) => onSettingsChange({ metadata })}
+                        />
+                        <AttachmentPicker
+                            value={settings.attachments}
+                            onChange={(attachments) => onSettingsChange({ attachments })}
+                        />
+                    </>
+                )}
+                <CoverPicker
+                    cover={settings.cover}
+                    overlay={settings.coverOverlay}
+                    onChange={onSettingsChange}
+                />
+                <ArtworkStylePanel
+                    features={previewFeatures}
+                    analysisFailed={previewFailed}
+                    style={settings.style}
+                    variantSeed={settings.variantSeed}
+                    onChange={(style) => onSettingsChange({ style })}
+                />
+                <ContainerSelector
+                    value={settings.container}
+                    onChange={(container) => {
+                        // A couple of kilobytes is all the robust container holds: the largest canvas and a speech-rate copy make the most of it
+                        onSettingsChange(container === 'robust'
+                            ? { container, canvasSize: ROBUST_CANVAS_SIZE, lossy: settings.lossy ?? { codec: 'ima-adpcm-2bit' } }
+                            : { container });
+                    }}
+                />
+                {settings.container === 'pixels' && (
+                    <>
+                        <BitDepthSelector
+                            value={settings.bitsPerChannel}
+                            onChange={(bitsPerChannel) => onSettingsChange({ bitsPerChannel })}
+                            fileSize={Math.max(originalAudio.size, ...audioBatch.map(file => file.size))}
+                            errorCorrection={settings.errorCorrection}
+                            canvasSize={settings.canvasSize}
+                        />
+                        <CanvasSizeSelector
+                            value={settings.canvasSize}
+                            onChange={(canvasSize) => onSettingsChange({ canvasSize })}
+                            bitsPerChannel={settings.bitsPerChannel}
+                            errorCorrection={settings.errorCorrection}
+                            container={settings.container}
+                        />
+                        <ErrorCorrectionSelector
+                            value={settings.errorCorrection}
+                            onChange={(errorCorrection) => onSettingsChange({ errorCorrection })}
+                        />
+                        <label className="mt-6 flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={settings.scatter}
+                                onChange={(e) => onSettingsChange({ scatter: e.target.checked })}
+                                className="accent-gray-200"
+                            />
+                            <span>Scatter the data across the whole image</span>
+                        </label>
+                        {settings.scatter && (
+                            <PassphraseInput
+                                value={settings.scatterKey}
+                                onChange={(scatterKey) => onSettingsChange({ scatterKey })}
+                                placeholder={settings.passphrase ? 'Scatter key (defaults to the passphrase)' : 'Scatter key'}
+                                hint="The key shuffles which pixels carry the data, so it no longer sits in a band at the top of the image. It is needed again to decode."
+                            />
+                        )}
+                    </>
+                )}
+                {settings.container === 'robust' && (
+                    <CanvasSizeSelector
+                        value={settings.canvasSize}
+                        onChange={(canvasSize) => onSettingsChange({ canvasSize })}
+                        bitsPerChannel={settings.bitsPerChannel}
+                        errorCorrection={settings.errorCorrection}
+                        container={settings.container}
+                    />
+                )}
+                <LossySelector
+                    value={settings.lossy}
+                    onChange={(lossy) => onSettingsChange({ lossy })}
+                />
+                {audioBatch.length <= 1 && (
+                    <CapacityPlanner
+                        audio={originalAudio}
+                        settings={{ ...settings, fitCanvas: !!settings.cover }}
+                        encrypted={!!settings.passphrase}
+                        attachments={settings.attachments}
+                        onApplySettings={onSettingsChange}
+                        onReplaceAudio={onAudioUpload}
+                    />
+                )}
                 <button
                     onClick={onEncode}
-                    disabled={status.state === 'processing'}
+                    disabled={status.state === 'processing' || (settings.container === 'pixels' && settings.scatter && !settings.scatterKey && !settings.passphrase)}
                     className="mt-6 w-full flex items-center justify-center gap-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed text-black font-bold py-3 px-4 rounded-lg transition-colors duration-300"
                 >
                     {status.state === 'processing' ? <IconLoader /> : <IconWand />}
-                    <span>{status.state === 'processing' ? status.message : 'Generate Image'}</span>
+                    <span>{status.state === 'processing' ? status.message : audioBatch.length > 1 ? `Generate ${audioBatch.length} Orbits` : 'Generate Image'}</span>
                 </button>
+                {status.state === 'processing' && <ProgressBar percent={status.percent ?? 0} onCancel={onCancel} />}
+                {status.state === 'idle' && status.message && <p className="text-xs text-gray-500 mt-3 text-center">{status.message}</p>}
+            </div>
+        )}
+
+        {batchItems && (
+            <div>
+                <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">3. Your Audio Orbits</h2>
+                {status.state === 'success' && <p className="text-sm text-gray-400 mb-2 text-center">{status.message}</p>}
+                <BatchQueue items={batchItems} zipName="orbits.zip" running={status.state === 'processing'} />
             </div>
         )}
 
-        {encodedImage && (
+        {encodeResult && (
             <div>
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">3. Your Audio Orbit</h2>
                 <p className="text-sm text-gray-400 mb-2 text-center">{status.message}</p>
-                 <a href={encodedImage} download="orbit.png" className="block relative group">
-                    <img src={encodedImage} alt="Encoded Audio Orbit" className="rounded-lg w-full" />
-                    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg">
-                        <IconDownload />
-                        <span className="mt-2 font-semibold text-sm">Download Image</span>
-                    </div>
-                </a>
+                <EncodeStats result={encodeResult} />
+                {originalAudioUrl && (
+                    <OrbitViewer
+                        image={encodeResult.images[0]}
+                        audioSrc={originalAudioUrl}
+                        title="Play the Orbit"
+                        onsets={previewFeatures?.onsets}
+                        duration={previewFeatures?.duration}
+                        timeline={timelineOf(encodedArtwork?.style)}
+                    />
+                )}
+                {originalAudio && encodedArtwork && (
+                    <AnimationExport
+                        audio={originalAudio}
+                        features={previewFeatures}
+                        style={encodedArtwork.style}
+                        variantSeed={encodedArtwork.variantSeed}
+                    />
+                )}
+                <div className={`mt-4 grid gap-2 ${encodeResult.images.length > 1 ? 'grid-cols-2' : ''}`}>
+                    {encodeResult.images.map((image, i) => {
+                        const count = encodeResult.images.length;
+                        const isSet = count > 1;
+                        return (
+                            <a
+                                key={i}
+                                href={image}
+                                download={isSet ? `orbit-part-${i + 1}-of-${count}.png` : 'orbit.png'}
+                                className="flex items-center justify-center gap-2 rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 py-2 text-sm font-semibold text-gray-200 transition-colors duration-300"
+                            >
+                                <IconDownload />
+                                <span>{isSet ? `Download Part ${i + 1} of ${count}` : 'Download Image'}</span>
+                            </a>
+                        );
+                    })}
+                </div>
             </div>
         )}
         
@@ -188,47 +646,179 @@ const EncodeTab: React.FC<{
 );
 
 
+const EncodeStats: React.FC<{ result: EncodeResult }> = ({ result }) => {
+    const ratio = Math.round(result.embeddedBytes / result.originalBytes * 100);
+    const remaining = Math.max(0, result.capacityBytes - result.embeddedBytes);
+    return (
+        <div className="flex justify-center gap-6 text-xs text-gray-500 mb-4">
+            {result.transcoding && <span>Lossy copy, {formatTranscoding(result.transcoding)}</span>}
+            <span>
+                {result.compressed
+                    ? `Compressed ${formatBytes(result.originalBytes)} → ${formatBytes(result.embeddedBytes)} (${ratio}%)`
+                    : `${formatBytes(result.originalBytes)}, stored uncompressed`}
+            </span>
+            {result.container === 'chunk'
+                ? <span>Stored in a PNG chunk, no size limit</span>
+                : <span>{formatBytes(remaining)} of {formatBytes(result.capacityBytes)} capacity left</span>}
+        </div>
+    );
+};
+
+/** Plain-language explanations shown under a failed decode, keyed by codec error. */
+const DECODE_ERROR_HELP: Record<CodecErrorCode, string> = {
+    'not-an-orbit': 'No orbit signature was found. Make sure you picked the PNG downloaded from the Encode tab, not a screenshot or a different image. Orbits stored in a PNG chunk lose their audio when a site or app re-encodes the image.',
+    'header-corrupt': 'The orbit signature is there, but the header describing the audio is damaged. The image was probably edited, cropped or re-saved by another app.',
+    'payload-checksum-mismatch': 'The header is intact but the hidden audio bytes changed since encoding. Even light edits, filters or re-saving alter the pixels that hold the sound.',
+    'truncated': 'The image holds less data than was embedded. It may have been resized, cropped or converted to a smaller format.',
+    'missing-parts': 'This audio was split across several images. Add every part of the set; they can be in any order.',
+    'mixed-sets': 'The selected images come from different encoded files. Clear the selection and decode one set at a time.',
+    'passphrase-required': 'The person who made this orbit locked it. Ask them for the passphrase, enter it above and decode again.',
+    'wrong-passphrase': 'The image itself is intact, so only the passphrase is wrong. Check for typos and letter case.',
+    'scatter-key-required': 'The data in this orbit is spread over the image in an order only its key can reproduce. Enter the scatter key above.',
+    'wrong-scatter-key': 'Reading the pixels in the order this key gives produced no orbit header. Check the key, or the passphrase if the orbit was scattered with it.',
+    'uncorrectable': 'This orbit carries error correction, but too many pixels were changed for it to rebuild the data. Try an unedited copy of the image, or for a robust orbit, a larger or less compressed copy.',
+};
+
+const PassphraseInput: React.FC<{
+    value: string;
+    onChange: (value: string) => void;
+    placeholder: string;
+    hint: string;
+    type?: 'password' | 'text';
+}> = ({ value, onChange, placeholder, hint, type = 'password' }) => (
+    <div className="mt-6">
+        <input
+            type={type}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            autoComplete="off"
+            className="w-full bg-gray-900/80 border border-gray-800 focus:border-gray-600 rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none"
+        />
+        <p className="mt-2 text-xs text-gray-500">{hint}</p>
+    </div>
+);
+
 const DecodeTab: React.FC<{
-    imageToDecode: File | null;
-    decodedAudio: string | null;
-    onImageUpload: (file: File) => void;
+    imagesToDecode: File[];
+    decodeResult: DecodeResult | null;
+    decodeImageUrls: string[]; // One per image, in the same order
+    decodedFeatures: AudioFeatures | null;
+    batchItems: BatchItem[] | null;
+    onImagesUpload: (files: File[]) => void;
+    onClearImages: () => void;
     onDecode: () => void;
+    onCancel: () => void;
+    settings: DecodeSettings;
+    onSettingsChange: (changes: Partial<DecodeSettings>) => void;
     status: Status;
-}> = ({ imageToDecode, decodedAudio, onImageUpload, onDecode, status }) => (
+    errorCode: CodecErrorCode | null;
+}> = ({ imagesToDecode, decodeResult, decodeImageUrls, decodedFeatures, batchItems, onImagesUpload, onClearImages, onDecode, onCancel, settings, onSettingsChange, status, errorCode }) => (
     <div className="space-y-12 max-w-xl mx-auto">
         <div>
             <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">1. Upload Orbit Image</h2>
             <FileUploader
-                onFileUpload={onImageUpload}
+                onFilesUpload={onImagesUpload}
                 accept="image/png"
                 icon={<IconPhoto />}
-                text={imageToDecode ? `Selected: ${imageToDecode.name}` : "Drag & drop your Orbit PNG"}
+                text={imagesToDecode.length === 1
+                    ? `Selected: ${imagesToDecode[0].name}`
+                    : imagesToDecode.length > 1
+                        ? `Selected: ${imagesToDecode.length} images`
+                        : "Drag & drop Orbit PNGs or a folder of them"}
             />
         </div>
         
-        {imageToDecode && (
+        {imagesToDecode.length > 0 && (
              <div>
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">2. Decode Audio</h2>
-                <img src={URL.createObjectURL(imageToDecode)} alt="Image to decode" className="rounded-lg max-h-48 w-auto mx-auto mb-6 border border-gray-800" />
+                <div className="flex flex-wrap justify-center gap-2 mb-2">
+                    {imagesToDecode.map((file, i) => (
+                        <img key={`${file.name}-${i}`} src={decodeImageUrls[i]} alt={file.name} title={file.name} className={`rounded-lg w-auto border border-gray-800 ${imagesToDecode.length > 1 ? 'max-h-24' : 'max-h-48'}`} />
+                    ))}
+                </div>
+                <div className="text-center mb-6">
+                    <button onClick={onClearImages} className="text-xs text-gray-500 hover:text-gray-300 underline">Clear selection</button>
+                </div>
+                {(errorCode === 'passphrase-required' || errorCode === 'wrong-passphrase' || settings.passphrase) && (
+                    <div className="mb-6">
+                        <PassphraseInput
+                            value={settings.passphrase}
+                            onChange={(passphrase) => onSettingsChange({ passphrase })}
+                            placeholder="Passphrase"
+                            hint="This orbit is encrypted. The passphrase never leaves your browser."
+                        />
+                    </div>
+                )}
+                {(errorCode === 'scatter-key-required' || errorCode === 'wrong-scatter-key' || settings.scatterKey) && (
+                    <div className="mb-6">
+                        <PassphraseInput
+                            value={settings.scatterKey}
+                            onChange={(scatterKey) => onSettingsChange({ scatterKey })}
+                            placeholder="Scatter key"
+                            hint="Leave empty if the orbit was scattered with its passphrase."
+                        />
+                    </div>
+                )}
                 <button
                     onClick={onDecode}
                     disabled={status.state === 'processing'}
                     className="w-full flex items-center justify-center gap-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed text-black font-bold py-3 px-4 rounded-lg transition-colors duration-300"
                 >
                     {status.state === 'processing' ? <IconLoader /> : <IconWand />}
-                    <span>{status.state === 'processing' ? status.message : 'Decode Audio'}</span>
+                    <span>{status.state === 'processing' ? status.message : imagesToDecode.length > 1 ? `Decode ${imagesToDecode.length} Images` : 'Decode Audio'}</span>
                 </button>
+                {status.state === 'processing' && <ProgressBar percent={status.percent ?? 0} onCancel={onCancel} />}
+                {status.state === 'idle' && status.message && <p className="text-xs text-gray-500 mt-3 text-center">{status.message}</p>}
+            </div>
+        )}
+
+        {batchItems && (
+            <div>
+                <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">3. Your Decoded Audio</h2>
+                {status.state === 'success' && <p className="text-sm text-gray-400 mb-2 text-center">{status.message}</p>}
+                <BatchQueue items={batchItems} zipName="decoded-audio.zip" running={status.state === 'processing'} />
             </div>
         )}
 
-        {decodedAudio && (
+        {decodeResult && (
              <div>
                 <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4 text-center">3. Your Decoded Audio</h2>
-                <AudioPlayer src={decodedAudio} title="Decoded Audio" />
+                {status.state === 'success' && <p className="text-sm text-gray-400 mb-2 text-center">{status.message}</p>}
+                {decodeImageUrls.length > 0 ? (
+                    <OrbitViewer
+                        image={decodeImageUrls[0]}
+                        audioSrc={decodeResult.audioUrl}
+                        title={decodeResult.metadata?.title ?? 'Decoded Audio'}
+                        onsets={decodedFeatures?.onsets}
+                        duration={decodedFeatures?.duration}
+                        timeline={timelineOf(parseStyleTag(decodeResult.metadata?.style))}
+                    />
+                ) : (
+                    <AudioPlayer src={decodeResult.audioUrl} title={decodeResult.metadata?.title ?? 'Decoded Audio'} />
+                )}
+                <DecodedAudioDetails
+                    result={decodeResult}
+                    downloadName={decodeResult.fileName ?? fallbackAudioName(imagesToDecode, extensionForMimeType(decodeResult.mimeType))}
+                />
             </div>
         )}
         
-        {status.state === 'error' && <p className="text-red-400 text-sm mt-4 text-center">{status.message}</p>}
+        {status.state === 'error' && (
+            <div className="mt-4 text-center">
+                <p className="text-red-400 text-sm">{status.message}</p>
+                {errorCode && <p className="text-gray-500 text-xs mt-2">{DECODE_ERROR_HELP[errorCode]}</p>}
+            </div>
+        )}
+
+        {imagesToDecode.length > 0 && status.state !== 'processing' && (
+            <OrbitInspector
+                files={imagesToDecode}
+                passphrase={settings.passphrase}
+                scatterKey={settings.scatterKey}
+                decodeFailed={status.state === 'error'}
+            />
+        )}
     </div>
 );
 
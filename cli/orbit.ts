@@ -0,0 +1,445 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { AnalysisOptions, AudioFeatures, ErrorCorrectionLevel, LossyCodec, OrbitContainer, RendererName, RendererParams } from '../types';
+import { DEFAULT_ANIMATION_FPS, DEFAULT_ANIMATION_SIZE, renderRevealApng, scaleImage } from '../services/animation';
+import { DEFAULT_WINDOW_SIZE, extractFeatures } from '../services/audioAnalysis';
+import { NotAnOrbitError, OrbitCodecError } from '../services/codecErrors';
+import { composeCover } from '../services/cover';
+import {
+    CANVAS_SIZE,
+    CANVAS_SIZES,
+    decodeOrbits,
+    DEFAULT_BITS_PER_CHANNEL,
+    encodeOrbitFrame,
+    encodeOrbitPixels,
+    encodeOrbitRobust,
+    ERROR_CORRECTION_PARITY,
+    fitCanvasSize,
+    fitRobustCanvasSize,
+    getRobustCapacity,
+    LAYOUT_SCATTERED,
+    ORBIT_CHUNK_TYPE,
+    resolveCanvasSize,
+    ROBUST_CANVAS_SIZE,
+    type LossyEncodeOptions,
+    type OrbitSource,
+    type RgbaImage,
+} from '../services/orbitCore';
+import { inspectOrbitFile, lsbPlane } from '../services/inspector';
+import { drawArtwork, RENDERERS, styleTag } from '../services/renderers';
+import { decodePng, encodePng, findPngChunk, insertPngChunk } from '../services/png';
+import { createProgressReporter, type ProgressReporter } from '../services/progress';
+import { resynthesizeOrbit } from '../services/resynthesis';
+import { SoftwareCanvasContext } from '../services/softwareCanvas';
+import { robustSpeechSeconds, transcodeLossy } from '../services/transcoder';
+import { parseWav } from '../services/wav';
+import { ATTACHMENT_MIME_TYPE } from '../services/archive';
+import { AUDIO_MIME_TYPES, extensionForMimeType, safeFileName } from '../utils/fileNames';
+import { formatBytes, formatTranscoding } from '../utils/format';
+
+const USAGE = `Usage:
+  orbit encode <audio-file> [-o out.png] [--bits 1-4] [--ecc none|low|medium|high]
+               [--passphrase text] [--scatter-key text] [--no-compress]
+               [--container pixels|chunk|robust] [--canvas px] [--lossy mu-law|ima-adpcm|ima-adpcm-2bit [--bitrate kbps] [--mono]]
+               [--meta key=value]... [--attach file]... [--cover photo.png [--overlay 0-1]]
+               [--seed text] [--window samples] [--hop samples]
+               [--style orbit|spiral|waveform-ring|constellation|spectrogram] [--param key=value]...
+  orbit decode <image.png>... [-o out-file] [--passphrase text] [--scatter-key text]
+  orbit inspect <image.png>... [--passphrase text] [--scatter-key text] [--lsb]
+  orbit animate <audio-file> [-o out.png] [--fps n] [--size px] [--seed text]
+                [--window samples] [--hop samples] [--style name] [--param key=value]...
+  orbit styles
+
+Only WAV files are analysed for the artwork; other formats are embedded as is
+on a plain starfield. The same audio and --seed always draw the same artwork.
+--window (a power of two) and --hop set the analysis frames, in samples; the hop
+defaults to the window. --param sets one of the style's parameters and may be
+repeated; orbit styles lists them.
+animate writes a looping APNG of the artwork building up in step with the
+audio, one frame per 1/fps seconds; --fps defaults to ${DEFAULT_ANIMATION_FPS} and --size, the
+width in pixels, to ${DEFAULT_ANIMATION_SIZE}. Its last frame is the still encode draws.
+inspect reports what each image holds and guesses why it does not decode; --lsb
+also writes its amplified low bits to <image>.lsb.png.
+--canvas draws the artwork at ${CANVAS_SIZES.join(', ')} pixels per side; larger
+canvases hold more audio per image.
+--meta tags the audio, e.g. --meta title=Nocturne --meta artist=Ada; tags are
+readable without the passphrase. The duration of WAV files is added by itself.
+--cover hides the audio in a PNG photo instead of the drawn orbit. The photo is
+fitted to the canvas, which grows until the audio fits one image; --overlay
+blends the orbit over it at that opacity.
+--attach packs another file, such as lyrics or a cover, with the audio; decode
+writes each one next to the audio under its own name.
+--lossy embeds a resampled μ-law or IMA ADPCM copy of a WAV file at the highest
+bitrate that fits one image, at most --bitrate kbps; --mono mixes stereo down.
+ima-adpcm-2bit halves IMA ADPCM again, for speech in the robust container.
+Decoding writes such a copy as 16-bit WAV and says it is not the original.
+The chunk container keeps the artwork untouched and has no size limit, but
+image hosts that re-encode PNGs drop the chunk and the audio.
+The robust container survives JPEG at quality 50 or better and downscaling to
+half size, but holds only ${getRobustCapacity(CANVAS_SIZE)} bytes at ${CANVAS_SIZE} pixels and ${getRobustCapacity(ROBUST_CANVAS_SIZE)} at ${ROBUST_CANVAS_SIZE}, the
+canvas it draws at unless --canvas says otherwise: ${robustSpeechSeconds()} seconds of
+speech as a --lossy ima-adpcm-2bit --mono copy. decode reads PNGs only, so save
+a JPEG copy as PNG first; the browser app reads it as is.
+--style spectrogram draws the sound's spectrogram in a layout decode can play
+back from the picture alone, as <image>-resynthesized.wav, when a screenshot or
+recompressed copy has lost the hidden data. That copy is an approximation.`;
+
+type CliValues = Record<string, string | boolean | string[] | undefined>;
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+/** Logs each progress message once; the terminal has no bar to move. */
+const logProgress = (): ProgressReporter => {
+    let lastMessage = '';
+    return createProgressReporter(({ message }) => {
+        if (message !== lastMessage) log(lastMessage = message);
+    });
+};
+
+const fail = (message: string): never => {
+    throw new Error(`${message}\n\n${USAGE}`);
+};
+
+/**
+ * Reads an orbit PNG: the frame from its orbit chunk when it has one, its
+ * pixels otherwise.
+ */
+const loadSource = async (path: string): Promise<OrbitSource> => {
+    const name = basename(path);
+    const bytes = await readFile(path);
+    const frame = findPngChunk(bytes, ORBIT_CHUNK_TYPE);
+    if (frame) return { name, frame };
+    try {
+        return { name, image: await decodePng(bytes) };
+    } catch (error) {
+        throw new NotAnOrbitError(`${name} could not be read as an image (${(error as Error).message}).`);
+    }
+};
+
+/**
+ * Analyses a WAV file for the artwork. Anything else gets empty features, which
+ * draw the background stars only.
+ */
+const loadFeatures = (path: string, bytes: Uint8Array, analysis: AnalysisOptions): AudioFeatures => {
+    if (extname(path).toLowerCase() === '.wav') {
+        const { channelData, sampleRate } = parseWav(bytes);
+        return extractFeatures(channelData, sampleRate, analysis);
+    }
+    log(`${basename(path)} is not a WAV file, so the orbit is drawn without its sound.`);
+    return { duration: 0, channelData: [], sampleRate: 0, hopSize: DEFAULT_WINDOW_SIZE, spectrogram: [], melBands: [], waveform: new Float32Array(0), onsets: [] };
+};
+
+/** Splits repeated key=value options into a record. */
+const parsePairs = (pairs: string[] | undefined, option: string): Record<string, string> => {
+    const record: Record<string, string> = {};
+    for (const pair of pairs ?? []) {
+        const separator = pair.indexOf('=');
+        if (separator < 1) fail(`--${option} takes key=value, got ${pair}`);
+        record[pair.slice(0, separator)] = pair.slice(separator + 1);
+    }
+    return record;
+};
+
+/** Reads --style and the --param key=value pairs; the renderer checks the values. */
+const parseStyle = (values: CliValues) => {
+    const renderer = (values.style as string | undefined) ?? 'orbit';
+    if (!(renderer in RENDERERS)) fail(`Unknown style: ${renderer}`);
+    const params: RendererParams = parsePairs(values.param as string[] | undefined, 'param');
+    return { renderer: renderer as RendererName, params };
+};
+
+const parseAnalysis = (values: CliValues): AnalysisOptions => ({
+    windowSize: values.window !== undefined ? Number(values.window) : undefined,
+    hopSize: values.hop !== undefined ? Number(values.hop) : undefined,
+});
+
+const encode = async (inputs: string[], values: CliValues) => {
+    if (inputs.length !== 1) fail('encode takes exactly one audio file.');
+    const [input] = inputs;
+    const errorCorrection = (values.ecc as string | undefined) ?? 'none';
+    if (!(errorCorrection in ERROR_CORRECTION_PARITY)) fail(`Unknown error correction level: ${errorCorrection}`);
+    const container = (values.container as string | undefined) ?? 'pixels';
+    if (container !== 'pixels' && container !== 'chunk' && container !== 'robust') fail(`Unknown container: ${container}`);
+    const codec = values.lossy as string | undefined;
+    if (codec !== undefined && codec !== 'mu-law' && codec !== 'ima-adpcm' && codec !== 'ima-adpcm-2bit') fail(`Unknown lossy codec: ${codec}`);
+    if (codec !== undefined && extname(input).toLowerCase() !== '.wav') fail('--lossy needs a WAV file to resample.');
+    const overlay = values.overlay !== undefined ? Number(values.overlay) : 0;
+    if (!(overlay >= 0 && overlay <= 1)) fail('--overlay must be between 0 and 1.');
+    if (values.overlay !== undefined && values.cover === undefined) fail('--overlay needs a --cover photo.');
+
+    const canvasSize = resolveCanvasSize(values.canvas !== undefined ? Number(values.canvas) : undefined, container as OrbitContainer);
+    const photo = values.cover !== undefined ? await decodePng(await readFile(values.cover as string)) : undefined;
+
+    const bytes = await readFile(input);
+    log('Extracting audio features...');
+    const features = loadFeatures(input, bytes, parseAnalysis(values));
+
+    // Draws the orbit at a size, or the cover photo with the orbit over it
+    const style = parseStyle(values);
+    let size = canvasSize;
+    const drawAt = (side: number): RgbaImage => {
+        log(photo ? 'Fitting the cover photo...' : 'Generating celestial orbits...');
+        size = side;
+        const ctx = new SoftwareCanvasContext(size, size);
+        if (!photo || overlay > 0) drawArtwork(ctx, features, style, values.seed as string | undefined);
+        return photo ? composeCover(photo, size, overlay > 0 ? ctx.getImageData() : undefined, overlay) : ctx.getImageData();
+    };
+
+    let audioBytes = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    let mimeType = AUDIO_MIME_TYPES[extname(input).toLowerCase()] ?? 'application/octet-stream';
+    let options: LossyEncodeOptions = {
+        bitsPerChannel: values.bits !== undefined ? Number(values.bits) : undefined,
+        errorCorrection: errorCorrection as ErrorCorrectionLevel,
+        passphrase: values.passphrase as string | undefined,
+        scatterKey: values['scatter-key'] as string | undefined,
+        compress: !values['no-compress'],
+        container: container as OrbitContainer,
+        canvasSize,
+        fileName: basename(input),
+        metadata: {
+            ...(features.duration > 0 && { duration: features.duration.toFixed(2) }),
+            style: styleTag(style),
+            ...parsePairs(values.meta as string[] | undefined, 'meta'),
+        },
+        attachments: await Promise.all(((values.attach as string[] | undefined) ?? []).map(async path => ({
+            name: basename(path),
+            mimeType: AUDIO_MIME_TYPES[extname(path).toLowerCase()] ?? ATTACHMENT_MIME_TYPE,
+            data: new Uint8Array(await readFile(path)),
+        }))),
+    };
+    if (codec !== undefined) {
+        const { channelData, sampleRate } = parseWav(bytes);
+        const lossy = {
+            codec: codec as LossyCodec,
+            bitrate: values.bitrate !== undefined ? Number(values.bitrate) : undefined,
+            mono: !!values.mono,
+        };
+        const copy = transcodeLossy(channelData, sampleRate, mimeType, { ...options, lossy });
+        audioBytes = copy.bytes.buffer as ArrayBuffer;
+        mimeType = copy.mimeType;
+        options = { ...options, fileName: copy.fileName, transcoding: copy.transcoding };
+        log(`Made a lossy copy: ${formatTranscoding(copy.transcoding)}.`);
+    }
+    const output = (values.output as string | undefined) ?? `${basename(input, extname(input))}.orbit.png`;
+
+    if (container === 'chunk') {
+        const { frame, ...stats } = await encodeOrbitFrame(audioBytes, mimeType, options, logProgress());
+        await writeFile(output, insertPngChunk(await encodePng(drawAt(size)), { type: ORBIT_CHUNK_TYPE, data: frame }));
+        console.log(output);
+        log(`Attached ${formatBytes(stats.embeddedBytes)} of ${formatBytes(stats.originalBytes)} audio${stats.compressed ? ' (compressed)' : ''}`
+            + ` in an ${ORBIT_CHUNK_TYPE} chunk.`);
+        return;
+    }
+
+    // A cover photo is scaled up to the canvas that holds the payload; a drawn orbit keeps its size
+    const bitsPerChannel = options.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL;
+    const fitSize = (payloadLength: number) => container === 'robust'
+        ? fitRobustCanvasSize(payloadLength, canvasSize)
+        : fitCanvasSize(payloadLength, bitsPerChannel, options.errorCorrection, canvasSize);
+    const artwork = photo ? (payloadLength: number) => drawAt(fitSize(payloadLength)) : drawAt(canvasSize);
+    const { parts, ...stats } = container === 'robust'
+        ? await encodeOrbitRobust(artwork, audioBytes, mimeType, options, logProgress())
+        : await encodeOrbitPixels(artwork, audioBytes, mimeType, options, logProgress());
+    const stem = output.replace(/\.png$/i, '');
+    for (let i = 0; i < parts.length; i++) {
+        const path = parts.length > 1 ? `${stem}-part-${i + 1}-of-${parts.length}.png` : output;
+        await writeFile(path, await encodePng({ data: parts[i], width: size, height: size }));
+        console.log(path);
+    }
+    log(`Embedded ${formatBytes(stats.embeddedBytes)} of ${formatBytes(stats.originalBytes)} audio${stats.compressed ? ' (compressed)' : ''}`
+        + ` in ${parts.length} image${parts.length > 1 ? 's' : ''} holding up to ${formatBytes(stats.capacityBytes)}.`);
+};
+
+const decode = async (inputs: string[], values: CliValues) => {
+    if (inputs.length === 0) fail('decode needs at least one image.');
+    const sources = await Promise.all(inputs.map(loadSource));
+    const report = logProgress();
+    let resynthesized = false;
+    const { bytes, mimeType, fileName, metadata, attachments, transcoding, correctedErrors } = await decodeOrbits(sources, report, {
+        passphrase: values.passphrase as string | undefined,
+        scatterKey: values['scatter-key'] as string | undefined,
+    }).catch(error => {
+        // A spectrogram orbit still plays when its hidden data is gone, from the picture itself
+        const rebuilt = resynthesizeOrbit(sources, error, report);
+        if (!rebuilt) throw error;
+        resynthesized = true;
+        return { ...rebuilt, attachments: [], transcoding: undefined, correctedErrors: 0 };
+    });
+
+    const output = (values.output as string | undefined)
+        ?? fileName
+        ?? `${basename(inputs[0], extname(inputs[0])).replace(/(\.orbit)?(-part-\d+-of-\d+)?$/, '')}${extensionForMimeType(mimeType)}`;
+    // A name we picked must not replace an existing file; an explicit -o may
+    await writeOutput(output, bytes, !!values.output);
+    console.log(output);
+    // Attachments always go by the names they were packed under, so they never overwrite
+    for (const attachment of attachments) {
+        const path = join(dirname(output), attachment.name);
+        await writeOutput(path, attachment.data, false);
+        console.log(path);
+    }
+    for (const [key, value] of Object.entries(metadata ?? {})) log(`${key}: ${value}`);
+    if (transcoding) log(`This is a lossy copy (${formatTranscoding(transcoding)}), not the original file.`);
+    if (correctedErrors > 0) log(`Repaired ${correctedErrors} damaged byte${correctedErrors === 1 ? '' : 's'}.`);
+    if (resynthesized) log('The hidden data could not be read, so this was rebuilt from the spectrogram in the picture: an approximation, not the original.');
+};
+
+/** Writes a decoded file, refusing to replace an existing one unless told to. */
+const writeOutput = async (path: string, bytes: Uint8Array, overwrite: boolean) => {
+    try {
+        await writeFile(path, bytes, { flag: overwrite ? 'w' : 'wx' });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        throw new Error(`${path} already exists. Choose another name with -o or move it away.`);
+    }
+};
+
+const animate = async (inputs: string[], values: CliValues) => {
+    if (inputs.length !== 1) fail('animate takes exactly one audio file.');
+    const [input] = inputs;
+    const bytes = await readFile(input);
+    log('Extracting audio features...');
+    const features = loadFeatures(input, bytes, parseAnalysis(values));
+
+    const png = await renderRevealApng(features, {
+        fps: values.fps !== undefined ? Number(values.fps) : undefined,
+        size: values.size !== undefined ? Number(values.size) : undefined,
+        style: parseStyle(values),
+        variantSeed: values.seed as string | undefined,
+    }, () => {
+        const ctx = new SoftwareCanvasContext(CANVAS_SIZE, CANVAS_SIZE);
+        return { ctx, snapshot: size => scaleImage(ctx.getImageData(), size) };
+    }, logProgress());
+
+    const output = (values.output as string | undefined) ?? `${basename(input, extname(input))}.reveal.png`;
+    await writeFile(output, png);
+    console.log(output);
+};
+
+const inspect = async (inputs: string[], values: CliValues) => {
+    if (inputs.length === 0) fail('inspect needs at least one image.');
+    for (const input of inputs) {
+        console.log(`${input}:`);
+        const bytes = await readFile(input);
+        const image = await decodePng(bytes).catch(() => null);
+        const inspection = inspectOrbitFile(basename(input), bytes, image, {
+            passphrase: values.passphrase as string | undefined,
+            scatterKey: values['scatter-key'] as string | undefined,
+        });
+        const { preamble, header, error } = inspection;
+
+        console.log(`  file type:  ${inspection.fileType}`);
+        if (inspection.container === 'chunk') {
+            console.log(`  container:  ${ORBIT_CHUNK_TYPE} chunk, ${formatBytes(inspection.capacityBytes)}`);
+        } else if (image) {
+            console.log(`  size:       ${image.width}x${image.height} (orbits are ${CANVAS_SIZES.map(side => `${side}x${side}`).join(', ')})`);
+            if (inspection.robustGrid !== undefined) {
+                console.log(`  container:  robust, ${inspection.robustGrid}x${inspection.robustGrid} cells`);
+            } else if (preamble) {
+                console.log(`  preamble:   version ${preamble.version}, ${preamble.bitsPerChannel} bit(s) per channel, `
+                    + `${preamble.layout === LAYOUT_SCATTERED ? 'scattered' : 'raster'} layout, `
+                    + `${preamble.paritySymbols ? `${preamble.paritySymbols} parity bytes per codeword` : 'no error correction'}`);
+            } else {
+                console.log('  preamble:   none (read as a legacy 2-bit orbit)');
+            }
+            console.log(`  capacity:   ${inspection.usedBytes !== undefined ? `${formatBytes(inspection.usedBytes)} used of ` : ''}${formatBytes(inspection.capacityBytes)}`);
+        }
+
+        if (header) {
+            if (typeof header.mimeType === 'string') console.log(`  audio type: ${header.mimeType.replace(/\0+$/, '')}`);
+            console.log(`  header:     ${(header.version ?? 1) >= 2 ? `binary, version ${header.version}` : 'JSON (version 1)'}`);
+            if (header.fileName) console.log(`  file name:  ${safeFileName(header.fileName)}`);
+            for (const [key, value] of Object.entries(header.metadata ?? {})) console.log(`  ${`${key}:`.padEnd(12)}${value}`);
+            console.log(`  payload:    ${formatBytes(header.payloadLength)}`
+                + (inspection.availablePayloadBytes !== undefined ? ` claimed, ${formatBytes(inspection.availablePayloadBytes)} available` : '')
+                + (header.partCount && header.partCount > 1 ? `, part ${(header.partIndex ?? 0) + 1} of ${header.partCount} (set ${header.setId})` : ''));
+            if (header.compression) console.log(`  compressed: ${header.compression.method}, ${formatBytes(header.compression.uncompressedLength)} uncompressed`);
+            if (header.encryption) console.log(`  encrypted:  ${header.encryption.algorithm} with ${header.encryption.kdf}`);
+            if (header.entryCount !== undefined) console.log(`  attached:   ${header.entryCount - 1} file(s) besides the audio`);
+            if (header.transcoding) console.log(`  lossy copy: ${formatTranscoding(header.transcoding)} of ${header.transcoding.originalMimeType}`);
+        } else if (inspection.headerText !== undefined) {
+            console.log(`  header:     unreadable: ${JSON.stringify(inspection.headerText.slice(0, 120))}`);
+        }
+        if (error) {
+            console.log(`  error:      ${error.code ? `[${error.code}] ` : ''}${error.message}`);
+        } else {
+            console.log(`  checksums:  ${header?.payloadChecksum !== undefined ? 'verified' : 'not recorded'}`
+                + (inspection.correctedErrors ? `, ${inspection.correctedErrors} byte(s) repaired` : ''));
+        }
+        for (const finding of inspection.findings) console.log(`  - ${finding}`);
+
+        if (values.lsb && image) {
+            const output = `${input.slice(0, input.length - extname(input).length)}.lsb.png`;
+            await writeFile(output, await encodePng(lsbPlane(image, preamble?.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL)), { flag: 'wx' });
+            console.log(`  low bits:   ${output}`);
+        }
+    }
+};
+
+const listStyles = () => {
+    for (const renderer of Object.values(RENDERERS)) {
+        console.log(`${renderer.name}: ${renderer.description}`);
+        for (const param of renderer.params) {
+            const values = param.type === 'range'
+                ? `${param.min} to ${param.max}`
+                : param.options.map(option => option.value).join(', ');
+            console.log(`  ${param.key.padEnd(12)}${values} (default ${param.default})`);
+        }
+    }
+};
+
+const main = async () => {
+    const { positionals, values } = parseArgs({
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            bits: { type: 'string' },
+            ecc: { type: 'string' },
+            passphrase: { type: 'string' },
+            'scatter-key': { type: 'string' },
+            'no-compress': { type: 'boolean' },
+            container: { type: 'string' },
+            canvas: { type: 'string' },
+            lossy: { type: 'string' },
+            bitrate: { type: 'string' },
+            mono: { type: 'boolean' },
+            seed: { type: 'string' },
+            window: { type: 'string' },
+            hop: { type: 'string' },
+            fps: { type: 'string' },
+            size: { type: 'string' },
+            style: { type: 'string' },
+            param: { type: 'string', multiple: true },
+            meta: { type: 'string', multiple: true },
+            attach: { type: 'string', multiple: true },
+            cover: { type: 'string' },
+            overlay: { type: 'string' },
+            lsb: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...inputs] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+
+    switch (command) {
+        case 'encode': return encode(inputs, values);
+        case 'decode': return decode(inputs, values);
+        case 'inspect': return inspect(inputs, values);
+        case 'animate': return animate(inputs, values);
+        case 'styles': return listStyles();
+        default: fail(`Unknown command: ${command}`);
+    }
+};
+
+main().catch(error => {
+    if (error instanceof OrbitCodecError) {
+        log(`error [${error.code}]: ${error.message}`);
+    } else {
+        log(`error: ${(error as Error).message}`);
+    }
+    process.exitCode = 1;
+});
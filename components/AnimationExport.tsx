@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AnimationFormat, ArtworkStyle, AudioFeatures, CodecProgress } from '../types';
+import { DEFAULT_ANIMATION_FPS, DEFAULT_ANIMATION_SIZE } from '../services/animation';
+import { exportRevealApng } from '../services/audioCodec';
+import { canRecordRevealVideo, recordRevealVideo } from '../services/revealVideo';
+import { CANVAS_SIZE } from '../services/orbitCore';
+import { ProgressBar } from './ProgressBar';
+import { IconDownload } from './Icons';
+
+interface AnimationExportProps {
+  audio: File;
+  features: AudioFeatures | null; // Null while the audio is still being analysed
+  style: ArtworkStyle; // The still's, so the animation ends on it
+  variantSeed: string;
+}
+
+const FORMATS: { value: AnimationFormat; label: string; description: string }[] = [
+  { value: 'apng', label: 'Animated PNG', description: 'Silent and looping. Plays wherever PNGs do.' },
+  { value: 'webm', label: 'WebM video', description: 'With the audio. Records in real time, as long as the track.' },
+];
+
+const FRAME_RATES = [12, DEFAULT_ANIMATION_FPS, 30, 60];
+const SIZES = [256, DEFAULT_ANIMATION_SIZE, 768, CANVAS_SIZE];
+
+type ExportState =
+  | { state: 'idle'; message?: string }
+  | { state: 'exporting'; message: string; percent: number }
+  | { state: 'done'; url: string; format: AnimationFormat }
+  | { state: 'error'; message: string };
+
+/**
+ * Exports the artwork building up in step with the audio, as an APNG rendered
+ * in the codec worker or a WebM video recorded with the sound.
+ */
+export const AnimationExport: React.FC<AnimationExportProps> = ({ audio, features, style, variantSeed }) => {
+  const [format, setFormat] = useState<AnimationFormat>('apng');
+  const [fps, setFps] = useState(DEFAULT_ANIMATION_FPS);
+  const [size, setSize] = useState(DEFAULT_ANIMATION_SIZE);
+  const [status, setStatus] = useState<ExportState>({ state: 'idle' });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A new encode makes the last export stale
+  useEffect(() => {
+    setStatus({ state: 'idle' });
+    return () => controllerRef.current?.abort();
+  }, [audio, features, style, variantSeed]);
+  useEffect(() => () => { if (status.state === 'done') URL.revokeObjectURL(status.url); }, [status]);
+
+  const handleExport = async () => {
+    if (!features) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus({ state: 'exporting', message: 'Preparing animation...', percent: 0 });
+    const options = { fps, size, style, variantSeed: variantSeed || undefined, signal: controller.signal };
+    const onProgress = ({ message, percent }: CodecProgress) => setStatus({ state: 'exporting', message, percent });
+    try {
+      const blob = format === 'apng'
+        ? await exportRevealApng(features, onProgress, options)
+        : await recordRevealVideo(audio, features, onProgress, options);
+      setStatus({ state: 'done', url: URL.createObjectURL(blob), format });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setStatus({ state: 'idle', message: 'Export cancelled.' });
+        return;
+      }
+      console.error(error);
+      setStatus({ state: 'error', message: `Export failed: ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      controllerRef.current = null;
+    }
+  };
+
+  const selectClassName = 'mt-1 w-full bg-gray-900 border border-gray-800 rounded-md px-2 py-1.5 text-gray-200';
+
+  return (
+    <div className="mt-6 w-full bg-gray-900/80 rounded-lg p-4 border border-gray-800">
+      <p className="text-sm font-semibold text-gray-300 mb-3">Animate the Orbit</p>
+      <div className="grid grid-cols-2 gap-2">
+        {FORMATS.map(option => {
+          const unsupported = option.value === 'webm' && !canRecordRevealVideo();
+          return (
+            <button
+              key={option.value}
+              onClick={() => setFormat(option.value)}
+              disabled={unsupported || status.state === 'exporting'}
+              aria-pressed={format === option.value}
+              title={unsupported ? 'This browser cannot record WebM video.' : undefined}
+              className={`text-left rounded-lg border p-3 transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${format === option.value ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+            >
+              <p className="text-sm font-semibold text-gray-200">{option.label}</p>
+              <p className="text-xs text-gray-400 mt-1">{option.description}</p>
+            </button>
+          );
+        })}
+      </div>
+      <div className="mt-3 grid grid-cols-2 gap-4">
+        <label className="block text-xs text-gray-400">
+          Frame rate
+          <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={status.state === 'exporting'} className={selectClassName}>
+            {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-400">
+          Size
+          <select value={size} onChange={(e) => setSize(Number(e.target.value))} disabled={status.state === 'exporting'} className={selectClassName}>
+            {SIZES.map(px => <option key={px} value={px}>{px} x {px}</option>)}
+          </select>
+        </label>
+      </div>
+      {status.state === 'exporting' ? (
+        <>
+          <p className="text-xs text-gray-400 mt-4">{status.message}</p>
+          <ProgressBar percent={status.percent} onCancel={() => controllerRef.current?.abort()} />
+        </>
+      ) : (
+        <button
+          onClick={handleExport}
+          disabled={!features}
+          className="mt-4 w-full rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed py-2 text-sm font-semibold text-gray-200 transition-colors duration-300"
+        >
+          {features ? 'Export Animation' : 'Analysing audio...'}
+        </button>
+      )}
+      {status.state === 'done' && (
+        <a
+          href={status.url}
+          download={status.format === 'apng' ? 'orbit-reveal.png' : 'orbit-reveal.webm'}
+          className="mt-2 flex items-center justify-center gap-2 rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 py-2 text-sm font-semibold text-gray-200 transition-colors duration-300"
+        >
+          <IconDownload />
+          <span>{status.format === 'apng' ? 'Download Animated PNG' : 'Download Video'}</span>
+        </a>
+      )}
+      {status.state === 'idle' && status.message && <p className="text-xs text-gray-500 mt-3 text-center">{status.message}</p>}
+      {status.state === 'error' && <p className="text-red-400 text-sm mt-3 text-center">{status.message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import type { ArtworkStyle, AudioFeatures } from '../types';
+import { CANVAS_SIZE } from '../services/orbitCore';
+import { defaultParams, drawArtwork, RENDERERS } from '../services/renderers';
+
+interface ArtworkStylePanelProps {
+  features: AudioFeatures | null; // Null while the audio is still being analysed
+  analysisFailed: boolean;
+  style: ArtworkStyle;
+  variantSeed: string;
+  onChange: (style: ArtworkStyle) => void;
+}
+
+const PREVIEW_DELAY_MS = 150; // Lets a dragged slider settle before the preview redraws
+
+export const ArtworkStylePanel: React.FC<ArtworkStylePanelProps> = ({ features, analysisFailed, style, variantSeed, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderer = RENDERERS[style.renderer];
+  const params = { ...defaultParams(style.renderer), ...style.params };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!features || !ctx) return;
+    // Drawn at full size with the same renderer as the encoder, so the preview is the final artwork
+    const timer = setTimeout(() => drawArtwork(ctx, features, style, variantSeed || undefined), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [features, style, variantSeed]);
+
+  const setParam = (key: string, value: number | string) => onChange({ ...style, params: { ...params, [key]: value } });
+
+  return (
+    <div className="mt-6">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Artwork style</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {Object.values(RENDERERS).map(option => (
+          <button
+            key={option.name}
+            onClick={() => onChange({ renderer: option.name, params: defaultParams(option.name) })}
+            aria-pressed={style.renderer === option.name}
+            title={option.description}
+            className={`text-left rounded-lg border p-3 transition-colors duration-300 ${style.renderer === option.name ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+          >
+            <p className="text-sm font-semibold text-gray-200">{option.label}</p>
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">{renderer.description}</p>
+      <div className="mt-4 grid sm:grid-cols-2 gap-4 items-start">
+        <div className="relative aspect-square rounded-lg border border-gray-800 overflow-hidden bg-black">
+          <canvas ref={canvasRef} width={CANVAS_SIZE} height={CANVAS_SIZE} className="w-full h-full" />
+          {!features && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/80 text-xs text-gray-500">
+              {analysisFailed ? 'No preview: the audio could not be analysed.' : 'Analysing audio...'}
+            </div>
+          )}
+        </div>
+        <div className="space-y-3">
+          {renderer.params.map(param => (
+            <label key={param.key} className="block text-xs text-gray-400">
+              <span className="flex justify-between">
+                <span>{param.label}</span>
+                {param.type === 'range' && <span className="text-gray-500">{params[param.key]}</span>}
+              </span>
+              {param.type === 'range' ? (
+                <input
+                  type="range"
+                  min={param.min}
+                  max={param.max}
+                  step={param.step}
+                  value={params[param.key]}
+                  onChange={(e) => setParam(param.key, Number(e.target.value))}
+                  className="w-full accent-gray-200"
+                />
+              ) : (
+                <select
+                  value={String(params[param.key])}
+                  onChange={(e) => setParam(param.key, e.target.value)}
+                  className="mt-1 w-full bg-gray-900 border border-gray-800 rounded-md px-2 py-1.5 text-gray-200"
+                >
+                  {param.options.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
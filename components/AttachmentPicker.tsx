@@ -0,0 +1,57 @@
+import React, { useRef } from 'react';
+import { formatBytes } from '../utils/format';
+
+interface AttachmentPickerProps {
+  value: File[];
+  onChange: (attachments: File[]) => void;
+}
+
+/**
+ * Files to carry in the orbit next to the audio, such as lyrics, a cover or
+ * a license. They share its compression, encryption and capacity.
+ */
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ value, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added: File[] = e.target.files ? Array.from(e.target.files) : [];
+    // A file picked twice replaces the earlier pick, as two entries of one name would clash
+    onChange([...value.filter(file => !added.some(a => a.name.toLowerCase() === file.name.toLowerCase())), ...added]);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-6">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Attachments (optional)</p>
+      {value.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {value.map(file => (
+            <li key={file.name} className="flex items-center justify-between gap-3 rounded-lg border border-gray-800 bg-gray-900/80 px-3 py-2 text-sm">
+              <span className="min-w-0 truncate text-gray-200">{file.name}</span>
+              <span className="shrink-0 flex items-center gap-3">
+                <span className="text-xs text-gray-500">{formatBytes(file.size)}</span>
+                <button
+                  onClick={() => onChange(value.filter(f => f !== file))}
+                  aria-label={`Remove ${file.name}`}
+                  className="text-xs text-gray-400 hover:text-gray-200"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="w-full rounded-lg border border-dashed border-gray-800 hover:border-gray-600 py-2 text-sm text-gray-400 transition-colors duration-300"
+      >
+        Attach files
+      </button>
+      <input ref={inputRef} type="file" multiple onChange={handleAdd} className="hidden" />
+      <p className="mt-2 text-xs text-gray-500">
+        Packed with the audio and restored as separate downloads. They count towards the image's capacity.
+      </p>
+    </div>
+  );
+};
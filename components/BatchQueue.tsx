@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { BatchItem } from '../types';
+import { zipBatchOutputs } from '../services/batch';
+import { IconDownload, IconLoader } from './Icons';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  zipName: string;
+  running: boolean;
+}
+
+const STATE_LABELS: Record<BatchItem['state'], string> = {
+  queued: 'Waiting',
+  processing: 'Working',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATE_COLORS: Record<BatchItem['state'], string> = {
+  queued: 'text-gray-500',
+  processing: 'text-gray-200',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+/**
+ * Lists a batch with each item's status, and once it has finished, offers
+ * everything it produced as one ZIP.
+ */
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, zipName, running }) => {
+  const [zipping, setZipping] = useState(false);
+  const done = items.filter(item => item.state === 'done').length;
+  const failed = items.filter(item => item.state === 'failed').length;
+
+  const handleDownload = async () => {
+    setZipping(true);
+    try {
+      const url = URL.createObjectURL(await zipBatchOutputs(items));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = zipName;
+      link.click();
+      // The download has started by the time the click returns
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-900/80 rounded-lg p-4 border border-gray-800">
+      <p className="text-sm font-semibold text-gray-300 mb-3">
+        {done} of {items.length} done{failed > 0 && `, ${failed} failed`}
+      </p>
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="text-xs">
+            <div className="flex justify-between gap-3">
+              <span className="truncate text-gray-300" title={item.name}>{item.name}</span>
+              <span className={`shrink-0 ${STATE_COLORS[item.state]}`}>
+                {item.state === 'processing' && item.percent !== undefined ? `${item.percent}%` : STATE_LABELS[item.state]}
+              </span>
+            </div>
+            {item.state === 'processing' && item.message && <p className="text-gray-500 mt-0.5">{item.message}</p>}
+            {item.state === 'failed' && <p className="text-red-400/80 mt-0.5">{item.message}</p>}
+          </li>
+        ))}
+      </ul>
+      {!running && done > 0 && (
+        <button
+          onClick={handleDownload}
+          disabled={zipping}
+          className="mt-4 w-full flex items-center justify-center gap-2 rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 disabled:text-gray-500 py-2 text-sm font-semibold text-gray-200 transition-colors duration-300"
+        >
+          {zipping ? <IconLoader /> : <IconDownload />}
+          <span>Download All as ZIP</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { getImageCapacity, MAX_BITS_PER_CHANNEL, MIN_BITS_PER_CHANNEL } from '../services/orbitCore';
+import type { ErrorCorrectionLevel } from '../types';
+import { formatBytes } from '../utils/format';
+
+interface BitDepthSelectorProps {
+  value: number;
+  onChange: (bitsPerChannel: number) => void;
+  fileSize?: number;
+  errorCorrection?: ErrorCorrectionLevel;
+  canvasSize?: number;
+}
+
+// How far a channel can drift from the artwork at each depth, in 0-255 levels
+const VISUAL_IMPACT: Record<number, string> = {
+  1: 'Invisible (±1 level)',
+  2: 'Imperceptible (±3 levels)',
+  3: 'Faint grain in dark areas (±7 levels)',
+  4: 'Visible noise (±15 levels)',
+};
+
+export const BitDepthSelector: React.FC<BitDepthSelectorProps> = ({ value, onChange, fileSize, errorCorrection, canvasSize }) => {
+  const depths = Array.from({ length: MAX_BITS_PER_CHANNEL - MIN_BITS_PER_CHANNEL + 1 }, (_, i) => MIN_BITS_PER_CHANNEL + i);
+
+  return (
+    <div className="mt-6">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Bits per channel</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {depths.map(bits => {
+          const capacity = getImageCapacity(bits, errorCorrection, canvasSize);
+          const images = fileSize ? Math.max(1, Math.ceil(fileSize / capacity)) : null;
+          return (
+            <button
+              key={bits}
+              onClick={() => onChange(bits)}
+              aria-pressed={value === bits}
+              className={`text-left rounded-lg border p-3 transition-colors duration-300 ${value === bits ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+            >
+              <p className="text-sm font-semibold text-gray-200">{bits} bit{bits > 1 ? 's' : ''}</p>
+              <p className="text-xs text-gray-400 mt-1">{formatBytes(capacity)} per image</p>
+              <p className="text-xs text-gray-500 mt-1">{VISUAL_IMPACT[bits]}</p>
+              {images !== null && (
+                <p className={`text-xs mt-1 ${images > 1 ? 'text-amber-400' : 'text-green-400'}`}>
+                  {images > 1 ? `Needs ${images} images` : 'Fits in one image'}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
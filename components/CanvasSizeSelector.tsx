@@ -0,0 +1,31 @@
+import React from 'react';
+import { CANVAS_SIZES, getImageCapacity, getRobustCapacity } from '../services/orbitCore';
+import type { ErrorCorrectionLevel, OrbitContainer } from '../types';
+import { formatBytes } from '../utils/format';
+
+interface CanvasSizeSelectorProps {
+  value: number;
+  onChange: (canvasSize: number) => void;
+  bitsPerChannel: number;
+  errorCorrection: ErrorCorrectionLevel;
+  container: OrbitContainer;
+}
+
+export const CanvasSizeSelector: React.FC<CanvasSizeSelectorProps> = ({ value, onChange, bitsPerChannel, errorCorrection, container }) => (
+  <div className="mt-6">
+    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Canvas size</p>
+    <div className="grid grid-cols-3 gap-2">
+      {CANVAS_SIZES.map(size => (
+        <button
+          key={size}
+          onClick={() => onChange(size)}
+          aria-pressed={value === size}
+          className={`text-left rounded-lg border p-3 transition-colors duration-300 ${value === size ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+        >
+          <p className="text-sm font-semibold text-gray-200">{size} × {size}</p>
+          <p className="text-xs text-gray-400 mt-1">{formatBytes(container === 'robust' ? getRobustCapacity(size) : getImageCapacity(bitsPerChannel, errorCorrection, size))} per image</p>
+        </button>
+      ))}
+    </div>
+  </div>
+);
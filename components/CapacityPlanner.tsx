@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { measureAudio, reshapeAudio } from '../services/audioCodec';
+import { attachedSize, planCapacity, type AudioMeasurement, type CapacitySettings, type FitOption } from '../services/capacityPlanner';
+import { formatBytes, formatTranscoding } from '../utils/format';
+import { IconLoader } from './Icons';
+
+interface CapacityPlannerProps {
+  audio: File;
+  settings: CapacitySettings;
+  encrypted: boolean;
+  attachments: File[]; // Counted against the image's capacity along with the audio
+  onApplySettings: (changes: Partial<CapacitySettings>) => void;
+  onReplaceAudio: (file: File) => void; // Receives the trimmed or transcoded file
+}
+
+type Measurement =
+  | { state: 'measuring' }
+  | { state: 'done'; audio: Omit<AudioMeasurement, 'encrypted' | 'attachedBytes'> }
+  | { state: 'failed' };
+
+/**
+ * Says how much of one image the audio needs as soon as it is chosen, and when
+ * it does not fit, offers the changes that would make it, applied with a click.
+ */
+export const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ audio, settings, encrypted, attachments, onApplySettings, onReplaceAudio }) => {
+  const [measurement, setMeasurement] = useState<Measurement>({ state: 'measuring' });
+  const [applying, setApplying] = useState<FitOption | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMeasurement({ state: 'measuring' });
+    setError(null);
+    measureAudio(audio).then(
+      measured => { if (!cancelled) setMeasurement({ state: 'done', audio: measured }); },
+      (failure) => {
+        // Files the browser cannot decode still encode; they just go unplanned
+        console.error(failure);
+        if (!cancelled) setMeasurement({ state: 'failed' });
+      },
+    );
+    return () => { cancelled = true; };
+  }, [audio]);
+
+  const plan = useMemo(
+    () => measurement.state === 'done'
+      ? planCapacity({ ...measurement.audio, encrypted, attachedBytes: attachedSize(audio, attachments) }, settings)
+      : null,
+    [measurement, encrypted, audio, attachments, settings],
+  );
+
+  const handleApply = async (option: FitOption) => {
+    if (option.kind === 'settings') {
+      onApplySettings(option.changes);
+      return;
+    }
+    setApplying(option);
+    setError(null);
+    try {
+      onReplaceAudio(await reshapeAudio(audio, option.kind === 'trim'
+        ? { duration: option.duration }
+        : { sampleRate: option.sampleRate, channels: option.channels }));
+    } catch (failure) {
+      console.error(failure);
+      setError(`Could not convert the audio: ${failure instanceof Error ? failure.message : String(failure)}`);
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  if (measurement.state === 'failed') return null;
+  if (!plan) {
+    return <p className="mt-6 text-xs text-gray-500 text-center">Measuring the audio...</p>;
+  }
+
+  const fits = plan.imageCount === 1;
+  return (
+    <div className="mt-6 w-full bg-gray-900/80 rounded-lg p-4 border border-gray-800">
+      <p className="text-sm font-semibold text-gray-300">
+        {settings.container === 'chunk'
+          ? `Needs ${formatBytes(plan.neededBytes)}, stored in a PNG chunk`
+          : `Needs ${formatBytes(plan.neededBytes)} of ${formatBytes(plan.capacityBytes)} per image`}
+      </p>
+      {plan.grownCanvasSize && (
+        <p className="text-xs text-gray-500 mt-1">
+          The cover photo is scaled up to {plan.grownCanvasSize} × {plan.grownCanvasSize} pixels to hold it.
+        </p>
+      )}
+      <p className={`text-xs mt-1 ${fits ? 'text-green-400' : 'text-amber-400'}`}>
+        {plan.lossyPreset && settings.lossy
+          ? `Fits in one image as a lossy copy: ${formatTranscoding({ codec: settings.lossy.codec, ...plan.lossyPreset })}.`
+          : fits
+            ? 'Fits in one image.'
+            : settings.lossy
+              ? 'Even the smallest lossy copy does not fit one image. To make it fit:'
+              : settings.container === 'robust'
+                ? 'It is too large for the robust container. To make it fit:'
+                : `At these settings it is split across ${plan.imageCount} images. To keep it in one:`}
+      </p>
+      {plan.options.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {plan.options.map(option => (
+            <li key={option.label} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-200">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.detail}</p>
+              </div>
+              <button
+                onClick={() => handleApply(option)}
+                disabled={applying !== null}
+                className="shrink-0 flex items-center gap-2 rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed px-3 py-1.5 text-xs font-semibold text-gray-200 transition-colors duration-300"
+              >
+                {applying === option && <IconLoader />}
+                <span>Apply</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-red-400 text-xs mt-3">{error}</p>}
+    </div>
+  );
+};
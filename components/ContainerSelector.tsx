@@ -0,0 +1,46 @@
+import React from 'react';
+import type { OrbitContainer } from '../types';
+import { robustSpeechSeconds } from '../services/transcoder';
+
+interface ContainerSelectorProps {
+  value: OrbitContainer;
+  onChange: (container: OrbitContainer) => void;
+}
+
+const CONTAINERS: { value: OrbitContainer; label: string; description: string }[] = [
+  { value: 'pixels', label: 'In the pixels', description: 'Survives any lossless copy. Capacity is limited and adds faint noise.' },
+  { value: 'chunk', label: 'PNG chunk', description: 'Artwork stays untouched and any file size fits.' },
+  { value: 'robust', label: 'Robust', description: 'Survives JPEG and resizing, but holds 2 KB at most.' },
+];
+
+export const ContainerSelector: React.FC<ContainerSelectorProps> = ({ value, onChange }) => (
+  <div className="mt-6">
+    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Where to store the audio</p>
+    <div className="grid grid-cols-3 gap-2">
+      {CONTAINERS.map(container => (
+        <button
+          key={container.value}
+          onClick={() => onChange(container.value)}
+          aria-pressed={value === container.value}
+          className={`text-left rounded-lg border p-3 transition-colors duration-300 ${value === container.value ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+        >
+          <p className="text-sm font-semibold text-gray-200">{container.label}</p>
+          <p className="text-xs text-gray-400 mt-1">{container.description}</p>
+        </button>
+      ))}
+    </div>
+    {value === 'chunk' && (
+      <p className="text-xs text-amber-400/90 mt-2">
+        The audio travels in a private chunk next to the image data. Image hosts, chat apps and editors that re-encode
+        PNGs drop it, and the audio with it. Share the file itself, not a re-uploaded copy.
+      </p>
+    )}
+    {value === 'robust' && (
+      <p className="text-xs text-amber-400/90 mt-2">
+        The audio shifts the brightness of small blocks, which outlasts JPEG at quality 50 or better and shrinking to half
+        size. It holds about 2 KB on the largest canvas, {robustSpeechSeconds()} seconds of speech as a mono lossy copy, and
+        leaves a faint blockiness.
+      </p>
+    )}
+  </div>
+);
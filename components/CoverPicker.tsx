@@ -0,0 +1,67 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+
+interface CoverPickerProps {
+  cover: File | null;
+  overlay: number; // Opacity of the orbit over the photo, 0 for none
+  onChange: (changes: { cover?: File | null; coverOverlay?: number }) => void;
+}
+
+/**
+ * Swaps the drawn orbit for a photo of the user's own. The photo is fitted to
+ * the canvas, which grows until the audio fits one image, and the orbit can
+ * still be blended over it.
+ */
+export const CoverPicker: React.FC<CoverPickerProps> = ({ cover, overlay, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewUrl = useMemo(() => cover && URL.createObjectURL(cover), [cover]);
+  useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChange({ cover: file });
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-6">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Cover photo (optional)</p>
+      {cover && previewUrl ? (
+        <div className="flex items-center gap-3 rounded-lg border border-gray-800 bg-gray-900/80 p-3">
+          <img src={previewUrl} alt="" className="w-16 h-16 object-cover rounded" />
+          <div className="min-w-0 flex-grow">
+            <p className="text-sm text-gray-200 truncate">{cover.name}</p>
+            <label className="block text-xs text-gray-400 mt-2">
+              Orbit overlay: {overlay > 0 ? `${Math.round(overlay * 100)}%` : 'off'}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={overlay}
+                onChange={(e) => onChange({ coverOverlay: Number(e.target.value) })}
+                className="mt-1 w-full accent-gray-200"
+              />
+            </label>
+          </div>
+          <button
+            onClick={() => onChange({ cover: null })}
+            className="shrink-0 self-start text-xs text-gray-400 hover:text-gray-200"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="w-full rounded-lg border border-dashed border-gray-800 hover:border-gray-600 py-2 text-sm text-gray-400 transition-colors duration-300"
+        >
+          Hide the audio in a photo
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept="image/*" onChange={handlePick} className="hidden" />
+      <p className="mt-2 text-xs text-gray-500">
+        The photo replaces the drawn orbit and decodes the same way. It is padded to a square and scaled up when the audio needs more room.
+      </p>
+    </div>
+  );
+};
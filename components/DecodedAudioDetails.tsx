@@ -0,0 +1,76 @@
+import React from 'react';
+import type { DecodeResult } from '../types';
+import { formatBytes, formatDuration } from '../utils/format';
+import { IconDownload } from './Icons';
+import { METADATA_FIELDS } from './MetadataForm';
+
+interface DecodedAudioDetailsProps {
+  result: DecodeResult;
+  downloadName: string; // The original file's name when the orbit kept it
+}
+
+/**
+ * What the orbit's header says about the decoded audio, a download named
+ * after the file it was made from, and one for each file attached to it.
+ */
+export const DecodedAudioDetails: React.FC<DecodedAudioDetailsProps> = ({ result, downloadName }) => {
+  const { duration, ...tags } = result.metadata ?? {};
+  const labels = Object.fromEntries(METADATA_FIELDS.map(({ key, label }) => [key, label]));
+  // Known tags in the form's order, then any others the orbit carries but the
+  // artwork style, which only steers the viewer's playhead
+  const rows = [
+    ...METADATA_FIELDS.filter(({ key }) => tags[key]).map(({ key }) => [labels[key], tags[key]]),
+    ...Object.entries(tags).filter(([key]) => !(key in labels) && key !== 'style').map(([key, value]) => [key, value]),
+    ...(duration && Number.isFinite(Number(duration)) ? [['Duration', formatDuration(Number(duration))]] : []),
+  ];
+
+  return (
+    <div className="mt-4 w-full bg-gray-900/80 rounded-lg p-4 border border-gray-800">
+      {result.resynthesized && (
+        <p className="text-xs text-amber-400/90 mb-4">
+          Rebuilt from the spectrogram in the picture, as its hidden data could not be read. It is an approximation, not the original audio.
+        </p>
+      )}
+      {rows.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm mb-4">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-200 break-words">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      <a
+        href={result.audioUrl}
+        download={downloadName}
+        className="flex items-center justify-center gap-2 rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 py-2 text-sm font-semibold text-gray-200 transition-colors duration-300"
+      >
+        <IconDownload />
+        <span>Download {downloadName}</span>
+      </a>
+      {result.attachments.length > 0 && (
+        <>
+          <p className="mt-4 mb-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Attachments</p>
+          <ul className="space-y-2">
+            {result.attachments.map(({ name, size, url }) => (
+              <li key={name}>
+                <a
+                  href={url}
+                  download={name}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 px-3 py-2 text-sm text-gray-200 transition-colors duration-300"
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <IconDownload />
+                    <span className="truncate">{name}</span>
+                  </span>
+                  <span className="shrink-0 text-xs text-gray-500">{formatBytes(size)}</span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ERROR_CORRECTION_PARITY } from '../services/orbitCore';
+import type { ErrorCorrectionLevel } from '../types';
+
+interface ErrorCorrectionSelectorProps {
+  value: ErrorCorrectionLevel;
+  onChange: (level: ErrorCorrectionLevel) => void;
+}
+
+const LEVEL_LABELS: Record<ErrorCorrectionLevel, string> = {
+  none: 'Off',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+export const ErrorCorrectionSelector: React.FC<ErrorCorrectionSelectorProps> = ({ value, onChange }) => {
+  const levels = Object.keys(ERROR_CORRECTION_PARITY) as ErrorCorrectionLevel[];
+
+  return (
+    <div className="mt-6">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Error correction</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {levels.map(level => {
+          const parity = ERROR_CORRECTION_PARITY[level];
+          // Each 255-byte Reed-Solomon codeword repairs half as many bytes as it has parity bytes
+          const repairable = (parity / 2 / 255 * 100).toFixed(1);
+          const overhead = Math.round(parity / 255 * 100);
+          return (
+            <button
+              key={level}
+              onClick={() => onChange(level)}
+              aria-pressed={value === level}
+              className={`text-left rounded-lg border p-3 transition-colors duration-300 ${value === level ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+            >
+              <p className="text-sm font-semibold text-gray-200">{LEVEL_LABELS[level]}</p>
+              <p className="text-xs text-gray-400 mt-1">{parity > 0 ? `Repairs ${repairable}% damage` : 'Any damage breaks it'}</p>
+              <p className="text-xs text-gray-500 mt-1">{parity > 0 ? `${overhead}% less capacity` : 'Full capacity'}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
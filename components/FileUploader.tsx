@@ -1,16 +1,55 @@
 
 import React, { useState, useCallback } from 'react';
+import { AUDIO_MIME_TYPES } from '../utils/fileNames';
 
 interface FileUploaderProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload?: (file: File) => void;
+  onFilesUpload?: (files: File[]) => void; // When set, several files or whole folders can be dropped at once
   accept: string;
   icon: React.ReactNode;
   text: string;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, accept, icon, text }) => {
+const TYPES_BY_EXTENSION: Record<string, string> = { ...AUDIO_MIME_TYPES, '.png': 'image/png' };
+
+/** Whether a file matches an `accept` list, judging files without a type by their extension. */
+const isAccepted = (file: File, accept: string) => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  const type = file.type || TYPES_BY_EXTENSION[extension] || '';
+  return accept.split(',').map(token => token.trim().toLowerCase()).some(token =>
+    token.startsWith('.') ? extension === token : token.endsWith('/*') ? type.startsWith(token.slice(0, -1)) : type === token);
+};
+
+/** Reads every file in a dropped folder and its subfolders, in name order. */
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // Directory readers hand out their entries a batch at a time until one comes back empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, onFilesUpload, accept, icon, text }) => {
   const [isDragging, setIsDragging] = useState(false);
 
+  const handleFiles = useCallback((files: File[]) => {
+    if (onFilesUpload) {
+      // Folders hold all sorts of files; only the ones this uploader takes go on
+      const accepted = files.filter(file => isAccepted(file, accept));
+      if (accepted.length > 0) onFilesUpload(accepted);
+    } else {
+      onFileUpload?.(files[0]);
+    }
+  }, [onFileUpload, onFilesUpload, accept]);
+
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -32,14 +71,20 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, accept
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileUpload(e.dataTransfer.files[0]);
+    // Entries must be taken before the handler returns; the drop's data is cleared after that
+    const entries = Array.from<DataTransferItem>(e.dataTransfer.items ?? [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    if (onFilesUpload && entries.some(entry => entry.isDirectory)) {
+      Promise.all(entries.map(readEntry)).then(files => handleFiles(files.flat()), console.error);
+    } else if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
-  }, [onFileUpload]);
+  }, [handleFiles, onFilesUpload]);
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-        onFileUpload(e.target.files[0]);
+        handleFiles(Array.from(e.target.files));
     }
   };
 
@@ -54,6 +99,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, accept
       <input
         type="file"
         accept={accept}
+        multiple={!!onFilesUpload}
         onChange={handleFileChange}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         aria-label={text}
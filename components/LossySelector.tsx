@@ -0,0 +1,74 @@
+import React from 'react';
+import type { LossyCodec, LossyOptions } from '../types';
+
+interface LossySelectorProps {
+  value: LossyOptions | null;
+  onChange: (lossy: LossyOptions | null) => void;
+}
+
+const MODES: { value: LossyCodec | null; label: string; description: string }[] = [
+  { value: null, label: 'Off', description: 'Embeds the file itself, restored bit for bit.' },
+  { value: 'ima-adpcm', label: 'IMA ADPCM', description: '4 bits per sample. Fits about twice as long as μ-law.' },
+  { value: 'mu-law', label: 'μ-law', description: '8 bits per sample. Cleaner, with less hiss.' },
+  { value: 'ima-adpcm-2bit', label: 'Speech', description: 'IMA ADPCM at 2 bits per sample. Rough, for a few seconds of voice.' },
+];
+
+const BITRATE_LIMITS = [32, 64, 128, 256]; // Kilobits per second
+
+/**
+ * Turns on the lossy fallback: a smaller copy of the audio at the highest
+ * bitrate that fits one image, for recordings too long to embed as they are.
+ */
+export const LossySelector: React.FC<LossySelectorProps> = ({ value, onChange }) => {
+  const selectClassName = 'mt-1 w-full bg-gray-900 border border-gray-800 rounded-md px-2 py-1.5 text-gray-200';
+  return (
+    <div className="mt-6">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Lossy copy</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {MODES.map(mode => {
+          const selected = (value?.codec ?? null) === mode.value;
+          return (
+            <button
+              key={mode.label}
+              onClick={() => onChange(mode.value ? { ...value, codec: mode.value } : null)}
+              aria-pressed={selected}
+              className={`text-left rounded-lg border p-3 transition-colors duration-300 ${selected ? 'border-gray-300 bg-gray-800' : 'border-gray-800 bg-gray-900/80 hover:border-gray-700'}`}
+            >
+              <p className="text-sm font-semibold text-gray-200">{mode.label}</p>
+              <p className="text-xs text-gray-400 mt-1">{mode.description}</p>
+            </button>
+          );
+        })}
+      </div>
+      {value && (
+        <>
+          <div className="mt-3 grid grid-cols-2 gap-4 items-end">
+            <label className="block text-xs text-gray-400">
+              Bitrate
+              <select
+                value={value.bitrate ?? 0}
+                onChange={(e) => onChange({ ...value, bitrate: Number(e.target.value) || undefined })}
+                className={selectClassName}
+              >
+                <option value={0}>Highest that fits</option>
+                {BITRATE_LIMITS.map(kbps => <option key={kbps} value={kbps}>Up to {kbps} kbps</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer pb-1.5">
+              <input
+                type="checkbox"
+                checked={!!value.mono}
+                onChange={(e) => onChange({ ...value, mono: e.target.checked })}
+                className="accent-gray-200"
+              />
+              <span>Mix down to mono</span>
+            </label>
+          </div>
+          <p className="text-xs text-amber-400/90 mt-2">
+            The image holds a resampled copy, not your file. Decoding plays it back as a lossy copy and says so.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { AudioMetadata } from '../types';
+
+interface MetadataFormProps {
+  value: AudioMetadata;
+  onChange: (metadata: AudioMetadata) => void;
+}
+
+/** The tags the form asks for; any other key in the metadata is kept as it is. */
+export const METADATA_FIELDS: { key: string; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album' },
+  { key: 'date', label: 'Date' },
+];
+
+/**
+ * Tags for the orbit's header. Decoding shows them and names the download
+ * after the original file, which the header keeps without being asked.
+ */
+export const MetadataForm: React.FC<MetadataFormProps> = ({ value, onChange }) => (
+  <div className="mt-6">
+    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Details (optional)</p>
+    <div className="grid grid-cols-2 gap-2">
+      {METADATA_FIELDS.map(({ key, label }) => (
+        <input
+          key={key}
+          type="text"
+          value={value[key] ?? ''}
+          onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+          placeholder={label}
+          autoComplete="off"
+          className="w-full bg-gray-900/80 border border-gray-800 focus:border-gray-600 rounded-lg px-4 py-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none"
+        />
+      ))}
+    </div>
+    <p className="mt-2 text-xs text-gray-500">
+      Stored in the image next to the file name and duration. Like them, the details are readable without the passphrase.
+    </p>
+  </div>
+);
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { CodecProgress } from '../types';
+import { inspectOrbitImage } from '../services/audioCodec';
+import type { OrbitInspection } from '../services/inspector';
+import { DEFAULT_BITS_PER_CHANNEL, LAYOUT_RASTER, LAYOUT_SCATTERED } from '../services/orbitCore';
+import { formatBytes } from '../utils/format';
+import { ProgressBar } from './ProgressBar';
+
+interface OrbitInspectorProps {
+  files: File[];
+  passphrase: string;
+  scatterKey: string;
+  decodeFailed: boolean; // Points the user here after a failed decode
+}
+
+interface InspectedFile {
+  inspection: OrbitInspection;
+  lsbImageUrl: string | null;
+}
+
+type InspectState =
+  | { state: 'idle'; message?: string }
+  | { state: 'inspecting'; message: string; percent: number }
+  | { state: 'done'; results: InspectedFile[] }
+  | { state: 'error'; message: string };
+
+const LAYOUT_NAMES: Record<number, string> = {
+  [LAYOUT_RASTER]: 'raster',
+  [LAYOUT_SCATTERED]: 'scattered',
+};
+
+/**
+ * The forensic view of the Decode tab: for each selected image, what its
+ * preamble and header claim, how much data it really holds, its low bits made
+ * visible and a guess at why it does not decode.
+ */
+export const OrbitInspector: React.FC<OrbitInspectorProps> = ({ files, passphrase, scatterKey, decodeFailed }) => {
+  const [status, setStatus] = useState<InspectState>({ state: 'idle' });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Another selection or key makes the last inspection stale
+  useEffect(() => {
+    setStatus({ state: 'idle' });
+    return () => controllerRef.current?.abort();
+  }, [files, passphrase, scatterKey]);
+  useEffect(() => () => {
+    if (status.state === 'done') status.results.forEach(({ lsbImageUrl }) => lsbImageUrl && URL.revokeObjectURL(lsbImageUrl));
+  }, [status]);
+
+  const handleInspect = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus({ state: 'inspecting', message: 'Reading image data...', percent: 0 });
+    const results: InspectedFile[] = [];
+    try {
+      for (let i = 0; i < files.length; i++) {
+        const onProgress = ({ message, percent }: CodecProgress) => setStatus({
+          state: 'inspecting',
+          message: files.length > 1 ? `${files[i].name}: ${message}` : message,
+          percent: Math.round((i * 100 + percent) / files.length),
+        });
+        results.push(await inspectOrbitImage(files[i], onProgress, { passphrase, scatterKey, signal: controller.signal }));
+      }
+      setStatus({ state: 'done', results });
+    } catch (error) {
+      results.forEach(({ lsbImageUrl }) => lsbImageUrl && URL.revokeObjectURL(lsbImageUrl));
+      if (controller.signal.aborted) {
+        setStatus({ state: 'idle', message: 'Inspection cancelled.' });
+        return;
+      }
+      console.error(error);
+      setStatus({ state: 'error', message: `Inspection failed: ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      controllerRef.current = null;
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-900/80 rounded-lg p-4 border border-gray-800">
+      <p className="text-sm font-semibold text-gray-300">Inspect</p>
+      <p className="text-xs text-gray-400 mt-1">
+        {decodeFailed
+          ? 'See what the image still holds and why it may not decode.'
+          : 'Look inside the image without decoding it: its header, capacity and hidden bits.'}
+      </p>
+      {status.state === 'inspecting' ? (
+        <>
+          <p className="text-xs text-gray-400 mt-4">{status.message}</p>
+          <ProgressBar percent={status.percent} onCancel={() => controllerRef.current?.abort()} />
+        </>
+      ) : (
+        <button
+          onClick={handleInspect}
+          className="mt-4 w-full rounded-lg border border-gray-800 bg-gray-900/80 hover:border-gray-600 py-2 text-sm font-semibold text-gray-200 transition-colors duration-300"
+        >
+          {files.length > 1 ? `Inspect ${files.length} Images` : 'Inspect Image'}
+        </button>
+      )}
+      {status.state === 'done' && status.results.map(result => <InspectionReport key={result.inspection.name} {...result} />)}
+      {status.state === 'idle' && status.message && <p className="text-xs text-gray-500 mt-3 text-center">{status.message}</p>}
+      {status.state === 'error' && <p className="text-red-400 text-sm mt-3 text-center">{status.message}</p>}
+    </div>
+  );
+};
+
+const InspectionReport: React.FC<InspectedFile> = ({ inspection, lsbImageUrl }) => {
+  const { preamble, header, headerText, width, height, expectedSize } = inspection;
+  const bitsPerChannel = preamble?.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL;
+  const sizeMatches = width === expectedSize && height === expectedSize;
+
+  const facts: [string, React.ReactNode][] = [
+    ['File type', inspection.fileType],
+    ['Dimensions', width === undefined
+      ? 'Unreadable'
+      : <span className={sizeMatches || inspection.container !== 'pixels' ? undefined : 'text-red-400'}>{width} × {height} (expected {expectedSize} × {expectedSize})</span>],
+    ['Container', inspection.container === 'chunk'
+      ? 'PNG chunk'
+      : inspection.container === 'robust' ? `Robust, ${inspection.robustGrid} × ${inspection.robustGrid} cells` : 'Pixels'],
+    ['Preamble', preamble
+      ? `Version ${preamble.version}, ${preamble.bitsPerChannel} bit${preamble.bitsPerChannel === 1 ? '' : 's'} per channel, ${LAYOUT_NAMES[preamble.layout] ?? `unknown layout ${preamble.layout}`}${preamble.paritySymbols > 0 ? `, ${preamble.paritySymbols} parity bytes per 255` : ''}`
+      : inspection.container === 'pixels' ? 'None found' : 'Not used'],
+    ['Capacity', inspection.usedBytes !== undefined
+      ? `${formatBytes(inspection.usedBytes)} used of ${formatBytes(inspection.capacityBytes)}`
+      : `${formatBytes(inspection.capacityBytes)}`],
+    ['Header format', header
+      ? (header.version ?? 1) >= 2 ? `Binary, version ${header.version}` : 'JSON (version 1)'
+      : 'Unknown'],
+    ['Payload', header && inspection.availablePayloadBytes !== undefined
+      ? <span className={header.payloadLength > inspection.availablePayloadBytes ? 'text-red-400' : undefined}>{header.payloadLength} bytes claimed, {inspection.availablePayloadBytes} available</span>
+      : 'Unknown'],
+    ['Transparent pixels', inspection.transparentPixels],
+    ['Decodes', inspection.decodes
+      ? <span className="text-emerald-400">Yes{inspection.correctedErrors ? `, repairing ${inspection.correctedErrors} bytes` : ''}</span>
+      : <span className="text-red-400">{inspection.error?.message}</span>],
+  ];
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-800">
+      <p className="text-sm font-semibold text-gray-200 truncate" title={inspection.name}>{inspection.name}</p>
+      <ul className="mt-2 space-y-1 list-disc list-inside text-xs text-gray-300">
+        {inspection.findings.map((finding, i) => <li key={i}>{finding}</li>)}
+      </ul>
+      <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {facts.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-300 break-words">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      <p className="text-xs text-gray-500 mt-3 mb-1">Header</p>
+      <pre className="max-h-48 overflow-auto rounded-md bg-black/60 border border-gray-800 p-2 text-[11px] text-gray-300 whitespace-pre-wrap break-all">
+        {header ? JSON.stringify(header, null, 2) : headerText ?? 'No header found.'}
+      </pre>
+      {lsbImageUrl && (
+        <>
+          <p className="text-xs text-gray-500 mt-3 mb-1">
+            Low {bitsPerChannel} bit{bitsPerChannel === 1 ? '' : 's'} of each channel, amplified. Embedded data looks like noise; edits break it up.
+          </p>
+          <img src={lsbImageUrl} alt={`Low bits of ${inspection.name}`} className="w-full rounded-md border border-gray-800 [image-rendering:pixelated]" />
+        </>
+      )}
+    </div>
+  );
+};
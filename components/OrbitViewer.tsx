@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from 'react';
+import type { AudioFeatures } from '../types';
+import { CIRCULAR_TIMELINE, progressAt, type Timeline } from '../services/renderers';
+
+interface OrbitViewerProps {
+  image: string;
+  audioSrc: string;
+  title: string;
+  onsets?: AudioFeatures['onsets']; // Flare up as they play; none until the audio is analysed
+  duration?: number; // The analysed duration the artwork was drawn with; the audio element's otherwise
+  timeline?: Timeline;
+}
+
+const FLARE_SECONDS = 0.35; // How long an onset stays highlighted after it plays
+const NO_ONSETS: AudioFeatures['onsets'] = [];
+
+/** Where a moment sits on the timeline: its angle and the radii a mark there spans, as fractions of the width. */
+const locate = (timeline: Timeline, progress: number) => {
+  const angle = progress * timeline.turns * Math.PI * 2;
+  if (!timeline.radius) return { angle, from: 0.08, to: 0.48 };
+  const [inner, outer] = timeline.radius;
+  const radius = inner + (outer - inner) * progress;
+  return { angle, from: radius - 0.025, to: radius + 0.045 };
+};
+
+const drawMark = (ctx: CanvasRenderingContext2D, timeline: Timeline, progress: number, style: string, lineWidth: number) => {
+  const { width } = ctx.canvas;
+  const center = width / 2;
+  const { angle, from, to } = locate(timeline, progress);
+  ctx.beginPath();
+  ctx.moveTo(center + from * width * Math.cos(angle), center + from * width * Math.sin(angle));
+  ctx.lineTo(center + to * width * Math.cos(angle), center + to * width * Math.sin(angle));
+  ctx.strokeStyle = style;
+  ctx.lineWidth = lineWidth * width;
+  ctx.lineCap = 'round';
+  ctx.stroke();
+};
+
+/**
+ * Shows an orbit with its audio. A playhead sweeps the artwork in step with
+ * playback, onsets flare as they pass, and clicking the artwork seeks there.
+ */
+export const OrbitViewer: React.FC<OrbitViewerProps> = ({ image, audioSrc, title, onsets = NO_ONSETS, duration, timeline = CIRCULAR_TIMELINE }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const totalDuration = () => {
+    const audio = audioRef.current;
+    return duration ?? (audio && Number.isFinite(audio.duration) ? audio.duration : 0);
+  };
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!audio || !canvas || !ctx) return;
+    let frame = 0;
+
+    const draw = () => {
+      // Match the canvas to its displayed size so the playhead stays crisp
+      const size = Math.round(canvas.clientWidth * window.devicePixelRatio);
+      if (canvas.width !== size) canvas.width = canvas.height = size;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const total = totalDuration();
+      if (total > 0) {
+        const time = audio.currentTime;
+        for (const onset of onsets) {
+          const age = time - onset.time;
+          if (age < 0 || age > FLARE_SECONDS) continue;
+          drawMark(ctx, timeline, onset.time / total, `rgba(255, 255, 255, ${0.9 * (1 - age / FLARE_SECONDS)})`, 0.008);
+        }
+        drawMark(ctx, timeline, Math.min(1, time / total), 'rgba(255, 255, 255, 0.85)', 0.003);
+      }
+      if (!audio.paused) frame = requestAnimationFrame(draw);
+    };
+    const redraw = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(draw);
+    };
+
+    const events = ['play', 'pause', 'seeked', 'loadedmetadata', 'ended'];
+    events.forEach(event => audio.addEventListener(event, redraw));
+    redraw();
+    return () => {
+      cancelAnimationFrame(frame);
+      events.forEach(event => audio.removeEventListener(event, redraw));
+    };
+  }, [onsets, duration, timeline]);
+
+  const handleSeek = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const audio = audioRef.current;
+    const total = totalDuration();
+    if (!audio || total <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width - 0.5;
+    const y = (e.clientY - rect.top) / rect.height - 0.5;
+    audio.currentTime = progressAt(timeline, x, y) * total;
+  };
+
+  return (
+    <div className="w-full bg-gray-900/80 rounded-lg p-4 border border-gray-800">
+      <p className="text-sm font-semibold text-gray-300 mb-3">{title}</p>
+      <div className="relative">
+        <img src={image} alt={title} className="rounded-lg w-full" />
+        <canvas
+          ref={canvasRef}
+          onClick={handleSeek}
+          title="Click to jump to this point"
+          className="absolute inset-0 w-full h-full cursor-pointer"
+        />
+      </div>
+      <audio ref={audioRef} controls src={audioSrc} className="w-full mt-3">
+        Your browser does not support the audio element.
+      </audio>
+    </div>
+  );
+};
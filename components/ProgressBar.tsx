@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface ProgressBarProps {
+  percent: number;
+  onCancel: () => void;
+}
+
+export const ProgressBar: React.FC<ProgressBarProps> = ({ percent, onCancel }) => (
+  <div className="mt-3 flex items-center gap-3">
+    <div
+      className="flex-grow h-1.5 bg-gray-800 rounded-full overflow-hidden"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+    >
+      <div className="h-full bg-gray-300 transition-[width] duration-300" style={{ width: `${percent}%` }} />
+    </div>
+    <span className="text-xs text-gray-500 tabular-nums w-9 text-right">{percent}%</span>
+    <button onClick={onCancel} className="text-xs text-gray-400 hover:text-gray-200 underline">Cancel</button>
+  </div>
+);
@@ -0,0 +1,101 @@
+import type { AnimationOptions, AudioFeatures } from '../types';
+import { createApngWriter } from './apng';
+import { CANVAS_SIZE, type RgbaImage } from './orbitCore';
+import type { ProgressReporter } from './progress';
+import { createArtworkReveal, drawArtwork, type OrbitDrawingContext } from './renderers';
+
+// Animated reveals: the artwork builds up slice by slice in step with the audio,
+// each frame adding what the next 1/fps seconds drew. The artwork is always
+// drawn at the still's full size and scaled down, so every line sits where it
+// does in the still and the last frame is the still itself.
+
+export const DEFAULT_ANIMATION_FPS = 24;
+export const MAX_ANIMATION_FPS = 60;
+export const DEFAULT_ANIMATION_SIZE = 512;
+export const MIN_ANIMATION_SIZE = 64;
+
+const HOLD_LAST_FRAME_MS = 2000; // How long the finished artwork shows before the loop starts over
+
+/** A full-size drawing surface and a way to read it back at the animation's size. */
+export interface RevealSurface {
+    ctx: OrbitDrawingContext;
+    snapshot: (size: number) => RgbaImage | Promise<RgbaImage>;
+}
+
+/**
+ * Fills in the defaults and checks the frame rate and size.
+ */
+export const resolveAnimationOptions = ({ fps = DEFAULT_ANIMATION_FPS, size = DEFAULT_ANIMATION_SIZE }: AnimationOptions = {}) => {
+    if (!Number.isInteger(fps) || fps < 1 || fps > MAX_ANIMATION_FPS) {
+        throw new Error(`The frame rate must be a whole number from 1 to ${MAX_ANIMATION_FPS}, got ${fps}.`);
+    }
+    if (!Number.isInteger(size) || size < MIN_ANIMATION_SIZE || size > CANVAS_SIZE) {
+        throw new Error(`The animation size must be a whole number of pixels from ${MIN_ANIMATION_SIZE} to ${CANVAS_SIZE}, got ${size}.`);
+    }
+    return { fps, size };
+};
+
+/** One frame per 1/fps seconds of audio, and at least one. */
+export const animationFrameCount = (duration: number, fps: number) => Math.max(1, Math.ceil(duration * fps));
+
+/**
+ * Scales an image by averaging the source pixels each output pixel covers, or
+ * repeating them when it grows. Returns a copy at the same size.
+ */
+export const scaleImage = (image: RgbaImage, width: number, height = width): RgbaImage => {
+    if (width === image.width && height === image.height) return { ...image, data: image.data.slice() };
+    const data = new Uint8ClampedArray(width * height * 4);
+    const scaleX = image.width / width;
+    const scaleY = image.height / height;
+    for (let y = 0; y < height; y++) {
+        const [top, bottom] = [Math.floor(y * scaleY), Math.max(Math.floor(y * scaleY) + 1, Math.floor((y + 1) * scaleY))];
+        for (let x = 0; x < width; x++) {
+            const [left, right] = [Math.floor(x * scaleX), Math.max(Math.floor(x * scaleX) + 1, Math.floor((x + 1) * scaleX))];
+            const sum = [0, 0, 0, 0];
+            for (let sy = top; sy < bottom; sy++) {
+                for (let sx = left; sx < right; sx++) {
+                    for (let c = 0; c < 4; c++) sum[c] += image.data[(sy * image.width + sx) * 4 + c];
+                }
+            }
+            const count = (bottom - top) * (right - left);
+            for (let c = 0; c < 4; c++) data[(y * width + x) * 4 + c] = sum[c] / count;
+        }
+    }
+    return { data, width, height };
+};
+
+/**
+ * Renders the reveal of an orbit as a looping APNG. `createSurface` is called
+ * twice: once for the still and once for the frames building up to it.
+ */
+export const renderRevealApng = async (
+    features: AudioFeatures,
+    options: AnimationOptions,
+    createSurface: () => RevealSurface,
+    report: ProgressReporter,
+): Promise<Uint8Array> => {
+    const { fps, size } = resolveAnimationOptions(options);
+
+    report('animating', 0, 'Drawing the finished artwork...');
+    const still = createSurface();
+    drawArtwork(still.ctx, features, options.style, options.variantSeed);
+    const stillImage = await still.snapshot(size);
+
+    const frames = createSurface();
+    const reveal = createArtworkReveal(frames.ctx, features, options.style, options.variantSeed);
+    const frameCount = animationFrameCount(features.duration, fps);
+    const writer = createApngWriter(size, size);
+    for (let i = 0; i < frameCount; i++) {
+        report('animating', i / frameCount, `Rendering frame ${i + 1} of ${frameCount}...`);
+        if (i < frameCount - 1) {
+            reveal((i + 1) / frameCount);
+            await writer.addFrame(await frames.snapshot(size), { numerator: 1, denominator: fps });
+        } else {
+            // Drawn in slices the artwork can differ from the still by rounding, so end on the still
+            await writer.addFrame(stillImage, { numerator: HOLD_LAST_FRAME_MS, denominator: 1000 });
+        }
+    }
+
+    report('finalizing', 0, 'Writing animation...');
+    return writer.finish(stillImage);
+};
@@ -0,0 +1,112 @@
+import { deflateBytes } from './compression';
+import type { RgbaImage } from './orbitCore';
+import { createImageHeader, toScanlines, writePngChunks, type PngChunk } from './png';
+
+// Animated PNG, as browsers play it: an acTL chunk announcing the frames, then
+// an fcTL chunk before each frame's image data. The default image in IDAT is
+// what viewers without APNG support show; here it is the finished artwork and
+// not one of the frames.
+
+const DISPOSE_NONE = 0; // Leave the frame in place for the next one to draw over
+const BLEND_SOURCE = 0; // Replace the pixels under the frame instead of compositing
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Frame timing as the fraction numerator / denominator seconds, both 16-bit. */
+export interface FrameDelay {
+    numerator: number;
+    denominator: number;
+}
+
+export interface ApngWriter {
+    /** Adds the next frame, shown for the given delay. Only what changed since the previous frame is stored. */
+    addFrame: (image: RgbaImage, delay: FrameDelay) => Promise<void>;
+    /** Writes the file, with the given image as the one shown where APNG is not supported. */
+    finish: (still: RgbaImage) => Promise<Uint8Array>;
+}
+
+/**
+ * Finds the smallest rectangle holding every pixel that differs between two
+ * frames of the same size, or null when they are identical.
+ */
+const changedRect = (previous: Uint8ClampedArray, next: Uint8ClampedArray, width: number, height: number): Rect | null => {
+    let [left, top, right, bottom] = [width, height, -1, -1];
+    const pixels = new Uint32Array(previous.buffer, previous.byteOffset, width * height);
+    const nextPixels = new Uint32Array(next.buffer, next.byteOffset, width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (pixels[y * width + x] === nextPixels[y * width + x]) continue;
+            left = Math.min(left, x);
+            right = Math.max(right, x);
+            top = Math.min(top, y);
+            bottom = y;
+        }
+    }
+    return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+const frameControl = (sequence: number, rect: Rect, delay: FrameDelay): Uint8Array => {
+    const data = new Uint8Array(26);
+    const view = new DataView(data.buffer);
+    view.setUint32(0, sequence, false);
+    view.setUint32(4, rect.width, false);
+    view.setUint32(8, rect.height, false);
+    view.setUint32(12, rect.x, false);
+    view.setUint32(16, rect.y, false);
+    view.setUint16(20, delay.numerator, false);
+    view.setUint16(22, delay.denominator, false);
+    data[24] = DISPOSE_NONE;
+    data[25] = BLEND_SOURCE;
+    return data;
+};
+
+/**
+ * Starts an endlessly looping APNG of the given size. Frames are compressed as
+ * they are added, so only the previous frame is kept uncompressed.
+ */
+export const createApngWriter = (width: number, height: number): ApngWriter => {
+    const frameChunks: PngChunk[] = [];
+    let previous: Uint8ClampedArray | null = null;
+    let sequence = 0;
+    let frameCount = 0;
+
+    const addFrame = async (image: RgbaImage, delay: FrameDelay) => {
+        if (image.width !== width || image.height !== height) {
+            throw new Error(`Animation frames must be ${width}x${height}, got ${image.width}x${image.height}.`);
+        }
+        // The first frame must cover the whole image; a frame that changes nothing still needs one pixel
+        const rect = previous
+            ? changedRect(previous, image.data, width, height) ?? { x: 0, y: 0, width: 1, height: 1 }
+            : { x: 0, y: 0, width, height };
+        const compressed = await deflateBytes(toScanlines(image, rect));
+
+        const frameData = new Uint8Array(4 + compressed.length);
+        new DataView(frameData.buffer).setUint32(0, sequence + 1, false);
+        frameData.set(compressed, 4);
+        frameChunks.push({ type: 'fcTL', data: frameControl(sequence, rect, delay) }, { type: 'fdAT', data: frameData });
+        sequence += 2;
+        frameCount++;
+        previous = image.data.slice(); // Canvases may hand out the same array for every frame
+    };
+
+    const finish = async (still: RgbaImage) => {
+        if (frameCount === 0) throw new Error('An animation needs at least one frame.');
+        const animationControl = new Uint8Array(8);
+        new DataView(animationControl.buffer).setUint32(0, frameCount, false);
+        // The play count stays 0: loop forever
+        return writePngChunks([
+            { type: 'IHDR', data: createImageHeader(width, height) },
+            { type: 'acTL', data: animationControl },
+            { type: 'IDAT', data: await deflateBytes(toScanlines(still)) },
+            ...frameChunks,
+            { type: 'IEND', data: new Uint8Array(0) },
+        ]);
+    };
+
+    return { addFrame, finish };
+};
@@ -0,0 +1,113 @@
+import type { OrbitAttachment } from '../types';
+
+// The payload of an orbit with attachments: the audio and every attached file
+// packed into one archive, which is then compressed and encrypted as a whole.
+// A table of entries comes first, so the names are known before any data:
+//
+//   magic 'ORBA' (4) | version (1) | entry count u16 |
+//   per entry: name length u16, name, MIME type length u8, MIME type, size u32 |
+//   every entry's data, in table order
+//
+// All integers are big-endian. The first entry is the audio.
+
+const ARCHIVE_MAGIC = new TextEncoder().encode('ORBA');
+const ARCHIVE_VERSION = 1;
+const ARCHIVE_HEADER_LENGTH = ARCHIVE_MAGIC.length + 1 + 2;
+const MAX_ENTRIES = 0xFFFF;
+export const ATTACHMENT_MIME_TYPE = 'application/octet-stream'; // For attachments of unknown type
+
+const encoder = new TextEncoder();
+
+/** Bytes the table spends on one entry: its name, MIME type and size. */
+const entryOverhead = (name: string, mimeType: string): number =>
+    2 + encoder.encode(name).length + 1 + encoder.encode(mimeType).length + 4;
+
+/** The size of the archive `packArchive` makes of entries of these names, types and sizes. */
+export const archiveLength = (entries: { name: string; mimeType: string; size: number }[]): number =>
+    entries.reduce((sum, { name, mimeType, size }) => sum + entryOverhead(name, mimeType) + size, ARCHIVE_HEADER_LENGTH);
+
+const sizesOf = (entries: OrbitAttachment[]) => entries.map(({ name, mimeType, data }) => ({ name, mimeType, size: data.length }));
+
+/**
+ * Packs entries into one archive, in order. Names must be unique and MIME
+ * types at most 255 bytes long.
+ */
+export const packArchive = (entries: OrbitAttachment[]): Uint8Array => {
+    if (entries.length > MAX_ENTRIES) throw new Error(`An orbit holds at most ${MAX_ENTRIES} files.`);
+    const names = new Set<string>();
+    for (const { name, mimeType } of entries) {
+        if (!name) throw new Error('Every attached file needs a name.');
+        if (names.has(name.toLowerCase())) throw new Error(`Two attached files are named ${name}.`);
+        if (encoder.encode(name).length > 0xFFFF || encoder.encode(mimeType).length > 0xFF) {
+            throw new Error(`The name or type of ${name} is too long.`);
+        }
+        names.add(name.toLowerCase());
+    }
+
+    const bytes = new Uint8Array(archiveLength(sizesOf(entries)));
+    const view = new DataView(bytes.buffer);
+    bytes.set(ARCHIVE_MAGIC, 0);
+    bytes[ARCHIVE_MAGIC.length] = ARCHIVE_VERSION;
+    view.setUint16(ARCHIVE_MAGIC.length + 1, entries.length, false);
+
+    let offset = ARCHIVE_HEADER_LENGTH;
+    for (const { name, mimeType, data } of entries) {
+        const nameBytes = encoder.encode(name);
+        const typeBytes = encoder.encode(mimeType);
+        view.setUint16(offset, nameBytes.length, false);
+        bytes.set(nameBytes, offset + 2);
+        offset += 2 + nameBytes.length;
+        bytes[offset] = typeBytes.length;
+        bytes.set(typeBytes, offset + 1);
+        offset += 1 + typeBytes.length;
+        view.setUint32(offset, data.length, false);
+        offset += 4;
+    }
+    for (const { data } of entries) {
+        bytes.set(data, offset);
+        offset += data.length;
+    }
+    return bytes;
+};
+
+/**
+ * Splits an archive written by `packArchive` back into its entries. Throws
+ * when the bytes are not such an archive or end before its last entry.
+ */
+export const unpackArchive = (bytes: Uint8Array): OrbitAttachment[] => {
+    if (bytes.length < ARCHIVE_HEADER_LENGTH || ARCHIVE_MAGIC.some((byte, i) => bytes[i] !== byte)) {
+        throw new Error('The payload is not an orbit archive.');
+    }
+    if (bytes[ARCHIVE_MAGIC.length] > ARCHIVE_VERSION) {
+        throw new Error(`The archive was made with a newer format version (${bytes[ARCHIVE_MAGIC.length]}).`);
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+    const count = view.getUint16(ARCHIVE_MAGIC.length + 1, false);
+    const table: { name: string; mimeType: string; size: number }[] = [];
+    let offset = ARCHIVE_HEADER_LENGTH;
+    const need = (length: number) => {
+        if (offset + length > bytes.length) throw new Error('The archive ends in the middle of its table.');
+    };
+    for (let i = 0; i < count; i++) {
+        need(2);
+        const nameLength = view.getUint16(offset, false);
+        need(2 + nameLength + 1);
+        const name = decoder.decode(bytes.subarray(offset + 2, offset + 2 + nameLength));
+        offset += 2 + nameLength;
+        const typeLength = bytes[offset];
+        need(1 + typeLength + 4);
+        const mimeType = decoder.decode(bytes.subarray(offset + 1, offset + 1 + typeLength));
+        offset += 1 + typeLength;
+        table.push({ name, mimeType, size: view.getUint32(offset, false) });
+        offset += 4;
+    }
+
+    return table.map(({ name, mimeType, size }) => {
+        if (offset + size > bytes.length) throw new Error(`The archive ends in the middle of ${name}.`);
+        const data = bytes.slice(offset, offset + size);
+        offset += size;
+        return { name, mimeType, data };
+    });
+};
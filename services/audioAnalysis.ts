@@ -0,0 +1,215 @@
+import type { AnalysisOptions, AudioFeatures, StereoFeatures } from '../types';
+import { fft } from './fft';
+
+// Computes the artwork's features straight from the samples, so the same audio
+// gives the same frames in every browser and on the command line.
+
+/** The hop defaults to the window: one spectrum per 1024 samples is the density the artwork is tuned for. */
+export const DEFAULT_WINDOW_SIZE = 1024;
+export const DEFAULT_MEL_BAND_COUNT = 40;
+
+// Byte scaling of the spectra, the same range AnalyserNode uses by default
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+// Onset picking: a frame is an onset when its flux peaks within the surrounding
+// window and clears that window's mean by the given ratio
+const ONSET_WINDOW_SECONDS = 0.1; // On each side of the frame
+const ONSET_THRESHOLD_RATIO = 1.5;
+const ONSET_MIN_FLUX = 1; // Mean rise per bin, in byte levels; keeps noise in near-silence out
+const ONSET_MIN_GAP_SECONDS = 0.05;
+
+const PROGRESS_FRAME_MASK = 0xFF;
+
+const SURROUND_GAIN = Math.SQRT1_2; // Centre and surrounds fold into left and right at -3 dB, as ITU-R BS.775 downmixes them
+
+const toByte = (decibels: number) =>
+    Math.max(0, Math.min(255, Math.floor(255 / (MAX_DECIBELS - MIN_DECIBELS) * (decibels - MIN_DECIBELS))));
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/** The periodic Hann window, whose overlapped copies sum to a constant at half-window hops. */
+const createHannWindow = (size: number) =>
+    Float64Array.from({ length: size }, (_, n) => 0.5 - 0.5 * Math.cos(2 * Math.PI * n / size));
+
+/**
+ * Builds triangular filters spaced evenly on the mel scale from 0 Hz to Nyquist.
+ * Each filter is its first FFT bin and the weights from there on.
+ */
+const createMelFilterbank = (bandCount: number, windowSize: number, sampleRate: number) => {
+    const binCount = windowSize / 2;
+    const maxMel = hzToMel(sampleRate / 2);
+    // Band b rises from edge b to edge b + 1 and falls back to zero at edge b + 2
+    const edges = Array.from({ length: bandCount + 2 }, (_, i) => melToHz(maxMel * i / (bandCount + 1)) * windowSize / sampleRate);
+
+    return Array.from({ length: bandCount }, (_, band) => {
+        const [low, center, high] = [edges[band], edges[band + 1], edges[band + 2]];
+        const first = Math.ceil(low);
+        const last = Math.min(binCount - 1, Math.floor(high));
+        const weights = new Float64Array(Math.max(0, last - first + 1));
+        for (let k = first; k <= last; k++) {
+            weights[k - first] = k <= center ? (k - low) / (center - low) : (high - k) / (high - center);
+        }
+        return { first, weights };
+    });
+};
+
+/**
+ * Folds a recording down to left and right for the stereo features, or returns
+ * null for mono. Quad and 5.1 recordings, in the Web Audio channel order, add
+ * their centre and surrounds to the side they are on and drop the LFE; other
+ * layouts keep their first two channels, which are left and right in all of them.
+ */
+const foldToStereo = (channelData: Float32Array[]): [Float32Array, Float32Array] | null => {
+    if (channelData.length < 2) return null;
+    if (channelData.length !== 4 && channelData.length !== 6) return [channelData[0], channelData[1]];
+    const [surroundLeft, surroundRight] = channelData.slice(-2);
+    const centre = channelData.length === 6 ? channelData[2] : null;
+    const fold = (front: Float32Array, surround: Float32Array) =>
+        front.map((sample, i) => sample + SURROUND_GAIN * (surround[i] + (centre ? centre[i] : 0)));
+    return [fold(channelData[0], surroundLeft), fold(channelData[1], surroundRight)];
+};
+
+/** The byte-scaled magnitude spectrum of the window starting at `start`, zero-padded past the end of the signal. */
+const byteSpectrum = (signal: Float32Array, start: number, window: Float64Array, re: Float64Array, im: Float64Array): Uint8Array => {
+    const windowSize = window.length;
+    for (let n = 0; n < windowSize; n++) {
+        re[n] = (start + n < signal.length ? signal[start + n] : 0) * window[n];
+        im[n] = 0;
+    }
+    fft(re, im);
+    const frame = new Uint8Array(windowSize / 2);
+    for (let k = 0; k < frame.length; k++) frame[k] = toByte(20 * Math.log10(Math.hypot(re[k], im[k]) / windowSize));
+    return frame;
+};
+
+/**
+ * Picks onsets from the spectral flux: local peaks above an adaptive threshold,
+ * so quiet and loud recordings are judged against themselves.
+ */
+const pickOnsets = (flux: Float64Array, frameSeconds: number): AudioFeatures['onsets'] => {
+    const radius = Math.max(1, Math.round(ONSET_WINDOW_SECONDS / frameSeconds));
+    const minGap = Math.max(1, Math.round(ONSET_MIN_GAP_SECONDS / frameSeconds));
+    const onsets: AudioFeatures['onsets'] = [];
+    let lastOnset = -Infinity;
+
+    for (let t = 0; t < flux.length; t++) {
+        const from = Math.max(0, t - radius);
+        const to = Math.min(flux.length - 1, t + radius);
+        let sum = 0;
+        let isPeak = true;
+        for (let i = from; i <= to; i++) {
+            sum += flux[i];
+            if (flux[i] > flux[t]) isPeak = false;
+        }
+        const threshold = ONSET_THRESHOLD_RATIO * sum / (to - from + 1) + ONSET_MIN_FLUX;
+        if (isPeak && flux[t] > threshold && t - lastOnset >= minGap) {
+            onsets.push({ time: t * frameSeconds, energy: flux[t] });
+            lastOnset = t;
+        }
+    }
+    return onsets;
+};
+
+/**
+ * Extracts the visualization features from decoded samples: a byte-scaled STFT
+ * of the mono mix, its mel bands and spectral-flux onsets, and for stereo and
+ * surround recordings each side's STFT with the width and correlation between
+ * them. There are always `ceil(length / hopSize)` frames, the last one
+ * zero-padded.
+ */
+export const extractFeatures = (
+    channelData: Float32Array[],
+    sampleRate: number,
+    options: AnalysisOptions = {},
+    onProgress?: (fraction: number) => void,
+): AudioFeatures => {
+    const windowSize = options.windowSize ?? DEFAULT_WINDOW_SIZE;
+    const hopSize = options.hopSize ?? windowSize;
+    const melBandCount = options.melBandCount ?? DEFAULT_MEL_BAND_COUNT;
+    if (!Number.isInteger(windowSize) || windowSize < 16 || windowSize & (windowSize - 1)) {
+        throw new Error(`The analysis window must be a power of two of at least 16 samples, got ${windowSize}.`);
+    }
+    if (!Number.isInteger(hopSize) || hopSize < 1) throw new Error(`The analysis hop must be a positive whole number of samples, got ${hopSize}.`);
+    if (!Number.isInteger(melBandCount) || melBandCount < 1) throw new Error(`The number of mel bands must be a positive whole number, got ${melBandCount}.`);
+
+    const length = channelData[0]?.length ?? 0;
+    const duration = length / sampleRate;
+
+    const mono = new Float32Array(length);
+    for (const channel of channelData) {
+        for (let i = 0; i < length; i++) mono[i] += channel[i] / channelData.length;
+    }
+
+    const binCount = windowSize / 2;
+    const window = createHannWindow(windowSize);
+    const melFilters = createMelFilterbank(melBandCount, windowSize, sampleRate);
+    const frameCount = Math.ceil(length / hopSize);
+    const re = new Float64Array(windowSize);
+    const im = new Float64Array(windowSize);
+    const power = new Float64Array(binCount);
+    const spectrogram: Uint8Array[] = [];
+    const melBands: Uint8Array[] = [];
+    const flux = new Float64Array(frameCount);
+    const waveform = new Float32Array(frameCount);
+    let previous = new Uint8Array(binCount);
+    const sides = foldToStereo(channelData);
+    const stereo: StereoFeatures | undefined = sides
+        ? { left: [], right: [], width: new Float32Array(frameCount), correlation: new Float32Array(frameCount) }
+        : undefined;
+
+    for (let t = 0; t < frameCount; t++) {
+        if ((t & PROGRESS_FRAME_MASK) === 0) onProgress?.(t / frameCount);
+        const start = t * hopSize;
+        let peak = 0;
+        for (let i = start; i < Math.min(start + hopSize, length); i++) peak = Math.max(peak, Math.abs(mono[i]));
+        waveform[t] = Math.min(1, peak);
+
+        for (let n = 0; n < windowSize; n++) {
+            re[n] = (start + n < length ? mono[start + n] : 0) * window[n];
+            im[n] = 0;
+        }
+        fft(re, im);
+
+        const frame = new Uint8Array(binCount);
+        let rise = 0;
+        for (let k = 0; k < binCount; k++) {
+            const magnitude = Math.hypot(re[k], im[k]) / windowSize;
+            power[k] = magnitude * magnitude;
+            frame[k] = toByte(20 * Math.log10(magnitude));
+            // Rises are measured in decibels, so the flux does not grow with the recording's level
+            rise += Math.max(0, frame[k] - previous[k]);
+        }
+        spectrogram.push(frame);
+        flux[t] = rise / binCount;
+        previous = frame;
+
+        const bands = new Uint8Array(melBandCount);
+        melFilters.forEach(({ first, weights }, band) => {
+            let sum = 0;
+            for (let i = 0; i < weights.length; i++) sum += weights[i] * power[first + i];
+            bands[band] = toByte(10 * Math.log10(sum));
+        });
+        melBands.push(bands);
+
+        if (stereo && sides) {
+            const [left, right] = sides;
+            stereo.left.push(byteSpectrum(left, start, window, re, im));
+            stereo.right.push(byteSpectrum(right, start, window, re, im));
+            let [ll, rr, lr] = [0, 0, 0];
+            for (let i = start; i < Math.min(start + hopSize, length); i++) {
+                ll += left[i] * left[i];
+                rr += right[i] * right[i];
+                lr += left[i] * right[i];
+            }
+            // The side signal (L - R) / 2 against the mid (L + R) / 2, which add up to (LL + RR) / 2
+            stereo.width[t] = ll + rr > 0 ? (ll + rr - 2 * lr) / (2 * (ll + rr)) : 0;
+            // Silence counts as mono; one silent side, as a hard pan, as unrelated
+            stereo.correlation[t] = ll > 0 && rr > 0 ? lr / Math.sqrt(ll * rr) : ll + rr > 0 ? 0 : 1;
+        }
+    }
+    onProgress?.(1);
+
+    return { duration, channelData, sampleRate, hopSize, spectrogram, melBands, waveform, onsets: pickOnsets(flux, hopSize / sampleRate), ...(stereo && { stereo }) };
+};
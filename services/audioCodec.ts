@@ -1,348 +1,296 @@
-import type { AudioFeatures, StegoHeader } from '../types';
+import type { AnalysisOptions, AnimationOptions, AudioFeatures, CodecProgress, DecodeOptions, DecodeResult, EncodeOptions, EncodeResult, OrbitAttachment } from '../types';
+import { ATTACHMENT_MIME_TYPE } from './archive';
+import type { AudioMeasurement } from './capacityPlanner';
+import { OrbitCodecError } from './codecErrors';
+import { compressPayload } from './compression';
+import type { WorkerRequest, WorkerResponse } from './codecWorker';
+import type { OrbitInspection } from './inspector';
+import type { PartIdentity } from './orbitCore';
+import { createProgressReporter } from './progress';
+import { encodeWav } from './wav';
+import { AUDIO_MIME_TYPES, stemOf } from '../utils/fileNames';
+
+// Browser front end of the codec. Decoding audio needs the Web Audio API and
+// stays on the main thread; analysing, drawing, embedding and extracting run
+// in codecWorker. The format itself lives in orbitCore.
 
-const MAGIC_NUMBER = 'AUDORB'; // Audio Orbit
-const BITS_PER_CHANNEL = 2; // Using 2 bits per color channel (R,G,B) = 6 bits per pixel
-const CANVAS_SIZE = 1024; // Fixed canvas size for consistency
+// --- ENCODING ---
 
 /**
- * A simple pseudo-random number generator for deterministic results based on a seed.
+ * Encodes an audio file into one or more orbit PNGs. Files larger than a single
+ * image's capacity are split into a numbered set that shares the same artwork.
+ * In the chunk container the artwork is left untouched and the whole file rides
+ * in one PNG chunk instead; in the robust container a short clip is woven into
+ * the brightness of the artwork. The file's name goes into the header unless
+ * `fileName` says otherwise; an empty name leaves it out.
  */
-function mulberry32(a: number) {
-    return function() {
-      a |= 0; a = a + 0x6D2B79F5 | 0;
-      let t = Math.imul(a ^ a >>> 15, 1 | a);
-      t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
-      return ((t ^ t >>> 14) >>> 0) / 4294967296;
-    }
-}
+export const audioToImage = async (
+    audioFile: File,
+    onProgress: (progress: CodecProgress) => void,
+    options: EncodeOptions = {},
+): Promise<EncodeResult> => {
+    const { signal, ...workerOptions } = options;
+    const report = createProgressReporter(onProgress, signal);
+    report('analysing', 0, 'Decoding audio...');
+    const { arrayBuffer, channelData, sampleRate } = await decodeAudioFile(audioFile);
+    signal?.throwIfAborted();
+
+    // Files read from a dropped folder can come without a type
+    const mimeType = audioFile.type || AUDIO_MIME_TYPES[audioFile.name.slice(stemOf(audioFile.name).length).toLowerCase()] || '';
+    const { result } = await runInWorker(
+        {
+            type: 'encode',
+            audio: arrayBuffer,
+            mimeType,
+            channelData,
+            sampleRate,
+            options: { fileName: audioFile.name, ...workerOptions },
+        },
+        'encoded',
+        onProgress,
+        signal,
+        [arrayBuffer, ...channelData.map(channel => channel.buffer)],
+    );
+    return result;
+};
+
+/** Reads files the user attached, for `EncodeOptions.attachments`. */
+export const readAttachments = (files: File[]): Promise<OrbitAttachment[]> => Promise.all(files.map(async file => ({
+    name: file.name,
+    mimeType: file.type || ATTACHMENT_MIME_TYPE,
+    data: new Uint8Array(await file.arrayBuffer()),
+})));
 
 /**
- * Generates a unique, deterministic triadic color palette based on audio features.
+ * Computes the features an audio file's artwork is drawn from, for previewing
+ * styles before encoding. Encoding computes the same features again itself.
  */
-const generateColorPalette = (features: AudioFeatures): [string, string, string] => {
-    // Create a seed from audio data for deterministic colors
-    const seed = features.spectrogram.slice(0, 100).reduce((acc, frame, i) => acc + frame.reduce((a, b) => a + b, i + 1), 1);
-    const random = mulberry32(seed);
-
-    const baseHue = random() * 360;
-    
-    // Create a triadic color scheme (three colors evenly spaced on the color wheel)
-    const hue1 = baseHue;
-    const hue2 = (baseHue + 120) % 360;
-    const hue3 = (baseHue + 240) % 360;
-
-    const saturation = 75; // Vibrant but not overly saturated
-    const lightness = 60; // Bright enough to glow on a dark background
-
-    return [
-        `hsl(${hue1}, ${saturation}%, ${lightness}%)`,
-        `hsl(${hue2}, ${saturation}%, ${lightness}%)`,
-        `hsl(${hue3}, ${saturation}%, ${lightness}%)`,
-    ];
+export const analyseAudio = async (
+    audioFile: File,
+    onProgress: (progress: CodecProgress) => void,
+    options: { analysis?: AnalysisOptions; signal?: AbortSignal } = {},
+): Promise<AudioFeatures> => {
+    const { analysis, signal } = options;
+    const report = createProgressReporter(onProgress, signal);
+    report('analysing', 0, 'Decoding audio...');
+    const { channelData, sampleRate } = await decodeAudioFile(audioFile);
+    signal?.throwIfAborted();
+
+    const { features } = await runInWorker(
+        { type: 'analyse', channelData, sampleRate, analysis },
+        'analysed',
+        onProgress,
+        signal,
+        channelData.map(channel => channel.buffer),
+    );
+    return features;
 };
 
+/**
+ * Renders an animated reveal of the artwork as a looping APNG, from features
+ * `analyseAudio` returned. Style and variant seed should be the still's.
+ */
+export const exportRevealApng = async (
+    features: AudioFeatures,
+    onProgress: (progress: CodecProgress) => void,
+    options: AnimationOptions = {},
+): Promise<Blob> => {
+    const { signal, ...workerOptions } = options;
+    signal?.throwIfAborted();
+    const { png } = await runInWorker(
+        { type: 'animate', features: { ...features, channelData: [] }, options: workerOptions },
+        'animated',
+        onProgress,
+        signal,
+    );
+    return new Blob([png], { type: 'image/apng' });
+};
 
-// --- ENCODING ---
-
-export const audioToImage = async (audioFile: File, onProgress: (message: string) => void): Promise<string> => {
+/**
+ * Decodes an audio file with the Web Audio API. The samples are copies, so they
+ * can be handed to a worker without detaching the decoded buffer's own.
+ */
+const decodeAudioFile = async (audioFile: File) => {
     const audioContext = new AudioContext();
-    const arrayBuffer = await audioFile.arrayBuffer();
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
-    
-    onProgress('Extracting audio features...');
-    const features = await extractAudioFeatures(audioBuffer);
-
-    onProgress('Generating celestial orbits...');
-    const canvas = document.createElement('canvas');
-    canvas.width = CANVAS_SIZE;
-    canvas.height = CANVAS_SIZE;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) throw new Error('Could not get canvas context');
-
-    drawOrbit(ctx, features);
-    
-    onProgress('Embedding audio data...');
-    // We embed the original file bytes to preserve headers and format
-    await embedDataInCanvas(ctx, arrayBuffer, audioFile.type);
-
-    onProgress('Finalizing image...');
-    return canvas.toDataURL('image/png');
+    try {
+        const arrayBuffer = await audioFile.arrayBuffer();
+        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
+        const channelData = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i).slice());
+        return { arrayBuffer, channelData, sampleRate: audioBuffer.sampleRate };
+    } finally {
+        await audioContext.close();
+    }
 };
 
-const extractAudioFeatures = async (buffer: AudioBuffer): Promise<AudioFeatures> => {
-    const channelData = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
-    const sampleRate = buffer.sampleRate;
-    const duration = buffer.duration;
-    
-    // Simple feature extraction for visualization
-    const offlineContext = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, sampleRate);
-    const source = offlineContext.createBufferSource();
-    source.buffer = buffer;
-    
-    const analyser = offlineContext.createAnalyser();
-    analyser.fftSize = 512;
-    const frequencyBinCount = analyser.frequencyBinCount;
-    
-    source.connect(analyser);
-
-    const spectrogram: Uint8Array[] = [];
-    const onsets: { time: number; energy: number }[] = [];
-    let lastEnergy = 0;
+// --- PLANNING ---
 
-    // Using ScriptProcessorNode to analyze frames during offline rendering.
-    const frameSize = 1024;
-    const scriptProcessor = offlineContext.createScriptProcessor(frameSize, buffer.numberOfChannels, buffer.numberOfChannels);
-
-    scriptProcessor.onaudioprocess = () => {
-        // Check if rendering is still within the duration of the audio clip
-        if (offlineContext.currentTime < duration) {
-            const freqData = new Uint8Array(frequencyBinCount);
-            analyser.getByteFrequencyData(freqData);
-            spectrogram.push(new Uint8Array(freqData));
-            
-            // Onset detection (simplified spectral flux)
-            const currentEnergy = freqData.reduce((sum, val) => sum + val * val, 0);
-            const energyIncrease = currentEnergy - lastEnergy;
-            if (energyIncrease > 1e6) { // Heuristic threshold
-                onsets.push({ time: offlineContext.currentTime, energy: currentEnergy });
-            }
-            lastEnergy = currentEnergy;
-        }
+/**
+ * Measures an audio file for the capacity planner: how small compression makes
+ * it and what it holds, so trimmed or transcoded sizes can be worked out.
+ */
+export const measureAudio = async (audioFile: File): Promise<Omit<AudioMeasurement, 'encrypted' | 'attachedBytes'>> => {
+    const { arrayBuffer, channelData, sampleRate } = await decodeAudioFile(audioFile);
+    const { bytes } = await compressPayload(arrayBuffer);
+    return {
+        compressedSize: bytes.byteLength,
+        duration: (channelData[0]?.length ?? 0) / sampleRate,
+        sampleRate,
+        channels: channelData.length,
     };
-
-    analyser.connect(scriptProcessor);
-    scriptProcessor.connect(offlineContext.destination);
-    
-    source.start(0);
-    await offlineContext.startRendering();
-
-    return { duration, channelData, sampleRate, spectrogram, onsets };
 };
 
-const drawOrbit = (ctx: CanvasRenderingContext2D, features: AudioFeatures) => {
-    const { width, height } = ctx.canvas;
-    const centerX = width / 2;
-    const centerY = height / 2;
-
-    // Pure black background
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, width, height);
-    
-    const palette = generateColorPalette(features);
-
-    // Faint background stars
-    ctx.globalCompositeOperation = 'source-over';
-    for (let i = 0; i < 400; i++) {
-        const x = Math.random() * width;
-        const y = Math.random() * height;
-        const radius = Math.random() * 0.8;
-        const alpha = Math.random() * 0.5 + 0.1;
-        ctx.beginPath();
-        ctx.arc(x, y, radius, 0, Math.PI * 2);
-        ctx.fillStyle = `rgba(200, 220, 255, ${alpha})`;
-        ctx.fill();
-    }
-
-    // Use 'lighter' for additive light effect
-    ctx.globalCompositeOperation = 'lighter';
-    ctx.lineWidth = 1.5;
-    ctx.lineCap = 'round';
-
-    const timeSteps = features.spectrogram.length;
-    const freqBins = features.spectrogram[0]?.length || 1;
-    
-    // Draw three layers of orbital rings for depth
-    for (let layer = 0; layer < 3; layer++) {
-        const baseRadius = width * (0.12 + layer * 0.08);
-        const waviness = 15 + layer * 10;
-
-        for (let t = 0; t < timeSteps; t++) {
-            const angle = (t / timeSteps) * Math.PI * 2;
-            const freqData = features.spectrogram[t];
-            
-            for (let f = 1; f < freqBins; f += 4) { // Start at 1 to ignore DC offset
-                const energy = freqData[f] / 255;
-                if (energy < 0.2) continue;
-
-                const freqRatio = f / freqBins;
-                let color: string;
-                if (freqRatio < 0.2) {
-                    color = palette[0]; // Low frequencies
-                } else if (freqRatio < 0.5) {
-                    color = palette[1]; // Mid frequencies
-                } else {
-                    color = palette[2]; // High frequencies
-                }
-                
-                const radialLength = height * 0.08 * energy; // Narrower ring bursts
-                const wave = Math.sin(t / 15 + layer * 2 + f / 5) * waviness;
-                const startRadius = baseRadius + wave;
-                const endRadius = startRadius + radialLength;
-
-                ctx.beginPath();
-                const startX = centerX + startRadius * Math.cos(angle);
-                const startY = centerY + startRadius * Math.sin(angle);
-                const endX = centerX + endRadius * Math.cos(angle);
-                const endY = centerY + endRadius * Math.sin(angle);
-                
-                ctx.moveTo(startX, startY);
-                ctx.lineTo(endX, endY);
-                ctx.strokeStyle = color;
-                ctx.globalAlpha = energy * 0.5;
-                ctx.stroke();
-            }
-        }
-    }
-    ctx.globalAlpha = 1;
-
-    // Onset flares
-    features.onsets.forEach(onset => {
-        const angle = (onset.time / features.duration) * Math.PI * 2;
-        const intensity = Math.min(1, onset.energy / 5e7);
-        if (intensity < 0.2) return;
-        
-        const startX = centerX + (width * 0.1) * Math.cos(angle);
-        const startY = centerY + (width * 0.1) * Math.sin(angle);
-        const endX = centerX + (width * 0.45) * Math.cos(angle);
-        const endY = centerY + (width * 0.45) * Math.sin(angle);
-
-        const grad = ctx.createLinearGradient(startX, startY, endX, endY);
-        grad.addColorStop(0, `rgba(255, 255, 255, ${intensity * 0.8})`);
-        grad.addColorStop(1, `rgba(255, 255, 255, 0)`);
-
-        ctx.beginPath();
-        ctx.moveTo(startX, startY);
-        ctx.lineTo(endX, endY);
-        ctx.strokeStyle = grad;
-        ctx.lineWidth = 1 + intensity * 2.0;
-        ctx.stroke();
+/**
+ * Re-renders an audio file as 16-bit WAV, cut to its first `duration` seconds,
+ * resampled or mixed down to fewer channels, for audio too long for one image.
+ */
+export const reshapeAudio = async (
+    audioFile: File,
+    { duration, sampleRate, channels }: { duration?: number; sampleRate?: number; channels?: number },
+): Promise<File> => {
+    const decoded = await decodeAudioFile(audioFile);
+    const source = new AudioBuffer({
+        length: decoded.channelData[0]?.length ?? 1,
+        numberOfChannels: decoded.channelData.length,
+        sampleRate: decoded.sampleRate,
     });
-
-    ctx.globalCompositeOperation = 'source-over';
+    decoded.channelData.forEach((channel, i) => source.copyToChannel(channel, i));
+
+    const rate = sampleRate ?? source.sampleRate;
+    const seconds = Math.min(duration ?? source.duration, source.duration);
+    // The destination's channel count mixes the source down, and its rate resamples it
+    const context = new OfflineAudioContext(channels ?? source.numberOfChannels, Math.max(1, Math.ceil(seconds * rate)), rate);
+    const node = context.createBufferSource();
+    node.buffer = source;
+    node.connect(context.destination);
+    node.start(0, 0, seconds);
+    const rendered = await context.startRendering();
+
+    const channelData = Array.from({ length: rendered.numberOfChannels }, (_, i) => rendered.getChannelData(i));
+    const wav = encodeWav({ sampleRate: rate, channelData });
+    return new File([wav], `${stemOf(audioFile.name)}.wav`, { type: 'audio/wav' });
 };
 
+// --- DECODING ---
 
-const embedDataInCanvas = async (ctx: CanvasRenderingContext2D, payload: ArrayBuffer, mimeType: string) => {
-    const header: StegoHeader = {
-        magic: MAGIC_NUMBER,
-        mimeType: mimeType.padEnd(32, '\0'), // Pad to fixed length
-        payloadLength: payload.byteLength,
-        bitsPerChannel: BITS_PER_CHANNEL,
+/**
+ * Decodes one or more orbit PNGs back into audio. The images of a multi-part set
+ * may be given in any order; missing or foreign parts are reported by number.
+ * Each image is checked for an orbit chunk first and read from its pixels otherwise,
+ * falling back to a robust layer when the low bits hold no orbit, as in JPEG copies.
+ */
+export const imageToAudio = async (
+    imageFiles: File[],
+    onProgress: (progress: CodecProgress) => void,
+    options: DecodeOptions = {},
+): Promise<DecodeResult> => {
+    const { signal, ...workerOptions } = options;
+    signal?.throwIfAborted();
+    const { bytes, mimeType, fileName, metadata, attachments, transcoding, correctedErrors, resynthesized } = await runInWorker(
+        { type: 'decode', files: imageFiles, options: workerOptions },
+        'decoded',
+        onProgress,
+        signal,
+    );
+    const blob = new Blob([bytes], { type: mimeType });
+    return {
+        audioUrl: URL.createObjectURL(blob),
+        mimeType,
+        fileName,
+        metadata,
+        attachments: attachments.map(({ name, mimeType, data }) => ({
+            name,
+            mimeType,
+            size: data.byteLength,
+            url: URL.createObjectURL(new Blob([data], { type: mimeType })),
+        })),
+        transcoding,
+        correctedErrors,
+        resynthesized,
     };
-    
-    const headerJson = JSON.stringify(header);
-    const headerBytes = new TextEncoder().encode(headerJson);
-    const headerLengthBytes = new Uint8Array(4); // 32-bit integer for header length
-    new DataView(headerLengthBytes.buffer).setUint32(0, headerBytes.length, false); // Big-endian
-
-    const finalPayload = new Uint8Array(headerLengthBytes.length + headerBytes.length + payload.byteLength);
-    finalPayload.set(headerLengthBytes, 0);
-    finalPayload.set(headerBytes, headerLengthBytes.length);
-    finalPayload.set(new Uint8Array(payload), headerLengthBytes.length + headerBytes.length);
-
-    const { width, height } = ctx.canvas;
-    const capacity = width * height * 3 * BITS_PER_CHANNEL / 8; // in bytes
-    if (finalPayload.length > capacity) {
-        throw new Error(`Audio file is too large (${(finalPayload.length / 1024 / 1024).toFixed(2)}MB) for a ${width}x${height} image.`);
-    }
-
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
-    const bitMask = (1 << BITS_PER_CHANNEL) - 1;
-    const clearMask = 0xFF << BITS_PER_CHANNEL;
-
-    let byteIndex = 0;
-    let bitIndex = 0;
-    
-    for (let i = 0; i < data.length; i += 4) {
-        for (let j = 0; j < 3; j++) { // R, G, B channels
-            if (byteIndex >= finalPayload.length) break;
-            
-            const bitsToEmbed = (finalPayload[byteIndex] >> bitIndex) & bitMask;
-            data[i + j] = (data[i + j] & clearMask) | bitsToEmbed;
-            
-            bitIndex += BITS_PER_CHANNEL;
-            if (bitIndex >= 8) {
-                bitIndex = 0;
-                byteIndex++;
-            }
-        }
-         if (byteIndex >= finalPayload.length) break;
-    }
-
-    ctx.putImageData(imageData, 0, 0);
 };
 
-// --- DECODING ---
-
-export const imageToAudio = async (imageFile: File, onProgress: (message: string) => void): Promise<string> => {
-    const imageUrl = URL.createObjectURL(imageFile);
-    const img = new Image();
-    
-    const imageLoadPromise = new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = reject;
-        img.src = imageUrl;
-    });
-
-    await imageLoadPromise;
-    onProgress('Image loaded, getting pixel data...');
-
-    const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-     if (!ctx) throw new Error('Could not get canvas context');
-    ctx.drawImage(img, 0, 0);
-    
-    onProgress('Extracting embedded data...');
-    const extractedBytes = extractDataFromCanvas(ctx);
-
-    onProgress('Parsing header...');
-    const headerLengthView = new DataView(extractedBytes.buffer, 0, 4);
-    const headerLength = headerLengthView.getUint32(0, false);
-    
-    const headerBytes = extractedBytes.slice(4, 4 + headerLength);
-    const headerJson = new TextDecoder().decode(headerBytes);
-    const header: StegoHeader = JSON.parse(headerJson);
-
-    if (header.magic !== MAGIC_NUMBER) {
-        throw new Error('Not a valid Audio Orbit image. This may be a different type of encoded image.');
-    }
-    
-    const payloadOffset = 4 + headerLength;
-    const payloadBytes = extractedBytes.slice(payloadOffset, payloadOffset + header.payloadLength);
-
-    const blob = new Blob([payloadBytes], { type: header.mimeType.trim() });
-    return URL.createObjectURL(blob);
+/**
+ * Reads which set each image belongs to from its header, so a batch can keep
+ * the parts of a set together however their files were renamed. Each entry is
+ * null where no intact header could be read.
+ */
+export const identifyOrbitImages = async (
+    imageFiles: File[],
+    onProgress: (progress: CodecProgress) => void,
+    options: DecodeOptions = {},
+): Promise<(PartIdentity | null)[]> => {
+    const { signal, ...workerOptions } = options;
+    signal?.throwIfAborted();
+    const { identities } = await runInWorker(
+        { type: 'identify', files: imageFiles, options: workerOptions },
+        'identified',
+        onProgress,
+        signal,
+    );
+    return identities;
 };
 
-const extractDataFromCanvas = (ctx: CanvasRenderingContext2D): Uint8Array => {
-    const { width, height } = ctx.canvas;
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
-    const bitMask = (1 << BITS_PER_CHANNEL) - 1;
-    
-    const maxBytes = width * height * 3 * BITS_PER_CHANNEL / 8;
-    const extractedBytes = new Uint8Array(maxBytes);
-    
-    let currentByte = 0;
-    let bitCount = 0;
-    let byteIndex = 0;
+/**
+ * Inspects one image for the forensic view: what its preamble and header say,
+ * how much data it holds and why it might not decode. The amplified low bits
+ * come back as a PNG object URL, or null when the file is no image.
+ */
+export const inspectOrbitImage = async (
+    imageFile: File,
+    onProgress: (progress: CodecProgress) => void,
+    options: DecodeOptions = {},
+): Promise<{ inspection: OrbitInspection; lsbImageUrl: string | null }> => {
+    const { signal, ...workerOptions } = options;
+    signal?.throwIfAborted();
+    const { inspection, lsbPng } = await runInWorker(
+        { type: 'inspect', file: imageFile, options: workerOptions },
+        'inspected',
+        onProgress,
+        signal,
+    );
+    return { inspection, lsbImageUrl: lsbPng ? URL.createObjectURL(new Blob([lsbPng], { type: 'image/png' })) : null };
+};
 
-    for (let i = 0; i < data.length; i += 4) {
-        for (let j = 0; j < 3; j++) { // R, G, B channels
-             const bits = data[i + j] & bitMask;
-             currentByte |= (bits << bitCount);
-             bitCount += BITS_PER_CHANNEL;
+/**
+ * Runs one request in a fresh codec worker, forwarding its progress. Aborting
+ * the signal terminates the worker at once, even in the middle of a pixel loop.
+ */
+const runInWorker = <T extends 'analysed' | 'encoded' | 'decoded' | 'identified' | 'inspected' | 'animated'>(
+    request: WorkerRequest,
+    expected: T,
+    onProgress: (progress: CodecProgress) => void,
+    signal?: AbortSignal,
+    transfer: Transferable[] = [],
+): Promise<Extract<WorkerResponse, { type: T }>> => new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./codecWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+        finish();
+        reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
 
-             if (bitCount >= 8) {
-                 extractedBytes[byteIndex++] = currentByte;
-                 currentByte = 0;
-                 bitCount = 0;
-             }
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        if (response.type === 'progress') {
+            onProgress(response.progress);
+            return;
         }
-    }
-    
-    return extractedBytes;
-};
\ No newline at end of file
+        finish();
+        if (response.type === 'failed') {
+            reject(response.code ? new OrbitCodecError(response.code, response.message) : new Error(response.message));
+        } else if (response.type === expected) {
+            resolve(response as Extract<WorkerResponse, { type: T }>);
+        } else {
+            reject(new Error(`The codec worker answered ${response.type} instead of ${expected}.`));
+        }
+    };
+    worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'The codec worker stopped unexpectedly.'));
+    };
+    worker.postMessage(request, transfer);
+});
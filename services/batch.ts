@@ -0,0 +1,123 @@
+import type { BatchItem, BatchOutput, CodecProgress } from '../types';
+import type { PartIdentity } from './orbitCore';
+import { stemOf, uniqueFileName } from '../utils/fileNames';
+import { createZip } from './zip';
+
+// Batch processing for the page: a queue of encodes or decodes that runs one
+// item at a time, records each item's outcome and keeps going past failures.
+
+const PART_SUFFIX = /-part-(\d+)-of-(\d+)$/i;
+
+/** Processes one item, returning the files it produced. */
+export type BatchProcessor = (
+    item: BatchItem,
+    onProgress: (progress: CodecProgress) => void,
+    signal: AbortSignal,
+) => Promise<BatchOutput[]>;
+
+/**
+ * Queues one item per group of files, named after its first file.
+ */
+export const createBatch = (groups: File[][]): BatchItem[] => groups.map((files, id) => ({
+    id,
+    name: files.length > 1 ? `${setStem(files[0].name)} (${files.length} parts)` : files[0].name,
+    files,
+    state: 'queued',
+    outputs: [],
+}));
+
+/** An image's name without the extension and the part suffix its set adds. */
+const setStem = (name: string) => stemOf(name).replace(PART_SUFFIX, '').replace(/\.orbit$/i, '');
+
+/**
+ * Groups orbit images into sets. Parts whose headers were read, one identity
+ * per file, go by the set id and part count there, whatever the files are
+ * called; the rest go by their names, as the encoder names parts:
+ * "song-part-1-of-3.png" and "song-part-2-of-3.png" decode together. A part
+ * whose header could not be read joins the identified set its name matches,
+ * unless two sets share that name. Any other image is a set of its own.
+ * Groups keep the order of their first file.
+ */
+export const groupOrbitFiles = (files: File[], identities: (PartIdentity | null)[] = []): File[][] => {
+    const nameKey = (file: File) => {
+        const match = PART_SUFFIX.exec(stemOf(file.name));
+        return match ? `${setStem(file.name).toLowerCase()}/${match[2]}` : undefined;
+    };
+    // Name keys of identified parts, with their set's key; null where two sets claim a name
+    const aliases = new Map<string, string | null>();
+    files.forEach((file, i) => {
+        const identity = identities[i];
+        const name = nameKey(file);
+        if (!identity || identity.partCount <= 1 || !name?.endsWith(`/${identity.partCount}`)) return;
+        const key = `set:${identity.setId}/${identity.partCount}`;
+        aliases.set(name, aliases.has(name) && aliases.get(name) !== key ? null : key);
+    });
+
+    const groups = new Map<string, File[]>();
+    files.forEach((file, i) => {
+        const identity = identities[i];
+        const name = nameKey(file);
+        const key = identity
+            ? (identity.partCount > 1 ? `set:${identity.setId}/${identity.partCount}` : `#${i}`)
+            : name ? aliases.get(name) ?? name : `#${i}`;
+        groups.set(key, [...groups.get(key) ?? [], file]);
+    });
+    return [...groups.values()];
+};
+
+/**
+ * Runs the items in order, reporting every change as a new array. A failed
+ * item is marked and the queue moves on; aborting the signal marks the
+ * running and the remaining items cancelled.
+ */
+export const runBatch = async (
+    items: BatchItem[],
+    process: BatchProcessor,
+    onChange: (items: BatchItem[]) => void,
+    signal: AbortSignal,
+): Promise<BatchItem[]> => {
+    let current = items;
+    const update = (id: number, changes: Partial<BatchItem>) => {
+        current = current.map(item => item.id === id ? { ...item, ...changes } : item);
+        onChange(current);
+    };
+
+    for (const item of items) {
+        if (signal.aborted) {
+            update(item.id, { state: 'cancelled', message: undefined, percent: undefined });
+            continue;
+        }
+        update(item.id, { state: 'processing', percent: 0, message: undefined });
+        try {
+            const outputs = await process(item, ({ message, percent }) => update(item.id, { message, percent }), signal);
+            update(item.id, { state: 'done', outputs, message: undefined, percent: undefined });
+        } catch (error) {
+            update(item.id, signal.aborted
+                ? { state: 'cancelled', message: undefined, percent: undefined }
+                : { state: 'failed', message: error instanceof Error ? error.message : String(error), percent: undefined });
+        }
+    }
+    return current;
+};
+
+/**
+ * Packs every finished item's files into one ZIP. Clashing names get a number,
+ * as a download folder would give them.
+ */
+export const zipBatchOutputs = async (items: BatchItem[]): Promise<Blob> => {
+    const taken = new Set<string>();
+    const entries = [];
+    for (const { outputs } of items) {
+        for (const { name, blob } of outputs) {
+            entries.push({ name: uniqueFileName(name, taken), data: new Uint8Array(await blob.arrayBuffer()) });
+        }
+    }
+    return new Blob([createZip(entries)], { type: 'application/zip' });
+};
+
+/** The name of an encoded image, as the command-line tool names them. */
+export const orbitImageName = (audioName: string, index: number, count: number) =>
+    count > 1 ? `${stemOf(audioName)}-part-${index + 1}-of-${count}.png` : `${stemOf(audioName)}.orbit.png`;
+
+/** The name a decoded file is saved under when its orbit did not record one. */
+export const fallbackAudioName = (images: File[], extension: string) => `${setStem(images[0].name)}${extension}`;
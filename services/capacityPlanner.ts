@@ -0,0 +1,235 @@
+import type { ErrorCorrectionLevel, LossyOptions, OrbitContainer } from '../types';
+import { formatBytes, formatDuration, formatTranscoding } from '../utils/format';
+import { safeFileName } from '../utils/fileNames';
+import { archiveLength, ATTACHMENT_MIME_TYPE } from './archive';
+import { CANVAS_SIZES, ERROR_CORRECTION_PARITY, fitCanvasSize, fitRobustCanvasSize, getImageCapacity, getRobustCapacity, MAX_BITS_PER_CHANNEL, primaryEntryName } from './orbitCore';
+import { ENCRYPTION_OVERHEAD } from './orbitCrypto';
+import { chooseLossyPreset, lossyPresets, lossySize, type LossyPreset } from './transcoder';
+import { WAV_HEADER_LENGTH } from './wav';
+
+// Tells the Encode tab, before anything is drawn, whether a file fits in one
+// image at the chosen settings, and if not, what would make it fit.
+
+const TRANSCODE_RATES = [32000, 22050, 16000, 11025, 8000];
+
+const RATE_QUALITY: Record<number, string> = {
+    32000: 'close to CD quality',
+    22050: 'FM radio quality',
+    16000: 'clear speech, dull music',
+    11025: 'AM radio quality',
+    8000: 'telephone quality',
+};
+
+/** The encode settings that decide how much one image holds. */
+export interface CapacitySettings {
+    bitsPerChannel: number;
+    errorCorrection: ErrorCorrectionLevel;
+    canvasSize: number;
+    container: OrbitContainer;
+    lossy: LossyOptions | null; // The lossy fallback, or null to embed the file itself
+    fitCanvas?: boolean; // Grows the canvas from canvasSize until the audio fits, as cover photos do
+}
+
+/** What the planner needs to know about the audio. */
+export interface AudioMeasurement {
+    compressedSize: number; // Bytes after compression, or the file's size when compression does not help
+    duration: number; // Seconds
+    sampleRate: number;
+    channels: number;
+    encrypted: boolean;
+    attachedBytes: number; // What attachments add to the payload before compression; 0 without any
+}
+
+/** One way to make the audio fit in a single image, applied with one click. */
+export type FitOption = { label: string; detail: string } & (
+    | { kind: 'settings'; changes: Partial<CapacitySettings> }
+    | { kind: 'trim'; duration: number } // Keeps the first seconds as 16-bit WAV
+    | { kind: 'transcode'; sampleRate: number; channels: number } // Resamples the whole file into a 16-bit WAV
+);
+
+const CHUNK_OPTION: FitOption = {
+    kind: 'settings',
+    label: 'Store it in a PNG chunk',
+    detail: 'Any size fits in one image, but hosts that re-encode PNGs drop the chunk and the audio.',
+    changes: { container: 'chunk' },
+};
+
+const PIXELS_OPTION: FitOption = {
+    kind: 'settings',
+    label: 'Store it in the pixels',
+    detail: 'Far more fits, over several images if need be, but JPEG conversion and resizing destroy it.',
+    changes: { container: 'pixels' },
+};
+
+export interface CapacityPlan {
+    neededBytes: number; // What would be embedded, after compression and encryption
+    capacityBytes: number; // What one image holds at the settings; Infinity in the chunk container
+    imageCount: number; // Above 1 in the robust container means it does not fit, as that never splits
+    options: FitOption[]; // Empty when the audio already fits
+    lossyPreset?: LossyPreset; // The copy a lossy encode would embed, when one fits
+    grownCanvasSize?: number; // The canvas a cover photo is scaled to, when larger than the one chosen
+}
+
+/**
+ * Compares the audio with one image's capacity at the given settings, and
+ * when it does not fit, lists the smallest change of each kind that would.
+ */
+export const planCapacity = (audio: AudioMeasurement, settings: CapacitySettings): CapacityPlan => {
+    const overhead = (audio.encrypted ? ENCRYPTION_OVERHEAD : 0) + audio.attachedBytes;
+    if (settings.lossy) return planLossy(audio, settings, settings.lossy, overhead);
+    const neededBytes = audio.compressedSize + overhead;
+    if (settings.container === 'chunk') {
+        return { neededBytes, capacityBytes: Infinity, imageCount: 1, options: [] };
+    }
+    if (settings.fitCanvas) {
+        const canvasSize = settings.container === 'robust'
+            ? fitRobustCanvasSize(neededBytes, settings.canvasSize)
+            : fitCanvasSize(neededBytes, settings.bitsPerChannel, settings.errorCorrection, settings.canvasSize);
+        if (canvasSize > settings.canvasSize) {
+            return { ...planCapacity(audio, { ...settings, canvasSize }), grownCanvasSize: canvasSize };
+        }
+    }
+
+    const capacity = (changes: Partial<CapacitySettings> = {}) => capacityAt({ ...settings, ...changes });
+    const capacityBytes = capacity();
+    const imageCount = Math.max(1, Math.ceil(neededBytes / capacityBytes));
+    if (imageCount === 1) return { neededBytes, capacityBytes, imageCount, options: [] };
+
+    const options: FitOption[] = [];
+    const fits = (changes: Partial<CapacitySettings>) => capacity(changes) >= neededBytes;
+
+    const canvasSize = CANVAS_SIZES.find(size => size > settings.canvasSize && fits({ canvasSize: size }));
+    if (canvasSize) {
+        options.push({
+            kind: 'settings',
+            label: `Draw on a ${canvasSize} × ${canvasSize} canvas`,
+            detail: `${formatBytes(capacity({ canvasSize }))} per image. The PNG grows with it.`,
+            changes: { canvasSize },
+        });
+    }
+    // Depth and error correction are the pixel container's; the robust one fixes its own
+    const pixels = settings.container === 'pixels';
+    const bits = Array.from({ length: MAX_BITS_PER_CHANNEL - settings.bitsPerChannel }, (_, i) => settings.bitsPerChannel + i + 1)
+        .find(bitsPerChannel => pixels && fits({ bitsPerChannel }));
+    if (bits) {
+        options.push({
+            kind: 'settings',
+            label: `Use ${bits} bits per channel`,
+            detail: `${formatBytes(capacity({ bitsPerChannel: bits }))} per image, with more visible grain.`,
+            changes: { bitsPerChannel: bits },
+        });
+    }
+    const levels = Object.keys(ERROR_CORRECTION_PARITY) as ErrorCorrectionLevel[];
+    const errorCorrection = levels.slice(0, levels.indexOf(settings.errorCorrection)).reverse()
+        .find(level => pixels && fits({ errorCorrection: level }));
+    if (errorCorrection) {
+        options.push({
+            kind: 'settings',
+            label: errorCorrection === 'none' ? 'Turn off error correction' : `Lower error correction to ${errorCorrection}`,
+            detail: `${formatBytes(capacity({ errorCorrection }))} per image, with less protection against damage.`,
+            changes: { errorCorrection },
+        });
+    }
+    const largest: Partial<CapacitySettings> = {
+        canvasSize: CANVAS_SIZES[CANVAS_SIZES.length - 1],
+        bitsPerChannel: MAX_BITS_PER_CHANNEL,
+        errorCorrection: 'none',
+    };
+    if (pixels && options.length === 0 && fits(largest)) {
+        options.push({
+            kind: 'settings',
+            label: `Largest canvas at ${MAX_BITS_PER_CHANNEL} bits, no error correction`,
+            detail: `${formatBytes(capacity(largest))} per image, with visible grain and no protection against damage.`,
+            changes: largest,
+        });
+    }
+    options.push(pixels ? CHUNK_OPTION : PIXELS_OPTION);
+
+    // Trimmed and transcoded audio becomes 16-bit WAV, counted here without the compression it may still get
+    const room = capacityBytes - overhead - WAV_HEADER_LENGTH;
+    const trimmed = Math.floor(room / (audio.sampleRate * audio.channels * 2));
+    if (trimmed >= 1 && trimmed < audio.duration) {
+        options.push({
+            kind: 'trim',
+            label: `Keep the first ${formatDuration(trimmed)}`,
+            detail: `Of ${formatDuration(audio.duration)}, as ${audio.channels === 1 ? 'mono' : 'stereo'} 16-bit WAV.`,
+            duration: trimmed,
+        });
+    }
+    const rates = [...(audio.channels > 1 ? [audio.sampleRate] : []), ...TRANSCODE_RATES.filter(rate => rate < audio.sampleRate)];
+    const sampleRate = rates.find(rate => Math.ceil(audio.duration * rate) * 2 <= room);
+    if (sampleRate) {
+        options.push({
+            kind: 'transcode',
+            label: `Convert to mono ${sampleRate / 1000} kHz`,
+            detail: `About ${formatBytes(WAV_HEADER_LENGTH + Math.ceil(audio.duration * sampleRate) * 2)} as 16-bit WAV, ${RATE_QUALITY[sampleRate] ?? 'the original rate'}.`,
+            sampleRate,
+            channels: 1,
+        });
+    }
+    const lossy: LossyOptions = { codec: pixels ? 'ima-adpcm' : 'ima-adpcm-2bit' };
+    const preset = chooseLossyPreset(lossy, audio, capacityBytes - overhead);
+    if (preset) {
+        options.push({
+            kind: 'settings',
+            label: 'Embed a lossy copy',
+            detail: `${formatTranscoding({ ...lossy, ...preset })}, about ${formatBytes(lossySize(lossy.codec, preset, audio.duration))}. `
+                + 'It decodes as a copy, not the original file.',
+            changes: { lossy },
+        });
+    }
+    return { neededBytes, capacityBytes, imageCount, options };
+};
+
+/**
+ * What attaching these files adds to the audio's payload: each file and its
+ * entry in the archive, plus the audio's own entry.
+ */
+export const attachedSize = (audio: File, attachments: File[]): number => attachments.length === 0 ? 0 : archiveLength([
+    { name: primaryEntryName(audio.name, audio.type), mimeType: audio.type, size: 0 },
+    ...attachments.map(({ name, type, size }) => ({ name: safeFileName(name), mimeType: type || ATTACHMENT_MIME_TYPE, size })),
+]);
+
+const capacityAt = ({ bitsPerChannel, errorCorrection, canvasSize, container }: CapacitySettings): number =>
+    container === 'robust' ? getRobustCapacity(canvasSize) : getImageCapacity(bitsPerChannel, errorCorrection, canvasSize);
+
+/**
+ * Plans a lossy encode: the copy always fits one image at the best preset it
+ * can, so only when even the smallest is too large are other settings offered.
+ */
+const planLossy = (audio: AudioMeasurement, settings: CapacitySettings, lossy: LossyOptions, overhead: number): CapacityPlan => {
+    const capacityBytes = settings.container === 'chunk' ? Infinity : capacityAt(settings);
+    const lossyPreset = chooseLossyPreset(lossy, audio, capacityBytes - overhead) ?? undefined;
+    if (lossyPreset) {
+        const neededBytes = lossySize(lossy.codec, lossyPreset, audio.duration) + overhead;
+        return { neededBytes, capacityBytes, imageCount: 1, options: [], lossyPreset };
+    }
+
+    // The smallest copy within the bitrate limit, which the offered settings are sized for
+    const smallest = lossyPresets(lossy.codec, audio.sampleRate, audio.channels, lossy.mono)
+        .filter(preset => lossy.bitrate === undefined || preset.bitrate <= lossy.bitrate * 1000)
+        .pop();
+    const neededBytes = (smallest ? lossySize(lossy.codec, smallest, audio.duration) : audio.compressedSize) + overhead;
+    const options: FitOption[] = [];
+    const canvasSize = CANVAS_SIZES.find(size => capacityAt({ ...settings, canvasSize: size }) >= neededBytes);
+    if (canvasSize && canvasSize > settings.canvasSize) {
+        options.push({
+            kind: 'settings',
+            label: `Draw on a ${canvasSize} × ${canvasSize} canvas`,
+            detail: `${formatBytes(capacityAt({ ...settings, canvasSize }))} per image. The PNG grows with it.`,
+            changes: { canvasSize },
+        });
+    }
+    const bits = Array.from({ length: MAX_BITS_PER_CHANNEL - settings.bitsPerChannel }, (_, i) => settings.bitsPerChannel + i + 1)
+        .find(bitsPerChannel => settings.container === 'pixels' && capacityAt({ ...settings, bitsPerChannel }) >= neededBytes);
+    if (bits) {
+        options.push({
+            kind: 'settings',
+            label: `Use ${bits} bits per channel`,
+            detail: `${formatBytes(capacityAt({ ...settings, bitsPerChannel: bits }))} per image, with more visible grain.`,
+            changes: { bitsPerChannel: bits },
+        });
+    }
+    options.push(settings.container === 'robust' ? PIXELS_OPTION : CHUNK_OPTION);
+    return { neededBytes, capacityBytes, imageCount: Math.ceil(neededBytes / capacityBytes), options };
+};
@@ -0,0 +1,120 @@
+export type CodecErrorCode =
+    | 'not-an-orbit'
+    | 'header-corrupt'
+    | 'payload-checksum-mismatch'
+    | 'truncated'
+    | 'missing-parts'
+    | 'mixed-sets'
+    | 'passphrase-required'
+    | 'wrong-passphrase'
+    | 'scatter-key-required'
+    | 'wrong-scatter-key'
+    | 'uncorrectable';
+
+/**
+ * Base class for every failure the codec can diagnose. The `code` lets the UI
+ * explain what went wrong without parsing messages.
+ */
+export class OrbitCodecError extends Error {
+    readonly code: CodecErrorCode;
+
+    constructor(code: CodecErrorCode, message: string) {
+        super(message);
+        this.name = 'OrbitCodecError';
+        this.code = code;
+    }
+}
+
+/** The image carries no orbit data at all. */
+export class NotAnOrbitError extends OrbitCodecError {
+    constructor(message: string) {
+        super('not-an-orbit', message);
+        this.name = 'NotAnOrbitError';
+    }
+}
+
+/** The orbit signature is present but the header cannot be trusted. */
+export class HeaderCorruptError extends OrbitCodecError {
+    constructor(message: string) {
+        super('header-corrupt', message);
+        this.name = 'HeaderCorruptError';
+    }
+}
+
+/** The header is intact but the payload bytes no longer match their checksum. */
+export class PayloadChecksumError extends OrbitCodecError {
+    constructor(message: string) {
+        super('payload-checksum-mismatch', message);
+        this.name = 'PayloadChecksumError';
+    }
+}
+
+/** The image holds fewer bytes than the header says were embedded. */
+export class TruncatedPayloadError extends OrbitCodecError {
+    constructor(message: string) {
+        super('truncated', message);
+        this.name = 'TruncatedPayloadError';
+    }
+}
+
+/** Some images of a multi-part set were not supplied. */
+export class MissingPartsError extends OrbitCodecError {
+    readonly missingParts: number[];
+    readonly partCount: number;
+
+    constructor(missingParts: number[], partCount: number) {
+        const noun = missingParts.length === 1 ? 'part' : 'parts';
+        super('missing-parts', `Missing ${noun} ${missingParts.join(', ')} of ${partCount}. Add the remaining orbit images and try again.`);
+        this.name = 'MissingPartsError';
+        this.missingParts = missingParts;
+        this.partCount = partCount;
+    }
+}
+
+/** The supplied images come from more than one encoded file. */
+export class MixedSetsError extends OrbitCodecError {
+    constructor() {
+        super('mixed-sets', 'These images belong to different orbit sets. Decode each set separately.');
+        this.name = 'MixedSetsError';
+    }
+}
+
+/** The orbit is encrypted and no passphrase was given. */
+export class PassphraseRequiredError extends OrbitCodecError {
+    constructor() {
+        super('passphrase-required', 'This orbit is protected with a passphrase. Enter it to unlock the audio.');
+        this.name = 'PassphraseRequiredError';
+    }
+}
+
+/** The payload passed its checksum, so a failed decryption means the passphrase is wrong. */
+export class WrongPassphraseError extends OrbitCodecError {
+    constructor() {
+        super('wrong-passphrase', 'The passphrase is incorrect.');
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+/** The orbit's bits are scattered and no key was given to gather them. */
+export class ScatterKeyRequiredError extends OrbitCodecError {
+    constructor() {
+        super('scatter-key-required', 'This orbit scatters its data across the image. Enter the scatter key to read it.');
+        this.name = 'ScatterKeyRequiredError';
+    }
+}
+
+/** Gathering the scattered bits with the given key produced no recognizable header. */
+export class WrongScatterKeyError extends OrbitCodecError {
+    constructor(fileName: string) {
+        super('wrong-scatter-key', `The scatter key does not match ${fileName}.`);
+        this.name = 'WrongScatterKeyError';
+    }
+}
+
+/** Error correction found more damage than its parity bytes can repair. */
+export class UncorrectableDataError extends OrbitCodecError {
+    constructor(message: string) {
+        super('uncorrectable', message);
+        this.name = 'UncorrectableDataError';
+    }
+}
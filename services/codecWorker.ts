@@ -0,0 +1,290 @@
+import type { AnalysisOptions, AnimationOptions, AudioFeatures, AudioMetadata, CodecProgress, DecodeOptions, EncodeOptions, EncodeResult, OrbitAttachment, TranscodingParams } from '../types';
+import { renderRevealApng, type RevealSurface } from './animation';
+import { extractFeatures } from './audioAnalysis';
+import { composeCover } from './cover';
+import { NotAnOrbitError, OrbitCodecError, type CodecErrorCode } from './codecErrors';
+import { CANVAS_SIZE, decodeOrbits, DEFAULT_BITS_PER_CHANNEL, encodeOrbitFrame, encodeOrbitPixels, encodeOrbitRobust, fitCanvasSize, fitRobustCanvasSize, identifyPart, ORBIT_CHUNK_TYPE, resolveCanvasSize, type LossyEncodeOptions, type OrbitSource, type PartIdentity } from './orbitCore';
+import { drawArtwork, styleTag } from './renderers';
+import { inspectOrbitFile, lsbPlane, type OrbitInspection } from './inspector';
+import { encodePng, findPngChunk, insertPngChunk } from './png';
+import { createProgressReporter, forItem, type ProgressReporter } from './progress';
+import { resynthesizeOrbit } from './resynthesis';
+import { transcodeLossy } from './transcoder';
+
+// Runs the pixel work of encoding, decoding, grouping, inspecting and animating off the main thread.
+// Each request gets a fresh worker, which the page terminates to cancel it.
+
+export type WorkerRequest =
+    | {
+        type: 'encode';
+        audio: ArrayBuffer;
+        mimeType: string;
+        channelData: Float32Array[]; // Decoded on the main thread, where the Web Audio API is
+        sampleRate: number;
+        options: Omit<EncodeOptions, 'signal'>;
+    }
+    | { type: 'analyse'; channelData: Float32Array[]; sampleRate: number; analysis?: AnalysisOptions }
+    | { type: 'decode'; files: File[]; options: Omit<DecodeOptions, 'signal'> }
+    | { type: 'identify'; files: File[]; options: Omit<DecodeOptions, 'signal'> }
+    | { type: 'inspect'; file: File; options: Omit<DecodeOptions, 'signal'> }
+    | { type: 'animate'; features: AudioFeatures; options: Omit<AnimationOptions, 'signal'> };
+
+export type WorkerResponse =
+    | { type: 'progress'; progress: CodecProgress }
+    | { type: 'analysed'; features: AudioFeatures } // Without the samples, which the page already has
+    | { type: 'encoded'; result: EncodeResult }
+    | {
+        type: 'decoded';
+        bytes: Uint8Array;
+        mimeType: string;
+        fileName?: string;
+        metadata?: AudioMetadata;
+        attachments: OrbitAttachment[];
+        transcoding?: TranscodingParams;
+        correctedErrors: number;
+        resynthesized?: boolean;
+    }
+    | { type: 'identified'; identities: (PartIdentity | null)[] } // One per file, null where no header could be read
+    | { type: 'inspected'; inspection: OrbitInspection; lsbPng: Uint8Array | null } // No plane when the file is no image
+    | { type: 'animated'; png: Uint8Array }
+    | { type: 'failed'; message: string; code?: CodecErrorCode }; // Error classes do not survive postMessage
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+    const report = createProgressReporter(progress => post({ type: 'progress', progress }));
+    try {
+        if (request.type === 'encode') {
+            post({ type: 'encoded', result: await encode(request, report) });
+        } else if (request.type === 'analyse') {
+            const features = extractFeatures(request.channelData, request.sampleRate, request.analysis, fraction => report('analysing', fraction));
+            post({ type: 'analysed', features: { ...features, channelData: [] } });
+        } else if (request.type === 'identify') {
+            post({ type: 'identified', identities: await identify(request, report) });
+        } else if (request.type === 'inspect') {
+            const { inspection, lsbPng } = await inspect(request, report);
+            post({ type: 'inspected', inspection, lsbPng }, lsbPng ? [lsbPng.buffer] : []);
+        } else if (request.type === 'animate') {
+            const png = await renderRevealApng(request.features, request.options, createRevealSurface, report);
+            post({ type: 'animated', png }, [png.buffer]);
+        } else {
+            const { bytes, mimeType, fileName, metadata, attachments, transcoding, correctedErrors, resynthesized } = await decode(request, report);
+            post(
+                { type: 'decoded', bytes, mimeType, fileName, metadata, attachments, transcoding, correctedErrors, resynthesized },
+                [bytes.buffer, ...attachments.map(({ data }) => data.buffer)],
+            );
+        }
+    } catch (error) {
+        post({
+            type: 'failed',
+            message: error instanceof Error ? error.message : String(error),
+            ...(error instanceof OrbitCodecError && { code: error.code }),
+        });
+    }
+};
+
+const encode = async (
+    { audio, mimeType, channelData, sampleRate, options }: Extract<WorkerRequest, { type: 'encode' }>,
+    report: ProgressReporter,
+): Promise<EncodeResult> => {
+    const features = extractFeatures(channelData, sampleRate, options.analysis, fraction => report('analysing', fraction));
+
+    let size = resolveCanvasSize(options.canvasSize, options.container);
+    report('drawing');
+    const canvas = new OffscreenCanvas(size, size);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    const cover = options.cover && { photo: await loadCoverPhoto(options.cover.image), overlay: options.cover.overlay ?? 0 };
+    // Draws at a size and leaves the result on the canvas: the orbit, or the cover photo with the orbit over it
+    const drawAt = (canvasSize: number): ImageData => {
+        size = canvasSize;
+        canvas.width = canvas.height = size;
+        drawArtwork(ctx, features, options.style, options.variantSeed);
+        if (cover) {
+            const overlay = cover.overlay > 0 ? ctx.getImageData(0, 0, size, size) : undefined;
+            const { data } = composeCover(cover.photo, size, overlay, cover.overlay);
+            ctx.putImageData(new ImageData(data, size, size), 0, 0);
+        }
+        return ctx.getImageData(0, 0, size, size);
+    };
+
+    // The duration is known once the audio is decoded, and the style lets a decoder follow the
+    // artwork's timeline; tags the user typed win
+    const tagged = {
+        ...options,
+        metadata: {
+            ...(features.duration > 0 && { duration: features.duration.toFixed(2) }),
+            style: styleTag(options.style),
+            ...options.metadata,
+        },
+    };
+
+    // A lossy copy replaces the file, but the artwork is still drawn from the original
+    let embedded: { audio: ArrayBuffer; mimeType: string; options: LossyEncodeOptions } = { audio, mimeType, options: tagged };
+    if (options.lossy) {
+        const copy = transcodeLossy(channelData, sampleRate, mimeType, { ...tagged, lossy: options.lossy });
+        embedded = {
+            audio: copy.bytes.buffer as ArrayBuffer,
+            mimeType: copy.mimeType,
+            options: { ...tagged, fileName: copy.fileName, transcoding: copy.transcoding },
+        };
+    }
+
+    if (options.container === 'chunk') {
+        drawAt(size);
+        const { frame, ...stats } = await encodeOrbitFrame(embedded.audio, embedded.mimeType, embedded.options, report);
+        report('finalizing');
+        const png = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer());
+        const image = await toDataUrl(new Blob([insertPngChunk(png, { type: ORBIT_CHUNK_TYPE, data: frame })], { type: 'image/png' }));
+        return { images: [image], ...stats };
+    }
+
+    // A cover photo is scaled up to the canvas that holds the payload; a drawn orbit keeps its size
+    const bitsPerChannel = options.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL;
+    const robust = options.container === 'robust';
+    const fitSize = (payloadLength: number) => robust
+        ? fitRobustCanvasSize(payloadLength, size)
+        : fitCanvasSize(payloadLength, bitsPerChannel, options.errorCorrection, size);
+    const artwork = cover ? (payloadLength: number) => drawAt(fitSize(payloadLength)) : drawAt(size);
+    const { parts, ...stats } = robust
+        ? await encodeOrbitRobust(artwork, embedded.audio, embedded.mimeType, embedded.options, report)
+        : await encodeOrbitPixels(artwork, embedded.audio, embedded.mimeType, embedded.options, report);
+
+    const images: string[] = [];
+    for (let i = 0; i < parts.length; i++) {
+        forItem(report, i, parts.length)('finalizing');
+        ctx.putImageData(new ImageData(parts[i], size, size), 0, 0);
+        images.push(await toDataUrl(await canvas.convertToBlob({ type: 'image/png' })));
+    }
+    return { images, ...stats };
+};
+
+const decode = async (
+    { files, options }: Extract<WorkerRequest, { type: 'decode' }>,
+    report: ProgressReporter,
+): Promise<Omit<Extract<WorkerResponse, { type: 'decoded' }>, 'type'>> => {
+    const sources: OrbitSource[] = [];
+    for (let i = 0; i < files.length; i++) {
+        report('reading', i / files.length, files.length > 1 ? `Reading image ${i + 1} of ${files.length}...` : undefined);
+        sources.push(await readSource(files[i]));
+    }
+    try {
+        return await decodeOrbits(sources, report, options);
+    } catch (error) {
+        // A spectrogram orbit still plays when its hidden data is gone, from the picture itself
+        const rebuilt = resynthesizeOrbit(sources, error, report);
+        if (!rebuilt) throw error;
+        return { ...rebuilt, attachments: [], correctedErrors: 0, resynthesized: true };
+    }
+};
+
+const identify = async ({ files, options }: Extract<WorkerRequest, { type: 'identify' }>, report: ProgressReporter) => {
+    const scatterKey = options.scatterKey || options.passphrase;
+    const identities: (PartIdentity | null)[] = [];
+    for (let i = 0; i < files.length; i++) {
+        report('reading', i / files.length, `Reading the header of image ${i + 1} of ${files.length}...`);
+        try {
+            identities.push(identifyPart(await readSource(files[i]), scatterKey));
+        } catch {
+            // No image at all: decoding it on its own says so
+            identities.push(null);
+        }
+    }
+    return identities;
+};
+
+/**
+ * Reads an image for decoding. An orbit chunk wins over the pixels: chunk-mode
+ * artwork carries no data of its own.
+ */
+const readSource = async (file: File): Promise<OrbitSource> => {
+    const frame = findPngChunk(new Uint8Array(await file.arrayBuffer()), ORBIT_CHUNK_TYPE);
+    return frame ? { name: file.name, frame } : { name: file.name, image: await loadImageData(file) };
+};
+
+const inspect = async ({ file, options }: Extract<WorkerRequest, { type: 'inspect' }>, report: ProgressReporter) => {
+    report('reading');
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let image: ImageData | null = null;
+    try {
+        image = await loadImageData(file);
+    } catch {
+        // The inspection reports files that are no image
+    }
+
+    report('extracting', 0, 'Inspecting pixels...');
+    const inspection = inspectOrbitFile(file.name, bytes, image, options);
+    report('finalizing', 0, 'Drawing the low bits...');
+    const lsbPng = image ? await encodePng(lsbPlane(image, inspection.preamble?.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL)) : null;
+    return { inspection, lsbPng };
+};
+
+/**
+ * A full-size canvas for the reveal, read back through a second canvas at the
+ * animation's size so the browser does the scaling.
+ */
+const createRevealSurface = (): RevealSurface => {
+    const canvas = new OffscreenCanvas(CANVAS_SIZE, CANVAS_SIZE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    return {
+        ctx,
+        snapshot: (size) => {
+            const output = new OffscreenCanvas(size, size).getContext('2d', { willReadFrequently: true });
+            if (!output) throw new Error('Could not get canvas context');
+            output.imageSmoothingQuality = 'high';
+            output.drawImage(canvas, 0, 0, size, size);
+            return output.getImageData(0, 0, size, size);
+        },
+    };
+};
+
+/**
+ * Reads an image file's pixels exactly as stored.
+ */
+const loadImageData = async (file: File): Promise<ImageData> => {
+    let bitmap: ImageBitmap;
+    try {
+        // Colour management or premultiplying would change the very bits that carry the audio
+        bitmap = await createImageBitmap(file, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+    } catch {
+        throw new NotAnOrbitError(`${file.name} could not be read as an image.`);
+    }
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Reads a cover photo as it looks on screen, colour managed like any picture.
+ */
+const loadCoverPhoto = async (image: Blob): Promise<ImageData> => {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(image);
+    } catch {
+        throw new Error('The cover photo could not be read as an image.');
+    }
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Wraps a PNG in a data URL, like the ones `toDataURL` returns.
+ */
+const toDataUrl = (png: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(png);
+});
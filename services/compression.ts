@@ -0,0 +1,65 @@
+import type { CompressionMethod } from '../types';
+import { PayloadChecksumError } from './codecErrors';
+
+const COMPRESSION_FORMAT = 'deflate'; // zlib-wrapped DEFLATE, supported by every CompressionStream
+
+/**
+ * Pipes bytes through a (de)compression stream and collects the result.
+ */
+const transform = async (bytes: Uint8Array | ArrayBuffer, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+    const output = new Blob([bytes]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Wraps bytes in a zlib stream. PNG image data uses the same format.
+ */
+export const deflateBytes = (bytes: Uint8Array | ArrayBuffer): Promise<Uint8Array> =>
+    transform(bytes, new CompressionStream(COMPRESSION_FORMAT));
+
+/**
+ * Unwraps a zlib stream written by `deflateBytes` or any other zlib encoder.
+ */
+export const inflateBytes = (bytes: Uint8Array | ArrayBuffer): Promise<Uint8Array> =>
+    transform(bytes, new DecompressionStream(COMPRESSION_FORMAT));
+
+/**
+ * Deflates the payload, returning it untouched when compression would not make
+ * it smaller (already-compressed formats like MP3 or Opus usually grow).
+ */
+export const compressPayload = async (payload: ArrayBuffer): Promise<{ bytes: ArrayBuffer; method: CompressionMethod | null }> => {
+    const compressed = await deflateBytes(payload);
+    if (compressed.length >= payload.byteLength) {
+        return { bytes: payload, method: null };
+    }
+    return { bytes: compressed.buffer as ArrayBuffer, method: 'deflate' };
+};
+
+/**
+ * Inflates a payload written by `compressPayload`, giving up as soon as it
+ * inflates past `maxLength`: the length comes from the header, and a small
+ * crafted payload could otherwise expand until the tab runs out of memory.
+ */
+export const decompressPayload = async (bytes: Uint8Array | ArrayBuffer, method: CompressionMethod, maxLength: number): Promise<Uint8Array> => {
+    if (method !== 'deflate') throw new Error(`Unsupported compression method: ${method}`);
+    const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(COMPRESSION_FORMAT)).getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        length += value.length;
+        if (length > maxLength) {
+            await reader.cancel();
+            throw new PayloadChecksumError(`The embedded audio inflates past the ${maxLength} bytes its header declares.`);
+        }
+        chunks.push(value);
+    }
+    const output = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return output;
+};
@@ -0,0 +1,52 @@
+import { scaleImage } from './animation';
+import type { RgbaImage } from './orbitCore';
+
+// Cover photos: the user's own image carries the audio in place of a drawn
+// orbit. The photo keeps its proportions, scaled to fit the square canvas and
+// centred on black, and the orbit can be laid over it.
+
+export const DEFAULT_COVER_OVERLAY = 0.35; // Opacity the Encode tab suggests for the orbit overlay
+
+/**
+ * Fits a photo into a square canvas of `size` pixels, padding the short side.
+ * Transparent parts are flattened onto the padding colour, since the encoder
+ * needs opaque pixels. With an overlay (the orbit drawn at the same size) and
+ * an opacity above 0, the overlay is screen-blended on top: its black sky
+ * leaves the photo alone and only the light of the orbit shows.
+ */
+export const composeCover = (photo: RgbaImage, size: number, overlay?: RgbaImage, opacity = 0): RgbaImage => {
+    if (photo.width === 0 || photo.height === 0) throw new Error('The cover photo is empty.');
+    if (overlay && (overlay.width !== size || overlay.height !== size)) {
+        throw new Error(`The overlay is ${overlay.width}x${overlay.height}, not ${size}x${size}.`);
+    }
+
+    const scale = Math.min(size / photo.width, size / photo.height);
+    const width = Math.max(1, Math.round(photo.width * scale));
+    const height = Math.max(1, Math.round(photo.height * scale));
+    const scaled = scaleImage(photo, width, height);
+    const left = Math.floor((size - width) / 2);
+    const top = Math.floor((size - height) / 2);
+
+    const data = new Uint8ClampedArray(size * size * 4); // Black padding
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const from = (y * width + x) * 4;
+            const to = ((top + y) * size + left + x) * 4;
+            const alpha = scaled.data[from + 3] / 255;
+            for (let c = 0; c < 3; c++) data[to + c] = scaled.data[from + c] * alpha;
+        }
+    }
+
+    const blend = Math.min(1, Math.max(0, opacity));
+    for (let i = 0; i < data.length; i += 4) {
+        if (overlay && blend > 0) {
+            for (let c = 0; c < 3; c++) {
+                const base = data[i + c];
+                const screened = 255 - (255 - base) * (255 - overlay.data[i + c]) / 255;
+                data[i + c] = base + (screened - base) * blend;
+            }
+        }
+        data[i + 3] = 255;
+    }
+    return { data, width: size, height: size };
+};
@@ -0,0 +1,26 @@
+/**
+ * Lookup table for the standard (IEEE 802.3) CRC-32 polynomial, as used by PNG and ZIP.
+ */
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Computes the CRC-32 of a byte array. Pass a previous result as `crc` to
+ * continue a checksum across several buffers.
+ */
+export const crc32 = (bytes: Uint8Array, crc = 0): number => {
+    let c = crc ^ 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) {
+        c = CRC_TABLE[(c ^ bytes[i]) & 0xFF] ^ (c >>> 8);
+    }
+    return (c ^ 0xFFFFFFFF) >>> 0;
+};
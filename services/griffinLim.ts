@@ -0,0 +1,118 @@
+import { fft } from './fft';
+import { mulberry32 } from './random';
+
+const MOMENTUM = 0.99; // The fast variant's step past each projection (Perraudin et al., 2013)
+
+/** A periodic Hann window, whose overlaps at a quarter hop add up evenly. */
+const hannWindow = (size: number) =>
+    Float64Array.from({ length: size }, (_, n) => 0.5 - 0.5 * Math.cos(2 * Math.PI * n / size));
+
+/**
+ * Recovers a signal from the magnitudes of its short-time Fourier transform,
+ * which is all a picture of a spectrogram holds, by the fast Griffin-Lim
+ * algorithm: it starts from random phases and alternates between the nearest
+ * real signal and the given magnitudes until the two agree.
+ *
+ * `magnitudes` has one array of `windowSize / 2 + 1` bins per frame, frame `t`
+ * centred on sample `t * hopSize`. Returns `length` samples, unscaled.
+ */
+export const griffinLim = (
+    magnitudes: Float32Array[],
+    windowSize: number,
+    hopSize: number,
+    length: number,
+    iterations: number,
+    onProgress?: (fraction: number) => void,
+): Float32Array => {
+    const frames = magnitudes.length;
+    const bins = windowSize / 2 + 1;
+    const window = hannWindow(windowSize);
+    const offset = windowSize / 2; // Frames are centred, so the signal is padded by half a window each side
+    const padded = (frames - 1) * hopSize + windowSize;
+
+    // Every frame's window squared, added up at each sample, undoes the overlap-add's gain
+    const windowSum = new Float64Array(padded);
+    for (let t = 0; t < frames; t++) {
+        for (let n = 0; n < windowSize; n++) windowSum[t * hopSize + n] += window[n] * window[n];
+    }
+
+    const re = new Float64Array(windowSize);
+    const im = new Float64Array(windowSize);
+
+    /** The inverse transform of the magnitudes with the given phases: each frame back to samples, windowed and overlap-added. */
+    const synthesize = (phaseRe: Float32Array[], phaseIm: Float32Array[]): Float64Array => {
+        const signal = new Float64Array(padded);
+        for (let t = 0; t < frames; t++) {
+            // The inverse FFT as the forward one on the conjugate; the upper half mirrors the lower
+            for (let k = 0; k < bins; k++) {
+                re[k] = magnitudes[t][k] * phaseRe[t][k];
+                im[k] = -magnitudes[t][k] * phaseIm[t][k];
+            }
+            for (let k = bins; k < windowSize; k++) {
+                re[k] = re[windowSize - k];
+                im[k] = -im[windowSize - k];
+            }
+            fft(re, im);
+            for (let n = 0; n < windowSize; n++) signal[t * hopSize + n] += re[n] / windowSize * window[n];
+        }
+        for (let i = 0; i < padded; i++) signal[i] /= Math.max(windowSum[i], 1e-8);
+        return signal;
+    };
+
+    /** The forward transform of a signal, into the given arrays. */
+    const analyse = (signal: Float64Array, spectrumRe: Float32Array[], spectrumIm: Float32Array[]) => {
+        for (let t = 0; t < frames; t++) {
+            for (let n = 0; n < windowSize; n++) {
+                re[n] = signal[t * hopSize + n] * window[n];
+                im[n] = 0;
+            }
+            fft(re, im);
+            spectrumRe[t].set(re.subarray(0, bins));
+            spectrumIm[t].set(im.subarray(0, bins));
+        }
+    };
+
+    // Single precision halves what a long recording needs; the phases are all that is kept
+    const spectra = () => Array.from({ length: frames }, () => new Float32Array(bins));
+    const phaseRe = spectra();
+    const phaseIm = spectra();
+    let rebuiltRe = spectra();
+    let rebuiltIm = spectra();
+    let previousRe = spectra();
+    let previousIm = spectra();
+
+    // Unit phasors, starting at random but the same for the same input
+    const random = mulberry32(0x47524946); // 'GRIF'
+    for (let t = 0; t < frames; t++) {
+        for (let k = 0; k < bins; k++) {
+            const angle = random() * 2 * Math.PI;
+            phaseRe[t][k] = Math.cos(angle);
+            phaseIm[t][k] = Math.sin(angle);
+        }
+    }
+
+    const step = MOMENTUM / (1 + MOMENTUM);
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        [previousRe, rebuiltRe] = [rebuiltRe, previousRe];
+        [previousIm, rebuiltIm] = [rebuiltIm, previousIm];
+        analyse(synthesize(phaseRe, phaseIm), rebuiltRe, rebuiltIm);
+        for (let t = 0; t < frames; t++) {
+            for (let k = 0; k < bins; k++) {
+                const x = rebuiltRe[t][k] - step * previousRe[t][k];
+                const y = rebuiltIm[t][k] - step * previousIm[t][k];
+                const norm = Math.hypot(x, y);
+                // A bin that cancelled out keeps its old phase
+                if (norm > 1e-12) {
+                    phaseRe[t][k] = x / norm;
+                    phaseIm[t][k] = y / norm;
+                }
+            }
+        }
+        onProgress?.((iteration + 1) / iterations);
+    }
+
+    const signal = synthesize(phaseRe, phaseIm);
+    const output = new Float32Array(length);
+    for (let i = 0; i < length && offset + i < padded; i++) output[i] = signal[offset + i];
+    return output;
+};
@@ -0,0 +1,171 @@
+import type { OrbitContainer } from '../types';
+import type { CodecErrorCode } from './codecErrors';
+import { CANVAS_SIZES, inspectPart, LAYOUT_SCATTERED, ORBIT_CHUNK_TYPE, type PartInspection, type RgbaImage } from './orbitCore';
+import { findPngChunk } from './png';
+
+// The forensic view behind the Decode tab's Inspect button and `orbit inspect`:
+// everything an image says about itself, and a best guess at why it does not
+// decode. Like the codec core it works on plain bytes, so both share it.
+
+/** Leading bytes of the formats an orbit most often gets converted to. */
+const FILE_SIGNATURES: { type: string; bytes: number[]; offset?: number }[] = [
+    { type: 'PNG', bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] },
+    { type: 'JPEG', bytes: [0xFF, 0xD8, 0xFF] },
+    { type: 'WebP', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+    { type: 'GIF', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { type: 'BMP', bytes: [0x42, 0x4D] },
+    { type: 'AVIF', bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66], offset: 4 },
+    { type: 'HEIC', bytes: [0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63], offset: 4 },
+];
+
+const LOSSY_TYPES = new Set(['JPEG', 'WebP', 'AVIF', 'HEIC']);
+
+/** Everything the inspector found in one image file. */
+export interface OrbitInspection extends Omit<PartInspection, 'error'> {
+    name: string;
+    fileType: string; // Judged from the file's first bytes, 'unknown' when none match
+    width?: number; // Absent when the file could not be read as an image
+    height?: number;
+    expectedSize: number; // The canvas size closest to the image's width, which orbits are drawn at
+    container: OrbitContainer;
+    transparentPixels: number;
+    decodes: boolean;
+    error?: { code?: CodecErrorCode; message: string };
+    findings: string[]; // The likeliest reasons it fails to decode first, then notes
+}
+
+/**
+ * Inspects one image file, given its bytes and its pixels as read without
+ * colour management or premultiplying, or null when it could not be read.
+ * Scattered orbits fall back to the passphrase as their key, as in decoding.
+ */
+export const inspectOrbitFile = (
+    name: string,
+    bytes: Uint8Array,
+    image: RgbaImage | null,
+    options: { passphrase?: string; scatterKey?: string } = {},
+): OrbitInspection => {
+    const fileType = sniffFileType(bytes);
+    const scatterKey = options.scatterKey || options.passphrase;
+    const frame = fileType === 'PNG' ? findPngChunk(bytes, ORBIT_CHUNK_TYPE) : null;
+
+    let part: PartInspection;
+    if (frame) {
+        part = inspectPart({ name, frame }, scatterKey);
+    } else if (image) {
+        part = inspectPart({ name, image }, scatterKey);
+    } else {
+        part = { preamble: null, capacityBytes: 0, error: { code: 'not-an-orbit', message: `${name} could not be read as an image.` } };
+    }
+
+    let transparentPixels = 0;
+    if (image) {
+        for (let i = 3; i < image.data.length; i += 4) {
+            if (image.data[i] !== 255) transparentPixels++;
+        }
+    }
+
+    const inspection: OrbitInspection = {
+        ...part,
+        name,
+        fileType,
+        width: image?.width,
+        height: image?.height,
+        expectedSize: image
+            ? CANVAS_SIZES.reduce((best, side) => Math.abs(side - image.width) < Math.abs(best - image.width) ? side : best)
+            : CANVAS_SIZES[0],
+        container: frame ? 'chunk' : part.robustGrid !== undefined ? 'robust' : 'pixels',
+        transparentPixels,
+        decodes: !part.error,
+        findings: [],
+    };
+    inspection.findings = diagnose(inspection, !!image);
+    return inspection;
+};
+
+const sniffFileType = (bytes: Uint8Array): string =>
+    FILE_SIGNATURES.find(({ bytes: signature, offset = 0 }) => signature.every((byte, i) => bytes[offset + i] === byte))?.type
+    ?? 'unknown';
+
+/**
+ * Guesses why an image does not decode from what the inspection found, most
+ * telling first, and adds what is worth knowing about one that does.
+ */
+const diagnose = (inspection: OrbitInspection, readable: boolean): string[] => {
+    const { fileType, width, height, expectedSize, container, preamble, header, error } = inspection;
+    const findings: string[] = [];
+
+    // The robust container is made to outlive lossy copies, so only its own failure counts
+    if (LOSSY_TYPES.has(fileType) && container !== 'robust') {
+        findings.push(`This is a ${fileType} file, not a PNG. ${fileType} compression rewrites the low bits of every pixel, so the audio cannot be recovered from this copy.`);
+    } else if (fileType !== 'PNG') {
+        findings.push(`This is ${fileType === 'unknown' ? 'not a recognised image format' : `a ${fileType} file`}, not a PNG. The image was converted after encoding.`);
+    }
+    if (!readable) {
+        if (!findings.length) findings.push('The file could not be read as an image at all. It may be damaged or incomplete.');
+        return findings;
+    }
+
+    if (container === 'pixels' && width !== undefined && height !== undefined && (width !== expectedSize || height !== expectedSize)) {
+        findings.push(width === height
+            ? `The image is ${width}×${height} instead of ${expectedSize}×${expectedSize}. It was resized or cropped, which blends or moves the pixels that hold the audio.`
+            : `The image is ${width}×${height} instead of ${expectedSize}×${expectedSize}. It was cropped or stretched, which moves or blends the pixels that hold the audio.`);
+    }
+    if (container === 'pixels' && inspection.transparentPixels > 0) {
+        findings.push(`${inspection.transparentPixels} pixels are not fully opaque, but orbits are drawn without transparency. An editor touched the image; those that premultiply alpha also round the colours of such pixels, scrambling their low bits.`);
+    }
+
+    if (container === 'pixels' && !preamble && !header && !findings.length) {
+        findings.push(fileType === 'PNG'
+            ? 'Neither an orbit chunk, a preamble nor a header was found. This is not an orbit, or it was re-saved by an app that rewrote its pixels and dropped its private PNG chunks.'
+            : 'Neither a preamble nor a header was found in the pixels.');
+    }
+    if (preamble && !header && preamble.layout === LAYOUT_SCATTERED && error?.code !== 'uncorrectable') {
+        findings.push('The preamble is intact and says the data is scattered with a key. Check the scatter key, or the passphrase if the orbit was scattered with it.');
+    }
+    if (error?.code === 'uncorrectable' && container === 'robust') {
+        findings.push('A robust layer was found, but this copy was compressed or shrunk too hard to read it. Try a larger or less compressed copy.');
+    }
+    if (error?.code === 'uncorrectable' && container === 'pixels') {
+        findings.push('The preamble is intact but more bytes changed than error correction can repair. The pixels were edited after encoding.');
+    }
+    if (header && inspection.availablePayloadBytes !== undefined && header.payloadLength > inspection.availablePayloadBytes) {
+        findings.push(`The header expects ${header.payloadLength} payload bytes but only ${inspection.availablePayloadBytes} follow it. The image lost data after encoding.`);
+    }
+    if (error?.code === 'header-corrupt' && header) {
+        findings.push('The header was read but fails its checks. Pixels near the start of the data were changed.');
+    }
+    if (error?.code === 'payload-checksum-mismatch') {
+        findings.push('The header is intact but the audio fails its checksum. Pixels were changed after encoding, for example by a filter, a watermark or a colour profile conversion.');
+    }
+
+    if (!error) {
+        if (header?.partCount && header.partCount > 1) {
+            findings.push(`This is part ${(header.partIndex ?? 0) + 1} of ${header.partCount}. Decode it together with the other parts of its set.`);
+        }
+        if (header?.encryption) findings.push('The audio is encrypted; decoding it needs the passphrase.');
+        if (container === 'robust') findings.push('The audio is in the robust layer, which survives JPEG conversion and resizing.');
+        if (!findings.length) findings.push('No problems found. This image decodes on its own.');
+    } else if (!findings.length) {
+        findings.push(error.message);
+    }
+    if (container === 'pixels' && !preamble && header) {
+        findings.push('This orbit predates the preamble and is read at 2 bits per channel.');
+    }
+    return findings;
+};
+
+/**
+ * The low `bitsPerChannel` bits of every channel, stretched to the full range so
+ * they can be seen. Embedded data shows as noise; untouched artwork as smooth
+ * shapes; edits as patches where the noise breaks off.
+ */
+export const lsbPlane = (image: RgbaImage, bitsPerChannel: number): RgbaImage => {
+    const mask = (1 << bitsPerChannel) - 1;
+    const data = new Uint8ClampedArray(image.data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) data[i + c] = (image.data[i + c] & mask) * 255 / mask;
+        data[i + 3] = 255;
+    }
+    return { data, width: image.width, height: image.height };
+};
@@ -0,0 +1,1004 @@
+import type {
+    AudioMetadata,
+    CompressionParams,
+    DecodeOptions,
+    EncodeOptions,
+    EncodeResult,
+    EncryptionParams,
+    ErrorCorrectionLevel,
+    OrbitAttachment,
+    OrbitContainer,
+    StegoHeader,
+    TranscodingParams,
+} from '../types';
+import { compressPayload, decompressPayload } from './compression';
+import { crc32 } from './crc32';
+import { decryptPayload, encryptPayload } from './orbitCrypto';
+import { forItem, type ProgressReporter } from './progress';
+import { mulberry32 } from './random';
+import { protectedLength, rsDeinterleave, rsProtect, rsRecover, unprotectedCapacity } from './reedSolomon';
+import { HEADER_VERSION, MAGIC_NUMBER, MIN_HEADER_LENGTH, readHeader, signatureMatch, writeHeader } from './orbitHeader';
+import { encodeWav, parseWav } from './wav';
+import { packArchive, unpackArchive } from './archive';
+import { detectRobustGrid, embedRobust, extractRobust, ROBUST_CELL_SIZE, robustCapacity } from './robustEmbed';
+import {
+    HeaderCorruptError,
+    MissingPartsError,
+    MixedSetsError,
+    NotAnOrbitError,
+    OrbitCodecError,
+    PassphraseRequiredError,
+    PayloadChecksumError,
+    ScatterKeyRequiredError,
+    TruncatedPayloadError,
+    UncorrectableDataError,
+    WrongPassphraseError,
+    WrongScatterKeyError,
+    type CodecErrorCode,
+} from './codecErrors';
+import { extensionForMimeType, safeFileName, uniqueFileName } from '../utils/fileNames';
+
+// The codec core works on plain RGBA byte arrays and platform-neutral APIs only
+// (TextEncoder, WebCrypto, CompressionStream), so it runs the same in the
+// browser and in Node. Decoding audio and drawing to a real canvas live in the
+// callers.
+
+export const DEFAULT_BITS_PER_CHANNEL = 2; // Using 2 bits per color channel (R,G,B) = 6 bits per pixel
+export const MIN_BITS_PER_CHANNEL = 1;
+export const MAX_BITS_PER_CHANNEL = 4;
+const LEGACY_BITS_PER_CHANNEL = 2; // Orbits without a preamble were always written at this depth
+export const CANVAS_SIZE = 1024; // Default canvas size; decoding reads any size
+export const CANVAS_SIZES = [CANVAS_SIZE, 1536, 2048]; // Sizes the encoder draws at, in pixels per side
+export const ROBUST_CANVAS_SIZE = CANVAS_SIZES[CANVAS_SIZES.length - 1]; // The robust container's default: it holds little at any size
+const HEADER_RESERVE = 1024; // Bytes kept free in every image for the length prefix and header
+// The robust container cannot spare HEADER_RESERVE, so plans assume the length prefix and the
+// header of a lossy copy with a short file name, its duration and the default artwork style:
+// 110 bytes, 106 of them header
+const ROBUST_HEADER_RESERVE = 110;
+const MAX_HEADER_LENGTH = 4096; // Anything longer means the length prefix itself is damaged
+
+// The preamble is a short block at a fixed depth of 1 bit per channel at the very start of the
+// image. It tells the decoder the depth and layout of everything after it. Since version 2 a
+// second copy sits in the last pixels, in case the first one is painted over.
+const PREAMBLE_MAGIC = new TextEncoder().encode('ORBT');
+const PREAMBLE_VERSION = 2;
+const PREAMBLE_LENGTH = 16; // magic(4) version(1) depth(1) layout(1) parity(1) frameLength(4) crc32(4)
+const PREAMBLE_BITS_PER_CHANNEL = 1;
+const PREAMBLE_PIXELS = Math.ceil(PREAMBLE_LENGTH * 8 / PREAMBLE_BITS_PER_CHANNEL / 3);
+export const LAYOUT_RASTER = 0; // Payload fills pixels in reading order right after the preamble
+export const LAYOUT_SCATTERED = 1; // Payload follows a key-seeded permutation of every channel after the preamble
+const PROGRESS_SLOT_MASK = (1 << 18) - 1; // The bit loops report progress once per 2^18 channel slots
+
+// PNG chunk holding the frame in the chunk container. Lowercase first, second and
+// fourth letters mark it ancillary, private and safe to copy.
+export const ORBIT_CHUNK_TYPE = 'orBt';
+
+/** Reed-Solomon parity bytes per 255-byte codeword for each redundancy level. */
+export const ERROR_CORRECTION_PARITY: Record<ErrorCorrectionLevel, number> = {
+    none: 0,
+    low: 16, // Repairs up to 3% of bytes
+    medium: 32, // Repairs up to 6% of bytes
+    high: 64, // Repairs up to 12.5% of bytes
+};
+
+/** Pixels of an image in RGBA order, four bytes per pixel. `ImageData` fits as is. */
+export interface RgbaImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+export interface Preamble {
+    version: number;
+    bitsPerChannel: number;
+    layout: number;
+    paritySymbols: number; // 0 when the frame is embedded without error correction
+    frameLength: number; // Length of the frame before error correction was added
+}
+
+/**
+ * One orbit to decode: its pixels, or the frame found in its PNG chunk when the
+ * orbit was written in the chunk container.
+ */
+export type OrbitSource = { name: string } & ({ image: RgbaImage } | { frame: Uint8Array });
+
+/** One decoded image of a set, before the parts are joined. */
+export interface DecodedPart {
+    header: StegoHeader;
+    payload: Uint8Array;
+    correctedErrors: number;
+}
+
+/** The set an orbit belongs to, as its header names it. */
+export interface PartIdentity {
+    setId: string;
+    partCount: number;
+}
+
+/** What `inspectPart` found in one orbit. Byte counts are of the frame, header included. */
+export interface PartInspection {
+    preamble: Preamble | null; // null in the chunk container and in images without a readable preamble
+    robustGrid?: number; // Cells per side of the robust layer, when the image carries one
+    capacityBytes: number; // What the image's low bits hold at the depth read, or the chunk's length
+    usedBytes?: number; // What the preamble or header says was embedded, error correction included
+    headerText?: string; // The header as read, even when it fails its checks
+    header?: StegoHeader;
+    availablePayloadBytes?: number; // Bytes after the header, to set against its payloadLength
+    correctedErrors?: number; // Set when the image decodes
+    error?: { code: CodecErrorCode; message: string }; // Why it does not
+}
+
+/** Header fields chosen by the encoder; the remaining ones are derived from the payload. */
+type HeaderFields = Omit<StegoHeader, 'magic' | 'version' | 'payloadLength' | 'payloadChecksum' | 'headerChecksum'>;
+
+// --- ENCODING ---
+
+/**
+ * Hides an audio file in copies of the given artwork, one per part. The whole
+ * file is compressed (when that helps) and encrypted (with a passphrase) before
+ * it is split into parts that each fit a single image. Artwork given as a
+ * function is drawn once the payload's length is known, so it can be sized for it.
+ */
+export const encodeOrbitPixels = async (
+    artwork: RgbaImage | ((payloadLength: number) => RgbaImage),
+    audioBytes: ArrayBuffer,
+    mimeType: string,
+    options: LossyEncodeOptions,
+    report: ProgressReporter,
+): Promise<Omit<EncodeResult, 'images'> & { parts: Uint8ClampedArray[] }> => {
+    const bitsPerChannel = options.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL;
+    if (!Number.isInteger(bitsPerChannel) || bitsPerChannel < MIN_BITS_PER_CHANNEL || bitsPerChannel > MAX_BITS_PER_CHANNEL) {
+        throw new Error(`Bit depth must be between ${MIN_BITS_PER_CHANNEL} and ${MAX_BITS_PER_CHANNEL} bits per channel.`);
+    }
+
+    const { payload, contentLength, entryCount, compression, encryption } = await preparePayload(audioBytes, mimeType, options, report);
+    if (typeof artwork === 'function') artwork = artwork(payload.byteLength);
+
+    const paritySymbols = ERROR_CORRECTION_PARITY[options.errorCorrection ?? 'none'];
+    const partSize = getImageCapacity(bitsPerChannel, options.errorCorrection, artwork.width);
+    const partCount = Math.max(1, Math.ceil(payload.byteLength / partSize));
+    const setId = createSetId(payload, partSize);
+    const parts: Uint8ClampedArray[] = [];
+
+    for (let partIndex = 0; partIndex < partCount; partIndex++) {
+        const message = partCount > 1 ? `Embedding part ${partIndex + 1} of ${partCount}...` : undefined;
+        const partReport = forItem(report, partIndex, partCount);
+        partReport('embedding', 0, message);
+        const image = { data: new Uint8ClampedArray(artwork.data), width: artwork.width, height: artwork.height };
+        const partBytes = payload.slice(partIndex * partSize, (partIndex + 1) * partSize);
+        const onBits = (fraction: number) => partReport('embedding', fraction, message);
+        embedDataInPixels(image, partBytes, { scatterKey: options.scatterKey, paritySymbols, onProgress: onBits }, {
+            mimeType,
+            bitsPerChannel,
+            partIndex,
+            partCount,
+            setId,
+            totalLength: payload.byteLength,
+            ...namedFields(options),
+            ...(compression && { compression }),
+            ...(encryption && { encryption }),
+            ...(options.transcoding && { transcoding: options.transcoding }),
+            ...(entryCount !== undefined && { entryCount }),
+        });
+        parts.push(image.data);
+    }
+
+    return {
+        parts,
+        originalBytes: contentLength,
+        embeddedBytes: payload.byteLength,
+        compressed: !!compression,
+        capacityBytes: partSize * partCount,
+        container: 'pixels',
+        ...(options.transcoding && { transcoding: options.transcoding }),
+    };
+};
+
+/**
+ * Frames an audio file for the chunk container: the same header and payload
+ * that `encodeOrbitPixels` embeds, stored whole in a PNG chunk instead of being
+ * split over pixels. Depth, scatter and error correction do not apply.
+ */
+export const encodeOrbitFrame = async (
+    audioBytes: ArrayBuffer,
+    mimeType: string,
+    options: LossyEncodeOptions,
+    report: ProgressReporter,
+): Promise<Omit<EncodeResult, 'images'> & { frame: Uint8Array }> => {
+    const { payload, contentLength, entryCount, compression, encryption } = await preparePayload(audioBytes, mimeType, options, report);
+    const frame = buildFrame(payload, {
+        mimeType,
+        bitsPerChannel: 0, // No pixel bits carry this frame
+        ...namedFields(options),
+        ...(compression && { compression }),
+        ...(encryption && { encryption }),
+        ...(options.transcoding && { transcoding: options.transcoding }),
+        ...(entryCount !== undefined && { entryCount }),
+    });
+
+    return {
+        frame,
+        originalBytes: contentLength,
+        embeddedBytes: payload.byteLength,
+        compressed: !!compression,
+        capacityBytes: Infinity,
+        container: 'chunk',
+        ...(options.transcoding && { transcoding: options.transcoding }),
+    };
+};
+
+/**
+ * Hides an audio file in one copy of the artwork in the robust container, which
+ * survives JPEG conversion and resizing but holds only a few hundred bytes to
+ * a couple of kilobytes. The frame must fit one image; depth, scatter and error
+ * correction do not apply, as the container has its own. Artwork given as a
+ * function is drawn once the payload's length is known.
+ */
+export const encodeOrbitRobust = async (
+    artwork: RgbaImage | ((payloadLength: number) => RgbaImage),
+    audioBytes: ArrayBuffer,
+    mimeType: string,
+    options: LossyEncodeOptions,
+    report: ProgressReporter,
+): Promise<Omit<EncodeResult, 'images'> & { parts: Uint8ClampedArray[] }> => {
+    const { payload, contentLength, entryCount, compression, encryption } = await preparePayload(audioBytes, mimeType, options, report);
+    if (typeof artwork === 'function') artwork = artwork(payload.byteLength);
+    const frame = buildFrame(payload, {
+        mimeType,
+        bitsPerChannel: 0, // No pixel bits carry this frame
+        ...namedFields(options),
+        ...(compression && { compression }),
+        ...(encryption && { encryption }),
+        ...(options.transcoding && { transcoding: options.transcoding }),
+        ...(entryCount !== undefined && { entryCount }),
+    });
+
+    // What is left for the payload besides this frame's own header
+    const capacityBytes = robustCapacity(artwork.width) - (frame.length - payload.byteLength);
+    if (payload.byteLength > capacityBytes) {
+        throw new Error(
+            `The robust container holds ${Math.max(0, capacityBytes)} bytes of audio at ${artwork.width}x${artwork.height}, but this needs ${payload.byteLength}. ` +
+            'Embed a lossy copy, use a larger canvas, or store it in the pixels instead.'
+        );
+    }
+
+    report('embedding', 0);
+    const image = { data: new Uint8ClampedArray(artwork.data), width: artwork.width, height: artwork.height };
+    embedRobust(image, frame, fraction => report('embedding', fraction));
+
+    return {
+        parts: [image.data],
+        originalBytes: contentLength,
+        embeddedBytes: payload.byteLength,
+        compressed: !!compression,
+        capacityBytes,
+        container: 'robust',
+        ...(options.transcoding && { transcoding: options.transcoding }),
+    };
+};
+
+/** The header fields for the audio's name, when it has a usable one, and its non-empty tags. */
+const namedFields = ({ fileName, metadata = {} }: EncodeOptions): Pick<HeaderFields, 'fileName' | 'metadata'> => {
+    const name = fileName && safeFileName(fileName);
+    const tags = Object.entries(metadata)
+        .map(([key, value]) => [key.trim(), value.trim()])
+        .filter(([key, value]) => key && value);
+    return {
+        ...(name && { fileName: name }),
+        ...(tags.length > 0 && { metadata: Object.fromEntries(tags) }),
+    };
+};
+
+/** What an encode embeds in place of the audio file when it is a lossy copy. */
+export type LossyEncodeOptions = EncodeOptions & { transcoding?: TranscodingParams };
+
+/**
+ * Packs the audio with its attachments when it has any, then compresses (when
+ * that helps) and encrypts (with a passphrase) the whole of it before it is framed.
+ */
+const preparePayload = async (
+    audioBytes: ArrayBuffer,
+    mimeType: string,
+    options: EncodeOptions,
+    report: ProgressReporter,
+): Promise<{
+    payload: ArrayBuffer;
+    contentLength: number;
+    entryCount?: number;
+    compression?: CompressionParams;
+    encryption?: EncryptionParams;
+}> => {
+    // We embed the original file bytes to preserve headers and format
+    let content = audioBytes;
+    let entryCount: number | undefined;
+    if (options.attachments?.length) {
+        const entries = [
+            { name: primaryEntryName(options.fileName, mimeType), mimeType, data: new Uint8Array(audioBytes) },
+            ...options.attachments.map(attachment => ({ ...attachment, name: safeFileName(attachment.name) })),
+        ];
+        content = packArchive(entries).buffer as ArrayBuffer;
+        entryCount = entries.length;
+    }
+
+    let payload = content;
+    let compression: CompressionParams | undefined;
+    if (options.compress ?? true) {
+        report('compressing');
+        const { bytes, method } = await compressPayload(content);
+        if (method) {
+            payload = bytes;
+            compression = { method, uncompressedLength: content.byteLength };
+        }
+    }
+
+    let encryption: EncryptionParams | undefined;
+    if (options.passphrase) {
+        report('encrypting');
+        ({ ciphertext: payload, params: encryption } = await encryptPayload(payload, options.passphrase));
+    }
+    return { payload, contentLength: content.byteLength, entryCount, compression, encryption };
+};
+
+/** The name the audio goes by in an archive: its own, or one made from its type. */
+export const primaryEntryName = (fileName: string | undefined, mimeType: string): string =>
+    (fileName && safeFileName(fileName)) || `audio${extensionForMimeType(mimeType)}`;
+
+/**
+ * Checks a requested canvas size against the ones the encoder draws at. With
+ * none given the robust container takes the largest, any other the smallest.
+ */
+export const resolveCanvasSize = (canvasSize?: number, container?: OrbitContainer): number => {
+    const size = canvasSize ?? (container === 'robust' ? ROBUST_CANVAS_SIZE : CANVAS_SIZE);
+    if (!CANVAS_SIZES.includes(size)) {
+        throw new Error(`The canvas must be ${CANVAS_SIZES.slice(0, -1).join(', ')} or ${CANVAS_SIZES[CANVAS_SIZES.length - 1]} pixels wide, got ${size}.`);
+    }
+    return size;
+};
+
+/**
+ * The smallest canvas from `minSize` up that holds the payload in one image,
+ * or the largest one when none does.
+ */
+export const fitCanvasSize = (
+    payloadLength: number,
+    bitsPerChannel: number,
+    errorCorrection: ErrorCorrectionLevel = 'none',
+    minSize = CANVAS_SIZE,
+): number => CANVAS_SIZES.find(size => size >= minSize && getImageCapacity(bitsPerChannel, errorCorrection, size) >= payloadLength)
+    ?? Math.max(minSize, CANVAS_SIZES[CANVAS_SIZES.length - 1]);
+
+/**
+ * Bytes of audio the robust container holds at a canvas size, assuming a
+ * header of ordinary length; encoding checks the frame it really builds.
+ */
+export const getRobustCapacity = (canvasSize = ROBUST_CANVAS_SIZE): number =>
+    Math.max(0, robustCapacity(canvasSize) - ROBUST_HEADER_RESERVE);
+
+/**
+ * The smallest canvas from `minSize` up whose robust container holds the
+ * payload, or the largest one when none does.
+ */
+export const fitRobustCanvasSize = (payloadLength: number, minSize = CANVAS_SIZE): number =>
+    CANVAS_SIZES.find(size => size >= minSize && getRobustCapacity(size) >= payloadLength)
+    ?? Math.max(minSize, CANVAS_SIZES[CANVAS_SIZES.length - 1]);
+
+/**
+ * Bytes of audio a single orbit image can hold at the given depth, redundancy
+ * and canvas size, after the preambles, error correction and the space
+ * reserved for the header.
+ */
+export const getImageCapacity = (
+    bitsPerChannel: number,
+    errorCorrection: ErrorCorrectionLevel = 'none',
+    canvasSize = CANVAS_SIZE,
+): number => {
+    const rawCapacity = Math.floor(dataPixels(canvasSize * canvasSize, PREAMBLE_VERSION) * 3 * bitsPerChannel / 8);
+    const paritySymbols = ERROR_CORRECTION_PARITY[errorCorrection];
+    return (paritySymbols > 0 ? unprotectedCapacity(rawCapacity, paritySymbols) : rawCapacity) - HEADER_RESERVE;
+};
+
+/**
+ * Pixels available to the frame: everything after the leading preamble, minus
+ * the trailing copy that version 2 preambles add.
+ */
+const dataPixels = (pixelCount: number, preambleVersion: number): number =>
+    Math.max(0, pixelCount - (preambleVersion >= 2 ? 2 : 1) * PREAMBLE_PIXELS);
+
+/**
+ * Derives the short identifier shared by every image of one encoded file from
+ * the embedded bytes and the part size, so encoding the same file with the same
+ * settings repeats it while sets split differently never mix. Encrypted
+ * payloads use a fresh salt and nonce each time and so get a new identifier.
+ */
+const createSetId = (payload: ArrayBuffer, partSize: number): string => {
+    const checksum = crc32(new TextEncoder().encode(String(partSize)), crc32(new Uint8Array(payload)));
+    return checksum.toString(16).padStart(8, '0') + (payload.byteLength & 0xFFFF).toString(16).padStart(4, '0');
+};
+
+/**
+ * Frames the payload behind its header: a 32-bit big-endian header length,
+ * the binary header, then the payload bytes.
+ */
+const buildFrame = (payload: ArrayBuffer, fields: HeaderFields): Uint8Array => {
+    const headerBytes = writeHeader({
+        magic: MAGIC_NUMBER,
+        version: HEADER_VERSION,
+        ...fields,
+        payloadLength: payload.byteLength,
+        payloadChecksum: crc32(new Uint8Array(payload)),
+    });
+    if (4 + headerBytes.length > HEADER_RESERVE) {
+        throw new Error(`The header takes ${headerBytes.length} bytes, more than the ${HEADER_RESERVE - 4} kept for it. Shorten the metadata.`);
+    }
+
+    const headerLengthBytes = new Uint8Array(4); // 32-bit integer for header length
+    new DataView(headerLengthBytes.buffer).setUint32(0, headerBytes.length, false); // Big-endian
+
+    const frame = new Uint8Array(headerLengthBytes.length + headerBytes.length + payload.byteLength);
+    frame.set(headerLengthBytes, 0);
+    frame.set(headerBytes, headerLengthBytes.length);
+    frame.set(new Uint8Array(payload), headerLengthBytes.length + headerBytes.length);
+    return frame;
+};
+
+/**
+ * Hides the framed payload after the preamble. With a scatter key the frame's
+ * bits are spread over a key-seeded permutation of every channel in the image
+ * instead of filling it from the top. With parity symbols the frame is first
+ * wrapped in interleaved Reed-Solomon codewords.
+ */
+const embedDataInPixels = (
+    image: RgbaImage,
+    payload: ArrayBuffer,
+    layoutOptions: { scatterKey?: string; paritySymbols: number; onProgress?: (fraction: number) => void },
+    fields: HeaderFields,
+) => {
+    const { scatterKey, paritySymbols, onProgress } = layoutOptions;
+    const frame = buildFrame(payload, fields);
+    const embedded = paritySymbols > 0 ? rsProtect(frame, paritySymbols) : frame;
+    const { bitsPerChannel } = fields;
+
+    const { width, height, data } = image;
+    const pixels = dataPixels(width * height, PREAMBLE_VERSION);
+    const capacity = Math.floor(pixels * 3 * bitsPerChannel / 8); // in bytes
+    if (embedded.length > capacity) {
+        throw new Error(`Audio file is too large (${(embedded.length / 1024 / 1024).toFixed(2)}MB) for a ${width}x${height} image.`);
+    }
+
+    const order = scatterKey ? createScatterOrder(scatterKey, pixels * 3, Math.ceil(embedded.length * 8 / bitsPerChannel)) : undefined;
+    writePreamble(data, {
+        version: PREAMBLE_VERSION,
+        bitsPerChannel,
+        layout: order ? LAYOUT_SCATTERED : LAYOUT_RASTER,
+        paritySymbols,
+        frameLength: frame.length,
+    });
+    writeBits(data, PREAMBLE_PIXELS, embedded, bitsPerChannel, order, onProgress);
+};
+
+/**
+ * Writes the preamble into the first pixels and a copy into the last ones.
+ */
+const writePreamble = (data: Uint8ClampedArray, preamble: Preamble) => {
+    const bytes = new Uint8Array(PREAMBLE_LENGTH);
+    const view = new DataView(bytes.buffer);
+    bytes.set(PREAMBLE_MAGIC, 0);
+    bytes[4] = preamble.version;
+    bytes[5] = preamble.bitsPerChannel;
+    bytes[6] = preamble.layout;
+    bytes[7] = preamble.paritySymbols;
+    view.setUint32(8, preamble.frameLength, false);
+    view.setUint32(PREAMBLE_LENGTH - 4, crc32(bytes.subarray(0, PREAMBLE_LENGTH - 4)), false);
+    writeBits(data, 0, bytes, PREAMBLE_BITS_PER_CHANNEL);
+    writeBits(data, data.length / 4 - PREAMBLE_PIXELS, bytes, PREAMBLE_BITS_PER_CHANNEL);
+};
+
+/**
+ * Builds the order in which channel slots are visited for a scatter key: a
+ * Fisher-Yates shuffle driven by `mulberry32`, seeded from the key's CRC-32.
+ * Only the first `needed` positions are shuffled; because the shuffle runs
+ * front to back they are the same as in a full shuffle of every slot.
+ */
+const createScatterOrder = (scatterKey: string, slotCount: number, needed = slotCount): Uint32Array => {
+    const random = mulberry32(crc32(new TextEncoder().encode(scatterKey)));
+    const order = new Uint32Array(slotCount);
+    for (let i = 0; i < slotCount; i++) order[i] = i;
+
+    for (let i = 0; i < Math.min(needed, slotCount - 1); i++) {
+        const j = i + Math.floor(random() * (slotCount - i));
+        const swap = order[i];
+        order[i] = order[j];
+        order[j] = swap;
+    }
+    return order.subarray(0, Math.min(needed, slotCount));
+};
+
+/**
+ * Maps the n-th channel slot after `startPixel` to its index in the RGBA data.
+ */
+const slotToIndex = (startPixel: number, slot: number): number => (startPixel + Math.floor(slot / 3)) * 4 + slot % 3;
+
+/**
+ * Writes bytes into the low bits of the R, G and B channels from `startPixel` on,
+ * visiting channels in raster order or in the given slot order. Bits are consumed
+ * least significant first, so every depth packs densely even when a channel's
+ * bits straddle two bytes.
+ */
+const writeBits = (
+    data: Uint8ClampedArray,
+    startPixel: number,
+    bytes: Uint8Array,
+    bitsPerChannel: number,
+    order?: Uint32Array,
+    onProgress?: (fraction: number) => void,
+) => {
+    const clearMask = (0xFF << bitsPerChannel) & 0xFF;
+    const totalBits = bytes.length * 8;
+    const slotCount = order ? order.length : Math.max(0, data.length / 4 - startPixel) * 3;
+    let bitPos = 0;
+
+    for (let n = 0; n < slotCount && bitPos < totalBits; n++) {
+        const index = slotToIndex(startPixel, order ? order[n] : n);
+        let bitsToEmbed = 0;
+        for (let k = 0; k < bitsPerChannel && bitPos < totalBits; k++, bitPos++) {
+            bitsToEmbed |= ((bytes[bitPos >> 3] >> (bitPos & 7)) & 1) << k;
+        }
+        data[index] = (data[index] & clearMask) | bitsToEmbed;
+        if (onProgress && (n & PROGRESS_SLOT_MASK) === 0) onProgress(bitPos / totalBits);
+    }
+};
+
+// --- DECODING ---
+
+/**
+ * Decodes one or more orbits back into the audio file they carry. The images of
+ * a multi-part set may be given in any order; missing or foreign parts are
+ * reported by number.
+ */
+export const decodeOrbits = async (
+    sources: OrbitSource[],
+    report: ProgressReporter,
+    options: DecodeOptions = {},
+): Promise<{
+    header: StegoHeader;
+    bytes: Uint8Array;
+    mimeType: string;
+    fileName?: string;
+    metadata?: AudioMetadata;
+    attachments: OrbitAttachment[];
+    transcoding?: TranscodingParams;
+    correctedErrors: number;
+}> => {
+    // Orbits scattered without a separate key used the passphrase as their key
+    const scatterKey = options.scatterKey || options.passphrase;
+    const parts: DecodedPart[] = [];
+    let correctedErrors = 0;
+    for (let i = 0; i < sources.length; i++) {
+        const part = decodePart(sources[i], scatterKey, forItem(report, i, sources.length));
+        parts.push(part);
+        correctedErrors += part.correctedErrors;
+    }
+
+    report('assembling');
+    const { header, bytes } = assembleParts(parts);
+    const { encryption, compression } = header;
+
+    let audioBytes: Uint8Array = bytes;
+    if (encryption) {
+        if (!options.passphrase) throw new PassphraseRequiredError();
+        report('decrypting');
+        try {
+            audioBytes = new Uint8Array(await decryptPayload(bytes, options.passphrase, encryption));
+        } catch {
+            // Every part already passed its checksum, so the ciphertext is intact
+            throw new WrongPassphraseError();
+        }
+    }
+
+    if (compression) {
+        report('decompressing');
+        try {
+            audioBytes = await decompressPayload(audioBytes, compression.method, compression.uncompressedLength);
+        } catch (error) {
+            if (error instanceof OrbitCodecError) throw error;
+            throw new PayloadChecksumError('The embedded audio could not be decompressed.');
+        }
+        if (audioBytes.byteLength !== compression.uncompressedLength) {
+            throw new TruncatedPayloadError(
+                `The decompressed audio is ${audioBytes.byteLength} bytes but ${compression.uncompressedLength} were embedded.`
+            );
+        }
+    }
+
+    // The name comes from the image, so it is cleaned again before anyone writes a file under it
+    const fileName = typeof header.fileName === 'string' ? safeFileName(header.fileName) || undefined : undefined;
+    let attachments: OrbitAttachment[] = [];
+    if (header.entryCount !== undefined) {
+        let entries: OrbitAttachment[];
+        try {
+            entries = unpackArchive(audioBytes);
+        } catch (error) {
+            throw new PayloadChecksumError(`The embedded archive could not be read: ${(error as Error).message}`);
+        }
+        if (entries.length !== header.entryCount || entries.length === 0) {
+            throw new PayloadChecksumError(`The embedded archive holds ${entries.length} files but the header lists ${header.entryCount}.`);
+        }
+        audioBytes = entries[0].data;
+        // Attachment names come from the image too, and must not clash with the audio's
+        const taken = new Set([primaryEntryName(fileName, header.mimeType.replace(/\0+$/, '')).toLowerCase()]);
+        attachments = entries.slice(1).map(entry => ({
+            ...entry,
+            name: uniqueFileName(safeFileName(entry.name) || 'attachment.bin', taken),
+        }));
+    }
+
+    const { metadata, transcoding } = header;
+    if (transcoding) {
+        // Few players read μ-law or ADPCM WAV, so lossy copies come back as 16-bit PCM
+        try {
+            audioBytes = encodeWav(parseWav(audioBytes));
+        } catch {
+            throw new PayloadChecksumError('The embedded lossy copy is not a readable WAV file.');
+        }
+        return { header, bytes: audioBytes, mimeType: 'audio/wav', fileName, metadata, attachments, transcoding, correctedErrors };
+    }
+    return { header, bytes: audioBytes, mimeType: header.mimeType.replace(/\0+$/, ''), fileName, metadata, attachments, correctedErrors };
+};
+
+/**
+ * Extracts, repairs and parses the frame of one orbit. A frame read from a PNG
+ * chunk is parsed as it is, relying on the frame's own checksums.
+ */
+export const decodePart = (
+    source: OrbitSource,
+    scatterKey: string | undefined,
+    report: ProgressReporter,
+): DecodedPart => {
+    const fileName = source.name;
+    if ('frame' in source) {
+        report('extracting', 1, 'Parsing header...');
+        return { ...parseFrame(source.frame, fileName), correctedErrors: 0 };
+    }
+
+    // Reading the bits takes most of a part's time, repairing them the rest
+    report('extracting');
+    const { bytes, preamble } = extractDataFromPixels(source.image, scatterKey, fraction => report('extracting', fraction * 0.7));
+
+    try {
+        let frame = bytes;
+        let correctedErrors = 0;
+        if (preamble && preamble.paritySymbols > 0) {
+            report('extracting', 0.7, 'Correcting errors...');
+            const recovered = rsRecover(bytes, preamble.frameLength, preamble.paritySymbols);
+            if (!recovered) {
+                throw new UncorrectableDataError(`${fileName} is damaged beyond what its error correction can repair.`);
+            }
+            ({ data: frame, correctedErrors } = recovered);
+        }
+
+        report('extracting', 1, 'Parsing header...');
+        return { ...parseFrame(frame, fileName), correctedErrors };
+    } catch (error) {
+        // Without a preamble or a header in the low bits, the image may carry a robust layer instead
+        if (!preamble && error instanceof NotAnOrbitError) {
+            const robust = decodeRobustPart(source.image, fileName, report);
+            if (robust) return robust;
+        }
+        // With the wrong key the permutation lands on unrelated bits, which look like no orbit at all
+        if (preamble?.layout === LAYOUT_SCATTERED && (error instanceof NotAnOrbitError || error instanceof UncorrectableDataError)) {
+            throw new WrongScatterKeyError(fileName);
+        }
+        throw error;
+    }
+};
+
+/** Grid sizes a robust layer may use: one per canvas size, as resized copies keep the grid. */
+const ROBUST_GRIDS = CANVAS_SIZES.map(size => size / ROBUST_CELL_SIZE);
+
+/**
+ * Reads the robust layer of an image, or returns null when it has none. An
+ * image with one but too damaged to repair fails as such.
+ */
+const decodeRobustPart = (image: RgbaImage, fileName: string, report: ProgressReporter): DecodedPart | null => {
+    const grid = detectRobustGrid(image, ROBUST_GRIDS);
+    if (grid === null) return null;
+
+    report('extracting', 0.7, 'Reading the robust layer...');
+    const recovered = extractRobust(image, grid);
+    if (!recovered) {
+        throw new UncorrectableDataError(`${fileName} has a robust layer, but it was recompressed or resized beyond what its error correction can repair.`);
+    }
+    report('extracting', 1, 'Parsing header...');
+    return { ...parseFrame(recovered.data, fileName), correctedErrors: recovered.correctedErrors };
+};
+
+/**
+ * Reads which set an orbit belongs to from its header, without checking the
+ * payload, so parts can be grouped whatever their files are called. Returns
+ * null when no intact header with a set id can be read: in images that are no
+ * orbit, scattered ones without their key, or ones damaged beyond repair.
+ */
+export const identifyPart = (source: OrbitSource, scatterKey: string | undefined): PartIdentity | null => {
+    let frame: Uint8Array | null = null;
+    if ('frame' in source) {
+        frame = source.frame;
+    } else {
+        try {
+            const { bytes, preamble } = extractDataFromPixels(source.image, scatterKey);
+            frame = preamble && preamble.paritySymbols > 0
+                ? rsRecover(bytes, preamble.frameLength, preamble.paritySymbols)?.data ?? null
+                : bytes;
+            // Without a preamble or a header in the low bits, the image may carry a robust layer instead
+            if (!preamble && signatureMatch(bytes.subarray(4)) < 0.5) {
+                const grid = detectRobustGrid(source.image, ROBUST_GRIDS);
+                frame = grid === null ? null : extractRobust(source.image, grid)?.data ?? null;
+            }
+        } catch {
+            // Scattered without a key given, or an unknown layout
+        }
+    }
+    if (!frame || frame.length < 4 + MIN_HEADER_LENGTH) return null;
+
+    const headerLength = new DataView(frame.buffer, frame.byteOffset, 4).getUint32(0, false);
+    if (headerLength > MAX_HEADER_LENGTH || 4 + headerLength > frame.length) return null;
+    try {
+        const { setId, partCount = 1 } = readHeader(frame.subarray(4, 4 + headerLength), source.name);
+        return setId ? { setId, partCount } : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Reads one orbit for the inspector: what its preamble and header claim and
+ * how much data it really holds, whether or not it decodes. Nothing here
+ * throws for a damaged image; the reason `decodePart` gives up is kept in `error`.
+ */
+export const inspectPart = (source: OrbitSource, scatterKey: string | undefined): PartInspection => {
+    let error: PartInspection['error'];
+    let correctedErrors: number | undefined;
+    try {
+        ({ correctedErrors } = decodePart(source, scatterKey, () => {}));
+    } catch (caught) {
+        if (!(caught instanceof OrbitCodecError)) throw caught;
+        error = { code: caught.code, message: caught.message };
+    }
+
+    if ('frame' in source) {
+        const frameLength = source.frame.length;
+        return { preamble: null, capacityBytes: frameLength, usedBytes: frameLength, correctedErrors, error, ...peekHeader(source.frame) };
+    }
+
+    const { image } = source;
+    let preamble: Preamble | null = null;
+    try {
+        preamble = readPreamble(image.data);
+    } catch {
+        // A preamble from a newer format: `error` already says so
+    }
+    const robustGrid = preamble ? null : detectRobustGrid(image, ROBUST_GRIDS);
+    if (robustGrid !== null) {
+        const frame = extractRobust(image, robustGrid)?.data;
+        const peeked = frame ? peekHeader(frame) : {};
+        const usedBytes = frame && peeked.header && peeked.availablePayloadBytes !== undefined
+            ? frame.length - peeked.availablePayloadBytes + peeked.header.payloadLength
+            : undefined;
+        return { preamble, robustGrid, capacityBytes: robustCapacity(robustGrid * ROBUST_CELL_SIZE), usedBytes, correctedErrors, error, ...peeked };
+    }
+
+    const pixelCount = image.width * image.height;
+    const capacityBytes = preamble
+        ? Math.floor(dataPixels(pixelCount, preamble.version) * 3 * preamble.bitsPerChannel / 8)
+        : Math.floor(pixelCount * 3 * LEGACY_BITS_PER_CHANNEL / 8);
+
+    let frame: Uint8Array | null = null;
+    try {
+        frame = extractDataFromPixels(image, scatterKey).bytes;
+    } catch {
+        // Scattered without a key given, or an unknown layout: `error` already says so
+    }
+    if (frame && preamble && preamble.paritySymbols > 0) {
+        // Show the data as read when it is beyond repair, damage and all
+        frame = rsRecover(frame, preamble.frameLength, preamble.paritySymbols)?.data
+            ?? rsDeinterleave(frame, preamble.frameLength, preamble.paritySymbols);
+    }
+
+    const peeked = frame ? peekHeader(frame) : {};
+    const usedBytes = preamble
+        ? (preamble.paritySymbols > 0 ? protectedLength(preamble.frameLength, preamble.paritySymbols) : preamble.frameLength)
+        : peeked.header && peeked.availablePayloadBytes !== undefined && frame
+            ? frame.length - peeked.availablePayloadBytes + peeked.header.payloadLength
+            : undefined;
+    return { preamble, capacityBytes, usedBytes, correctedErrors, error, ...peeked };
+};
+
+/**
+ * Reads the header of a frame as far as it goes, without the checks
+ * `parseFrame` makes. The raw header is only kept when it starts like one:
+ * as text for JSON headers, in hex for binary ones.
+ */
+const peekHeader = (frame: Uint8Array): Pick<PartInspection, 'headerText' | 'header' | 'availablePayloadBytes'> => {
+    if (frame.length < 4 + MIN_HEADER_LENGTH || signatureMatch(frame.subarray(4)) < 0.5) return {};
+
+    const headerLength = new DataView(frame.buffer, frame.byteOffset, 4).getUint32(0, false);
+    const headerBytes = frame.subarray(4, 4 + Math.min(headerLength, MAX_HEADER_LENGTH));
+    const headerText = headerBytes[0] === '{'.charCodeAt(0)
+        ? new TextDecoder().decode(headerBytes)
+        : Array.from(headerBytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+    if (headerLength > MAX_HEADER_LENGTH || 4 + headerLength > frame.length) return { headerText };
+    try {
+        const header = readHeader(headerBytes, '', false);
+        return { headerText, header, availablePayloadBytes: frame.length - 4 - headerLength };
+    } catch {
+        return { headerText };
+    }
+};
+
+/**
+ * Splits extracted bytes into header and payload, verifying both checksums.
+ * Headers written before checksums were introduced are accepted unverified.
+ */
+const parseFrame = (extractedBytes: Uint8Array, fileName: string): { header: StegoHeader; payload: Uint8Array } => {
+    if (extractedBytes.length < 4 + MIN_HEADER_LENGTH) {
+        throw new TruncatedPayloadError(`${fileName} is too small to hold an Audio Orbit header.`);
+    }
+
+    // Judge the signature before trusting anything else: a few damaged bytes still
+    // look mostly like an orbit header, while an unrelated image matches almost nothing
+    if (signatureMatch(extractedBytes.subarray(4)) < 0.5) {
+        throw new NotAnOrbitError(`${fileName} is not a valid Audio Orbit image. This may be a different type of encoded image.`);
+    }
+
+    const headerLength = new DataView(extractedBytes.buffer, extractedBytes.byteOffset, 4).getUint32(0, false);
+    if (headerLength > MAX_HEADER_LENGTH || 4 + headerLength > extractedBytes.length) {
+        throw new HeaderCorruptError(`${fileName} has a damaged header length (${headerLength} bytes).`);
+    }
+
+    const header = readHeader(extractedBytes.subarray(4, 4 + headerLength), fileName);
+
+    const payloadOffset = 4 + headerLength;
+    if (payloadOffset + header.payloadLength > extractedBytes.length) {
+        throw new TruncatedPayloadError(
+            `${fileName} holds ${extractedBytes.length - payloadOffset} payload bytes but its header expects ${header.payloadLength}.`
+        );
+    }
+
+    const payload = extractedBytes.slice(payloadOffset, payloadOffset + header.payloadLength);
+    if (header.payloadChecksum !== undefined && crc32(payload) !== header.payloadChecksum) {
+        throw new PayloadChecksumError(`${fileName} contains audio data that fails its checksum.`);
+    }
+    return { header, payload };
+};
+
+/**
+ * Orders the decoded parts of one set and joins their payloads. Images made
+ * before multi-part support carry no part fields and count as a set of one.
+ */
+const assembleParts = (
+    parts: { header: StegoHeader; payload: Uint8Array }[],
+): { header: StegoHeader; bytes: Uint8Array } => {
+    if (parts.length === 0) throw new Error('No images to decode.');
+
+    const { header: first } = parts[0];
+    const setId = first.setId;
+    const partCount = first.partCount ?? 1;
+    if (parts.some(({ header }) => header.setId !== setId || (header.partCount ?? 1) !== partCount)) {
+        throw new MixedSetsError();
+    }
+
+    const ordered: Uint8Array[] = new Array(partCount);
+    parts.forEach(({ header, payload }) => {
+        ordered[header.partIndex ?? 0] = payload;
+    });
+
+    const missing: number[] = [];
+    for (let i = 0; i < partCount; i++) {
+        if (!ordered[i]) missing.push(i + 1);
+    }
+    if (missing.length > 0) {
+        throw new MissingPartsError(missing, partCount);
+    }
+
+    const totalLength = first.totalLength ?? ordered[0].length;
+    const assembledLength = ordered.reduce((sum, payload) => sum + payload.length, 0);
+    if (assembledLength !== totalLength) {
+        throw new TruncatedPayloadError(`The parts hold ${assembledLength} bytes but the set expects ${totalLength}.`);
+    }
+    const bytes = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const payload of ordered) {
+        bytes.set(payload, offset);
+        offset += payload.length;
+    }
+
+    return { header: first, bytes };
+};
+
+/**
+ * Reads every byte hidden after the preamble, following the layout it names.
+ * Images without a valid preamble predate selectable depths and are read from
+ * the first pixel at 2 bits.
+ */
+const extractDataFromPixels = (
+    image: RgbaImage,
+    scatterKey?: string,
+    onProgress?: (fraction: number) => void,
+): { bytes: Uint8Array; preamble: Preamble | null } => {
+    const { width, height, data } = image;
+
+    const preamble = readPreamble(data);
+    if (!preamble) {
+        return { bytes: readBits(data, 0, LEGACY_BITS_PER_CHANNEL, undefined, onProgress), preamble };
+    }
+
+    const pixels = dataPixels(width * height, preamble.version);
+    const region = data.subarray(0, (PREAMBLE_PIXELS + pixels) * 4);
+    if (preamble.layout === LAYOUT_RASTER) {
+        return { bytes: readBits(region, PREAMBLE_PIXELS, preamble.bitsPerChannel, undefined, onProgress), preamble };
+    }
+    if (preamble.layout === LAYOUT_SCATTERED) {
+        if (!scatterKey) throw new ScatterKeyRequiredError();
+        const order = createScatterOrder(scatterKey, pixels * 3);
+        return { bytes: readBits(region, PREAMBLE_PIXELS, preamble.bitsPerChannel, order, onProgress), preamble };
+    }
+    throw new HeaderCorruptError(`This orbit uses an unknown data layout (${preamble.layout}).`);
+};
+
+/**
+ * Reads the leading preamble, falling back to the trailing copy when the first
+ * pixels were damaged. Returns null for images that carry neither.
+ */
+export const readPreamble = (data: Uint8ClampedArray): Preamble | null => {
+    if (data.length < PREAMBLE_PIXELS * 4 * 2) return null;
+    const copies = [data.subarray(0, PREAMBLE_PIXELS * 4), data.subarray(data.length - PREAMBLE_PIXELS * 4)];
+
+    for (const copy of copies) {
+        const bytes = readBits(copy, 0, PREAMBLE_BITS_PER_CHANNEL);
+        if (PREAMBLE_MAGIC.some((byte, i) => bytes[i] !== byte)) continue;
+        const view = new DataView(bytes.buffer);
+        if (crc32(bytes.subarray(0, PREAMBLE_LENGTH - 4)) !== view.getUint32(PREAMBLE_LENGTH - 4, false)) continue;
+
+        if (bytes[4] < 1 || bytes[4] > PREAMBLE_VERSION) {
+            throw new HeaderCorruptError(`This orbit was made with a newer format version (${bytes[4]}).`);
+        }
+        if (bytes[5] < MIN_BITS_PER_CHANNEL || bytes[5] > MAX_BITS_PER_CHANNEL) {
+            throw new HeaderCorruptError(`This orbit declares an unsupported bit depth (${bytes[5]}).`);
+        }
+        return {
+            version: bytes[4],
+            bitsPerChannel: bytes[5],
+            layout: bytes[6],
+            // Version 1 preambles left these bytes zero: no error correction
+            paritySymbols: bytes[7],
+            frameLength: view.getUint32(8, false),
+        };
+    }
+    return null;
+};
+
+/**
+ * The inverse of `writeBits`: collects the low bits of every channel slot after
+ * `startPixel`, in raster order or in the given slot order, into whole bytes.
+ */
+const readBits = (
+    data: Uint8ClampedArray,
+    startPixel: number,
+    bitsPerChannel: number,
+    order?: Uint32Array,
+    onProgress?: (fraction: number) => void,
+): Uint8Array => {
+    const slotCount = order ? order.length : Math.max(0, data.length / 4 - startPixel) * 3;
+    const extractedBytes = new Uint8Array(Math.floor(slotCount * bitsPerChannel / 8));
+    const totalBits = extractedBytes.length * 8;
+    let bitPos = 0;
+
+    for (let n = 0; n < slotCount && bitPos < totalBits; n++) {
+        const value = data[slotToIndex(startPixel, order ? order[n] : n)];
+        for (let k = 0; k < bitsPerChannel && bitPos < totalBits; k++, bitPos++) {
+            extractedBytes[bitPos >> 3] |= ((value >> k) & 1) << (bitPos & 7);
+        }
+        if (onProgress && (n & PROGRESS_SLOT_MASK) === 0) onProgress(bitPos / totalBits);
+    }
+
+    return extractedBytes;
+};
@@ -0,0 +1,57 @@
+import type { EncryptionParams } from '../types';
+
+export const KDF_ITERATIONS = 250_000; // PBKDF2 rounds; high enough to slow down guessing, low enough for phones
+export const MAX_KDF_ITERATIONS = 5_000_000; // The most a header may ask for; a crafted one could otherwise stall decoding for hours
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // The recommended nonce size for AES-GCM
+export const ENCRYPTION_OVERHEAD = 16; // Bytes AES-GCM adds to the payload: its authentication tag
+
+/** Encodes the salt and IV for the header. */
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+/**
+ * Stretches a passphrase into a 256-bit AES-GCM key with PBKDF2-SHA256.
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+/**
+ * Encrypts a payload under a passphrase. The returned parameters hold everything
+ * except the passphrase that is needed to decrypt it again.
+ */
+export const encryptPayload = async (payload: ArrayBuffer, passphrase: string): Promise<{ ciphertext: ArrayBuffer; params: EncryptionParams }> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, payload);
+
+    return {
+        ciphertext,
+        params: {
+            algorithm: 'AES-GCM',
+            kdf: 'PBKDF2-SHA256',
+            iterations: KDF_ITERATIONS,
+            salt: toBase64(salt),
+            iv: toBase64(iv),
+        },
+    };
+};
+
+/**
+ * Decrypts a payload produced by `encryptPayload`. Rejects when the passphrase
+ * is wrong or the ciphertext was altered, as AES-GCM cannot tell the two apart.
+ */
+export const decryptPayload = async (ciphertext: Uint8Array, passphrase: string, params: EncryptionParams): Promise<ArrayBuffer> => {
+    const key = await deriveKey(passphrase, fromBase64(params.salt), params.iterations);
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(params.iv) }, key, ciphertext);
+};
@@ -0,0 +1,269 @@
+import type { CompressionMethod, LossyCodec, StegoHeader } from '../types';
+import { HeaderCorruptError } from './codecErrors';
+import { crc32 } from './crc32';
+import { fromBase64, KDF_ITERATIONS, MAX_KDF_ITERATIONS, toBase64 } from './orbitCrypto';
+
+// The header between the frame's length prefix and its payload. Orbits made
+// before version 2 carry it as JSON; since then it is binary:
+//
+//   magic 'AUDORB' (6) | version (1) | flags (1) | fields... | crc32 of all before (4)
+//
+// Each field is a tag byte, a 16-bit big-endian length and that many bytes, so
+// readers skip fields they do not know. The flags say what the payload went
+// through on its way in; a flag a reader does not know means it cannot undo it.
+
+export const MAGIC_NUMBER = 'AUDORB'; // Audio Orbit
+export const HEADER_VERSION = 2;
+
+const MAGIC_BYTES = new TextEncoder().encode(MAGIC_NUMBER);
+const BINARY_PREFIX = new Uint8Array([...MAGIC_BYTES, HEADER_VERSION]);
+const JSON_PREFIX = new TextEncoder().encode(`{"magic":"${MAGIC_NUMBER}"`); // How every JSON header begins
+export const MIN_HEADER_LENGTH = BINARY_PREFIX.length + 1 + 4; // Magic, version, flags and checksum
+
+const FLAG_COMPRESSED = 1 << 0;
+const FLAG_ENCRYPTED = 1 << 1;
+const FLAG_TRANSCODED = 1 << 2;
+const FLAG_ARCHIVE = 1 << 3;
+const KNOWN_FLAGS = FLAG_COMPRESSED | FLAG_ENCRYPTED | FLAG_TRANSCODED | FLAG_ARCHIVE;
+
+const FIELD_MIME_TYPE = 1; // UTF-8
+const FIELD_PAYLOAD = 2; // length u32, crc32 u32, bits per channel u8
+const FIELD_FILE_NAME = 3; // UTF-8
+const FIELD_PART = 4; // index u16, count u16, set length u32, set id
+const FIELD_COMPRESSION = 5; // uncompressed length u32, method
+const FIELD_ENCRYPTION = 6; // PBKDF2 iterations u32, salt length u8, salt, IV; always AES-GCM with PBKDF2-SHA256
+const FIELD_TRANSCODING = 7; // sample rate u32, bitrate u32, channels u8, codec u8, original MIME type
+const FIELD_METADATA = 8; // key length u8, key, value; one field per tag
+const FIELD_ARCHIVE = 9; // entry count u16
+
+const LOSSY_CODECS: LossyCodec[] = ['mu-law', 'ima-adpcm', 'ima-adpcm-2bit']; // Indexed by the codec byte
+export const MAX_METADATA_KEY_LENGTH = 64; // Bytes of UTF-8
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** An unsigned big-endian integer of `size` bytes. */
+const uint = (value: number, size: 1 | 2 | 4): Uint8Array => {
+    const bytes = new Uint8Array(size);
+    for (let i = 0; i < size; i++) bytes[i] = (value >>> (8 * (size - 1 - i))) & 0xFF;
+    return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+};
+
+const field = (tag: number, ...parts: Uint8Array[]): Uint8Array => {
+    const value = concat(parts);
+    if (value.length > 0xFFFF) throw new Error(`A header field cannot hold more than 65535 bytes, got ${value.length}.`);
+    return concat([uint(tag, 1), uint(value.length, 2), value]);
+};
+
+/**
+ * Serialises a header in the binary format. The header checksum is computed
+ * here, so any `headerChecksum` on the header is ignored.
+ */
+export const writeHeader = (header: StegoHeader): Uint8Array => {
+    const { compression, encryption, transcoding, entryCount } = header;
+    const flags = (compression ? FLAG_COMPRESSED : 0) | (encryption ? FLAG_ENCRYPTED : 0)
+        | (transcoding ? FLAG_TRANSCODED : 0) | (entryCount !== undefined ? FLAG_ARCHIVE : 0);
+
+    const fields = [
+        field(FIELD_MIME_TYPE, encoder.encode(header.mimeType.replace(/\0+$/, ''))),
+        field(FIELD_PAYLOAD, uint(header.payloadLength, 4), uint(header.payloadChecksum ?? 0, 4), uint(header.bitsPerChannel, 1)),
+    ];
+    if (header.fileName) fields.push(field(FIELD_FILE_NAME, encoder.encode(header.fileName)));
+    if (header.partCount !== undefined) {
+        fields.push(field(FIELD_PART,
+            uint(header.partIndex ?? 0, 2), uint(header.partCount, 2), uint(header.totalLength ?? header.payloadLength, 4),
+            encoder.encode(header.setId ?? '')));
+    }
+    if (compression) {
+        fields.push(field(FIELD_COMPRESSION, uint(compression.uncompressedLength, 4), encoder.encode(compression.method)));
+    }
+    if (encryption) {
+        const salt = fromBase64(encryption.salt);
+        fields.push(field(FIELD_ENCRYPTION, uint(encryption.iterations, 4), uint(salt.length, 1), salt, fromBase64(encryption.iv)));
+    }
+    if (transcoding) {
+        fields.push(field(FIELD_TRANSCODING,
+            uint(transcoding.sampleRate, 4), uint(transcoding.bitrate, 4), uint(transcoding.channels, 1),
+            uint(LOSSY_CODECS.indexOf(transcoding.codec), 1), encoder.encode(transcoding.originalMimeType)));
+    }
+    if (entryCount !== undefined) fields.push(field(FIELD_ARCHIVE, uint(entryCount, 2)));
+    for (const [key, value] of Object.entries(header.metadata ?? {})) {
+        const keyBytes = encoder.encode(key);
+        if (keyBytes.length === 0 || keyBytes.length > MAX_METADATA_KEY_LENGTH) {
+            throw new Error(`Metadata keys must be 1 to ${MAX_METADATA_KEY_LENGTH} bytes long, got "${key}".`);
+        }
+        fields.push(field(FIELD_METADATA, uint(keyBytes.length, 1), keyBytes, encoder.encode(value)));
+    }
+
+    const body = concat([BINARY_PREFIX, uint(flags, 1), ...fields]);
+    return concat([body, uint(crc32(body), 4)]);
+};
+
+/** How many bytes from the start of `bytes` agree with `prefix`, as a fraction of it. */
+const prefixMatch = (bytes: Uint8Array, prefix: Uint8Array): number =>
+    prefix.reduce((count, byte, i) => count + (bytes[i] === byte ? 1 : 0), 0) / prefix.length;
+
+/**
+ * How much the start of a header looks like either format's signature, from 0
+ * to 1. A few damaged bytes still score well above one half, while unrelated
+ * data scores close to nothing.
+ */
+export const signatureMatch = (bytes: Uint8Array): number =>
+    Math.max(prefixMatch(bytes, BINARY_PREFIX), prefixMatch(bytes, JSON_PREFIX));
+
+/**
+ * Reads a header in either format, checking its signature and checksum, and
+ * that its key derivation asks for a sane amount of work. With `verify` off
+ * nothing is checked and whatever fields can be read are returned, for the
+ * inspector to show a damaged header as it is.
+ */
+export const readHeader = (bytes: Uint8Array, name: string, verify = true): StegoHeader => {
+    const header = prefixMatch(bytes, BINARY_PREFIX) >= prefixMatch(bytes, JSON_PREFIX)
+        ? readBinaryHeader(bytes, name, verify)
+        : readJsonHeader(bytes, name, verify);
+    const iterations = header.encryption?.iterations;
+    // The checksum only proves the header is as written, not that whoever wrote it meant well
+    if (verify && iterations !== undefined
+        && !(Number.isInteger(iterations) && iterations >= KDF_ITERATIONS && iterations <= MAX_KDF_ITERATIONS)) {
+        throw new HeaderCorruptError(
+            `${name} asks for ${iterations} key derivation rounds; only ${KDF_ITERATIONS} to ${MAX_KDF_ITERATIONS} are accepted.`
+        );
+    }
+    return header;
+};
+
+const readJsonHeader = (bytes: Uint8Array, name: string, verify: boolean): StegoHeader => {
+    let header: StegoHeader;
+    try {
+        header = JSON.parse(decoder.decode(bytes));
+    } catch {
+        throw new HeaderCorruptError(`${name} has a damaged header that can no longer be read.`);
+    }
+    if (typeof header !== 'object' || header === null) {
+        throw new HeaderCorruptError(`${name} has a damaged header that can no longer be read.`);
+    }
+    if (!verify) return header;
+
+    if (header.magic !== MAGIC_NUMBER) {
+        throw new HeaderCorruptError(`${name} has a damaged header signature.`);
+    }
+    // Headers written before checksums were introduced are accepted unverified
+    if (header.headerChecksum !== undefined) {
+        const { headerChecksum, ...fields } = header;
+        if (crc32(encoder.encode(JSON.stringify(fields))) !== headerChecksum) {
+            throw new HeaderCorruptError(`${name} has a header that fails its checksum.`);
+        }
+    }
+    return header;
+};
+
+const readBinaryHeader = (bytes: Uint8Array, name: string, verify: boolean): StegoHeader => {
+    if (bytes.length < MIN_HEADER_LENGTH) {
+        throw new HeaderCorruptError(`${name} has a header too short to read (${bytes.length} bytes).`);
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const bodyLength = bytes.length - 4;
+    const headerChecksum = view.getUint32(bodyLength, false);
+    const version = bytes[MAGIC_BYTES.length];
+    const flags = bytes[MAGIC_BYTES.length + 1];
+    if (verify) {
+        if (MAGIC_BYTES.some((byte, i) => bytes[i] !== byte)) {
+            throw new HeaderCorruptError(`${name} has a damaged header signature.`);
+        }
+        if (crc32(bytes.subarray(0, bodyLength)) !== headerChecksum) {
+            throw new HeaderCorruptError(`${name} has a header that fails its checksum.`);
+        }
+        if (version > HEADER_VERSION || (flags & ~KNOWN_FLAGS) !== 0) {
+            throw new HeaderCorruptError(`${name} was made with a newer header format (version ${version}).`);
+        }
+    }
+
+    const header: StegoHeader = { magic: MAGIC_NUMBER, version, mimeType: '', payloadLength: 0, bitsPerChannel: 0, headerChecksum };
+    const text = (from: number, to: number) => decoder.decode(bytes.subarray(from, to));
+    let hasPayload = false;
+    let offset = BINARY_PREFIX.length + 1;
+    while (offset < bodyLength) {
+        if (offset + 3 > bodyLength) throw new HeaderCorruptError(`${name} has a header field cut short.`);
+        const tag = bytes[offset];
+        const start = offset + 3;
+        const end = start + view.getUint16(offset + 1, false);
+        // Every field has a fixed part; one shorter than that was damaged
+        const fits = (fixedLength: number) => {
+            if (end > bodyLength || end - start < fixedLength) throw new HeaderCorruptError(`${name} has a damaged header field (${tag}).`);
+        };
+        fits(0);
+
+        if (tag === FIELD_MIME_TYPE) {
+            header.mimeType = text(start, end);
+        } else if (tag === FIELD_PAYLOAD) {
+            fits(9);
+            header.payloadLength = view.getUint32(start, false);
+            header.payloadChecksum = view.getUint32(start + 4, false);
+            header.bitsPerChannel = bytes[start + 8];
+            hasPayload = true;
+        } else if (tag === FIELD_FILE_NAME) {
+            header.fileName = text(start, end);
+        } else if (tag === FIELD_PART) {
+            fits(8);
+            header.partIndex = view.getUint16(start, false);
+            header.partCount = view.getUint16(start + 2, false);
+            header.totalLength = view.getUint32(start + 4, false);
+            header.setId = text(start + 8, end);
+        } else if (tag === FIELD_COMPRESSION) {
+            fits(4);
+            header.compression = { uncompressedLength: view.getUint32(start, false), method: text(start + 4, end) as CompressionMethod };
+        } else if (tag === FIELD_ENCRYPTION) {
+            fits(5);
+            const saltEnd = Math.min(end, start + 5 + bytes[start + 4]);
+            header.encryption = {
+                algorithm: 'AES-GCM',
+                kdf: 'PBKDF2-SHA256',
+                iterations: view.getUint32(start, false),
+                salt: toBase64(bytes.subarray(start + 5, saltEnd)),
+                iv: toBase64(bytes.subarray(saltEnd, end)),
+            };
+        } else if (tag === FIELD_TRANSCODING) {
+            fits(10);
+            const codec = LOSSY_CODECS[bytes[start + 9]];
+            if (!codec && verify) throw new HeaderCorruptError(`${name} holds a lossy copy in an unknown codec (${bytes[start + 9]}).`);
+            header.transcoding = {
+                codec,
+                sampleRate: view.getUint32(start, false),
+                bitrate: view.getUint32(start + 4, false),
+                channels: bytes[start + 8],
+                originalMimeType: text(start + 10, end),
+            };
+        } else if (tag === FIELD_ARCHIVE) {
+            fits(2);
+            header.entryCount = view.getUint16(start, false);
+        } else if (tag === FIELD_METADATA) {
+            fits(1);
+            const keyEnd = Math.min(end, start + 1 + bytes[start]);
+            // Tags come from the image, so control characters are dropped before anything prints them
+            const clean = (value: string) => value.replace(/[\u0000-\u001F\u007F]/g, '');
+            header.metadata = { ...header.metadata, [clean(text(start + 1, keyEnd))]: clean(text(keyEnd, end)) };
+        }
+        offset = end;
+    }
+
+    if (verify) {
+        const missing = !header.mimeType
+            || !hasPayload
+            || !!(flags & FLAG_COMPRESSED) !== !!header.compression
+            || !!(flags & FLAG_ENCRYPTED) !== !!header.encryption
+            || !!(flags & FLAG_TRANSCODED) !== !!header.transcoding
+            || !!(flags & FLAG_ARCHIVE) !== (header.entryCount !== undefined);
+        if (missing) throw new HeaderCorruptError(`${name} has a header with missing fields.`);
+    }
+    return header;
+};
@@ -0,0 +1,238 @@
+import { deflateBytes, inflateBytes } from './compression';
+import { crc32 } from './crc32';
+import type { RgbaImage } from './orbitCore';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+// Colour types from the PNG specification, with the samples each pixel carries
+const CHANNELS_PER_COLOR_TYPE: Record<number, number> = {
+    0: 1, // Greyscale
+    2: 3, // RGB
+    3: 1, // Palette index
+    4: 2, // Greyscale with alpha
+    6: 4, // RGBA
+};
+
+export interface PngChunk {
+    type: string; // Four ASCII letters, e.g. 'IHDR'
+    data: Uint8Array;
+}
+
+/**
+ * Splits a PNG file into its chunks, verifying the signature and every chunk's CRC.
+ */
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+    if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+        throw new Error('Not a PNG file.');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset, false);
+        if (offset + 12 + length > bytes.length) throw new Error('PNG chunk runs past the end of the file.');
+
+        const typeAndData = bytes.subarray(offset + 4, offset + 8 + length);
+        if (crc32(typeAndData) !== view.getUint32(offset + 8 + length, false)) {
+            throw new Error('PNG chunk fails its CRC.');
+        }
+        const type = String.fromCharCode(...typeAndData.subarray(0, 4));
+        chunks.push({ type, data: typeAndData.slice(4) });
+        offset += 12 + length;
+        if (type === 'IEND') break;
+    }
+    return chunks;
+};
+
+/**
+ * Joins chunks into a PNG file, computing each chunk's length and CRC.
+ */
+export const writePngChunks = (chunks: PngChunk[]): Uint8Array => {
+    const size = chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, PNG_SIGNATURE.length);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    bytes.set(PNG_SIGNATURE, 0);
+
+    let offset = PNG_SIGNATURE.length;
+    for (const { type, data } of chunks) {
+        view.setUint32(offset, data.length, false);
+        for (let i = 0; i < 4; i++) bytes[offset + 4 + i] = type.charCodeAt(i);
+        bytes.set(data, offset + 8);
+        view.setUint32(offset + 8 + data.length, crc32(bytes.subarray(offset + 4, offset + 8 + data.length)), false);
+        offset += 12 + data.length;
+    }
+    return bytes;
+};
+
+/**
+ * Returns the data of the first chunk of the given type, or null when the file
+ * is not a PNG or has no such chunk. Only chunk boundaries are followed, so
+ * this is cheap even for large images.
+ */
+export const findPngChunk = (bytes: Uint8Array, type: string): Uint8Array | null => {
+    if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) return null;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset, false);
+        const chunkType = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (chunkType === type) return bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + length));
+        if (chunkType === 'IEND') break;
+        offset += 12 + length;
+    }
+    return null;
+};
+
+/**
+ * Adds a chunk just before IEND, replacing any existing chunks of its type.
+ * Ancillary chunks may sit anywhere after IHDR, and decoders skip the ones they
+ * do not know.
+ */
+export const insertPngChunk = (bytes: Uint8Array, chunk: PngChunk): Uint8Array => {
+    const chunks = readPngChunks(bytes).filter(({ type }) => type !== chunk.type);
+    const end = chunks.findIndex(({ type }) => type === 'IEND');
+    chunks.splice(end === -1 ? chunks.length : end, 0, chunk);
+    return writePngChunks(chunks);
+};
+
+/**
+ * Encodes RGBA pixels as an 8-bit, non-interlaced RGBA PNG.
+ */
+export const encodePng = async (image: RgbaImage): Promise<Uint8Array> => writePngChunks([
+    { type: 'IHDR', data: createImageHeader(image.width, image.height) },
+    { type: 'IDAT', data: await deflateBytes(toScanlines(image)) },
+    { type: 'IEND', data: new Uint8Array(0) },
+]);
+
+/**
+ * Builds the IHDR data of an 8-bit, non-interlaced RGBA image.
+ */
+export const createImageHeader = (width: number, height: number): Uint8Array => {
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width, false);
+    headerView.setUint32(4, height, false);
+    header[8] = 8; // Bit depth
+    header[9] = 6; // RGBA
+    // Compression, filter and interlace methods stay 0
+    return header;
+};
+
+/**
+ * Lays out a rectangle of an image as unfiltered scanlines, ready to deflate.
+ * The whole image by default.
+ */
+export const toScanlines = (
+    { data, width, height }: RgbaImage,
+    rect = { x: 0, y: 0, width, height },
+): Uint8Array => {
+    // Every scanline starts with its filter type; 0 leaves the bytes as they are,
+    // which keeps the hidden low bits from being smeared across neighbours
+    const stride = rect.width * 4;
+    const raw = new Uint8Array((stride + 1) * rect.height);
+    for (let y = 0; y < rect.height; y++) {
+        const start = ((rect.y + y) * width + rect.x) * 4;
+        raw.set(data.subarray(start, start + stride), y * (stride + 1) + 1);
+    }
+    return raw;
+};
+
+/**
+ * Decodes a non-interlaced PNG of any colour type into RGBA pixels. 16-bit
+ * samples are reduced to their high byte; lower bit depths are not supported.
+ */
+export const decodePng = async (bytes: Uint8Array): Promise<RgbaImage> => {
+    const chunks = readPngChunks(bytes);
+    const header = chunks.find(chunk => chunk.type === 'IHDR');
+    if (!header || header.data.length < 13) throw new Error('PNG file has no image header.');
+
+    const headerView = new DataView(header.data.buffer, header.data.byteOffset, header.data.byteLength);
+    const width = headerView.getUint32(0, false);
+    const height = headerView.getUint32(4, false);
+    const [bitDepth, colorType, , , interlace] = header.data.subarray(8, 13);
+    const channels = CHANNELS_PER_COLOR_TYPE[colorType];
+    if (!channels) throw new Error(`Unknown PNG colour type ${colorType}.`);
+    if (bitDepth !== 8 && !(bitDepth === 16 && colorType !== 3)) throw new Error(`Unsupported PNG bit depth ${bitDepth}.`);
+    if (interlace !== 0) throw new Error('Interlaced PNG files are not supported.');
+
+    const compressed = concat(chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => chunk.data));
+    const raw = await inflateBytes(compressed);
+    const bytesPerPixel = channels * bitDepth / 8;
+    const stride = width * bytesPerPixel;
+    if (raw.length < (stride + 1) * height) throw new Error('PNG image data is truncated.');
+
+    const samples = unfilter(raw, width, height, bytesPerPixel);
+    const palette = chunks.find(chunk => chunk.type === 'PLTE')?.data;
+    const transparency = chunks.find(chunk => chunk.type === 'tRNS')?.data;
+    if (colorType === 3 && !palette) throw new Error('Palette PNG file has no palette.');
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    const sampleStep = bitDepth / 8; // Read the high byte of 16-bit samples
+    for (let p = 0; p < width * height; p++) {
+        const at = (c: number) => samples[(p * channels + c) * sampleStep];
+        let rgba: [number, number, number, number];
+        switch (colorType) {
+            case 0: rgba = [at(0), at(0), at(0), 255]; break;
+            case 2: rgba = [at(0), at(1), at(2), 255]; break;
+            case 3: {
+                const index = at(0);
+                rgba = [palette![index * 3], palette![index * 3 + 1], palette![index * 3 + 2], transparency?.[index] ?? 255];
+                break;
+            }
+            case 4: rgba = [at(0), at(0), at(0), at(1)]; break;
+            default: rgba = [at(0), at(1), at(2), at(3)];
+        }
+        data.set(rgba, p * 4);
+    }
+    return { data, width, height };
+};
+
+/**
+ * Reverses the per-scanline filters, returning the bare samples.
+ */
+const unfilter = (raw: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array => {
+    const stride = width * bytesPerPixel;
+    const out = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const row = y * stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+            const up = y > 0 ? out[row - stride + x] : 0;
+            const upLeft = y > 0 && x >= bytesPerPixel ? out[row - stride + x - bytesPerPixel] : 0;
+            let predictor: number;
+            switch (filter) {
+                case 0: predictor = 0; break;
+                case 1: predictor = left; break;
+                case 2: predictor = up; break;
+                case 3: predictor = (left + up) >> 1; break;
+                case 4: predictor = paeth(left, up, upLeft); break;
+                default: throw new Error(`Unknown PNG filter type ${filter}.`);
+            }
+            out[row + x] = (line[x] + predictor) & 0xFF;
+        }
+    }
+    return out;
+};
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+    const estimate = left + up - upLeft;
+    const toLeft = Math.abs(estimate - left);
+    const toUp = Math.abs(estimate - up);
+    const toUpLeft = Math.abs(estimate - upLeft);
+    if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+    return toUp <= toUpLeft ? up : upLeft;
+};
+
+const concat = (arrays: Uint8Array[]): Uint8Array => {
+    const joined = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+    let offset = 0;
+    for (const array of arrays) {
+        joined.set(array, offset);
+        offset += array.length;
+    }
+    return joined;
+};
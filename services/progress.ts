@@ -0,0 +1,67 @@
+import type { CodecProgress, ProgressStage } from '../types';
+
+/** The slice of the whole operation each stage covers, as [start, end] percent. */
+const STAGE_RANGES: Record<ProgressStage, [number, number]> = {
+    // Encoding
+    analysing: [0, 25],
+    drawing: [25, 40],
+    compressing: [40, 50],
+    encrypting: [50, 55],
+    embedding: [55, 95],
+    finalizing: [95, 100],
+    // Decoding
+    reading: [0, 15],
+    extracting: [15, 75], // Includes error correction, which runs per image
+    assembling: [75, 80],
+    decrypting: [80, 90],
+    decompressing: [90, 100],
+    resynthesizing: [75, 100], // Only when the hidden data could not be read
+    // Animating a reveal, which ends with the same finalizing stage
+    animating: [0, 95],
+};
+
+const STAGE_MESSAGES: Record<ProgressStage, string> = {
+    analysing: 'Extracting audio features...',
+    drawing: 'Generating celestial orbits...',
+    compressing: 'Compressing audio...',
+    encrypting: 'Encrypting audio...',
+    embedding: 'Embedding audio data...',
+    finalizing: 'Finalizing image...',
+    reading: 'Reading image data...',
+    extracting: 'Extracting embedded data...',
+    assembling: 'Reassembling audio...',
+    decrypting: 'Decrypting audio...',
+    decompressing: 'Decompressing audio...',
+    resynthesizing: 'Rebuilding audio from the spectrogram...',
+    animating: 'Rendering animation frames...',
+};
+
+/**
+ * Reports how far a stage has got, from 0 to 1, optionally with a more specific
+ * message than the stage's default.
+ */
+export type ProgressReporter = (stage: ProgressStage, fraction?: number, message?: string) => void;
+
+/**
+ * Turns stage updates into overall progress events, dropping updates that would
+ * not change what is shown. Every update is also a cancellation point: it throws
+ * the abort reason once the signal has been aborted.
+ */
+export const createProgressReporter = (onProgress: (progress: CodecProgress) => void, signal?: AbortSignal): ProgressReporter => {
+    let last: CodecProgress | undefined;
+    return (stage, fraction = 0, message = STAGE_MESSAGES[stage]) => {
+        signal?.throwIfAborted();
+        const [start, end] = STAGE_RANGES[stage];
+        const percent = Math.round(start + (end - start) * Math.max(0, Math.min(1, fraction)));
+        if (last && last.stage === stage && last.percent === percent && last.message === message) return;
+        last = { stage, percent, message };
+        onProgress(last);
+    };
+};
+
+/**
+ * Narrows a reporter to item `index` of `count`, so each item's stages advance
+ * the overall bar by its share.
+ */
+export const forItem = (report: ProgressReporter, index: number, count: number): ProgressReporter =>
+    (stage, fraction = 0, message) => report(stage, (index + fraction) / count, message);
@@ -0,0 +1,228 @@
+// Reed-Solomon coding over GF(2^8) with the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1,
+// generator 2 and first consecutive root 2^0. Codewords are at most 255 bytes long; each
+// block of `k` data bytes gains `paritySymbols` check bytes and can repair up to half as
+// many corrupted bytes.
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+(() => {
+    let x = 1;
+    for (let i = 0; i < 255; i++) {
+        GF_EXP[i] = x;
+        GF_LOG[x] = i;
+        x <<= 1;
+        if (x & 0x100) x ^= 0x11D;
+    }
+    for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+})();
+
+const BLOCK_LENGTH = 255;
+
+const gfMul = (a: number, b: number): number => (a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]]);
+
+const gfDiv = (a: number, b: number): number => (a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]]);
+
+const gfPow2 = (n: number): number => GF_EXP[((n % 255) + 255) % 255];
+
+const generatorCache = new Map<number, Uint8Array>();
+
+/**
+ * The generator polynomial (x - 2^0)(x - 2^1)...(x - 2^(n-1)), highest degree first.
+ */
+const generatorPolynomial = (paritySymbols: number): Uint8Array => {
+    const cached = generatorCache.get(paritySymbols);
+    if (cached) return cached;
+
+    let g = new Uint8Array([1]);
+    for (let i = 0; i < paritySymbols; i++) {
+        const next = new Uint8Array(g.length + 1);
+        const root = gfPow2(i);
+        for (let j = 0; j < g.length; j++) {
+            next[j] ^= g[j];
+            next[j + 1] ^= gfMul(g[j], root);
+        }
+        g = next;
+    }
+    generatorCache.set(paritySymbols, g);
+    return g;
+};
+
+/**
+ * Appends `paritySymbols` check bytes to one block of data.
+ */
+const encodeBlock = (data: Uint8Array, paritySymbols: number): Uint8Array => {
+    const g = generatorPolynomial(paritySymbols);
+    const out = new Uint8Array(data.length + paritySymbols);
+    out.set(data);
+    for (let i = 0; i < data.length; i++) {
+        const coef = out[i];
+        if (coef === 0) continue;
+        for (let j = 1; j < g.length; j++) {
+            out[i + j] ^= gfMul(g[j], coef);
+        }
+    }
+    out.set(data);
+    return out;
+};
+
+/**
+ * Repairs one codeword in place and returns how many bytes were corrected, or -1
+ * when the damage exceeds what the parity bytes can locate.
+ */
+const correctBlock = (codeword: Uint8Array, paritySymbols: number): number => {
+    const n = codeword.length;
+
+    // Syndromes S_j = c(2^j); all zero means the codeword is intact
+    const syndromes = new Uint8Array(paritySymbols);
+    let damaged = false;
+    for (let j = 0; j < paritySymbols; j++) {
+        const x = gfPow2(j);
+        let value = 0;
+        for (let i = 0; i < n; i++) value = gfMul(value, x) ^ codeword[i];
+        syndromes[j] = value;
+        if (value !== 0) damaged = true;
+    }
+    if (!damaged) return 0;
+
+    // Berlekamp-Massey: the error locator polynomial, lowest degree first
+    let locator = [1];
+    let previous = [1];
+    let errorCount = 0;
+    let shift = 1;
+    let previousDiscrepancy = 1;
+    for (let r = 0; r < paritySymbols; r++) {
+        let discrepancy = syndromes[r];
+        for (let i = 1; i <= errorCount; i++) discrepancy ^= gfMul(locator[i] ?? 0, syndromes[r - i]);
+
+        if (discrepancy === 0) {
+            shift++;
+            continue;
+        }
+        const scale = gfDiv(discrepancy, previousDiscrepancy);
+        const updated = locator.slice();
+        for (let i = 0; i < previous.length; i++) {
+            updated[i + shift] = (updated[i + shift] ?? 0) ^ gfMul(scale, previous[i]);
+        }
+        if (2 * errorCount <= r) {
+            previous = locator;
+            errorCount = r + 1 - errorCount;
+            previousDiscrepancy = discrepancy;
+            shift = 1;
+        } else {
+            shift++;
+        }
+        locator = updated;
+    }
+    if (2 * errorCount > paritySymbols) return -1;
+
+    // Chien search: an error at array position p has locator X = 2^(n-1-p), a root of locator(1/X)
+    const positions: number[] = [];
+    for (let p = 0; p < n; p++) {
+        const xInverse = gfPow2(-(n - 1 - p));
+        let value = 0;
+        for (let i = locator.length - 1; i >= 0; i--) value = gfMul(value, xInverse) ^ (locator[i] ?? 0);
+        if (value === 0) positions.push(p);
+    }
+    if (positions.length !== errorCount) return -1;
+
+    // Forney: evaluator = S(x) * locator(x) mod x^paritySymbols, magnitude = X * evaluator(1/X) / locator'(1/X)
+    const evaluator = new Uint8Array(paritySymbols);
+    for (let i = 0; i < paritySymbols; i++) {
+        for (let j = 0; j <= i && j < locator.length; j++) {
+            evaluator[i] ^= gfMul(syndromes[i - j], locator[j] ?? 0);
+        }
+    }
+    for (const p of positions) {
+        const x = gfPow2(n - 1 - p);
+        const xInverse = gfPow2(-(n - 1 - p));
+        let numerator = 0;
+        for (let i = evaluator.length - 1; i >= 0; i--) numerator = gfMul(numerator, xInverse) ^ evaluator[i];
+        let denominator = 0;
+        for (let i = locator.length - 1; i >= 1; i--) {
+            // Formal derivative in characteristic 2 keeps only the odd-degree terms
+            if (i % 2 === 1) denominator ^= gfMul(locator[i] ?? 0, gfPow2(-(n - 1 - p) * (i - 1)));
+        }
+        if (denominator === 0) return -1;
+        codeword[p] ^= gfMul(x, gfDiv(numerator, denominator));
+    }
+
+    // A miscorrection can still leave a non-codeword behind; refuse it rather than pass it on
+    for (let j = 0; j < paritySymbols; j++) {
+        const x = gfPow2(j);
+        let value = 0;
+        for (let i = 0; i < n; i++) value = gfMul(value, x) ^ codeword[i];
+        if (value !== 0) return -1;
+    }
+    return positions.length;
+};
+
+/**
+ * Size in bytes of `length` data bytes once protected with the given parity.
+ */
+export const protectedLength = (length: number, paritySymbols: number): number =>
+    Math.ceil(length / (BLOCK_LENGTH - paritySymbols)) * BLOCK_LENGTH;
+
+/**
+ * The largest number of data bytes whose protected form fits in `capacity` bytes.
+ */
+export const unprotectedCapacity = (capacity: number, paritySymbols: number): number =>
+    Math.floor(capacity / BLOCK_LENGTH) * (BLOCK_LENGTH - paritySymbols);
+
+/**
+ * Splits data into 255-byte codewords and interleaves them byte by byte, so a run
+ * of damaged bytes in the output is spread thinly over many codewords.
+ */
+export const rsProtect = (data: Uint8Array, paritySymbols: number): Uint8Array => {
+    const k = BLOCK_LENGTH - paritySymbols;
+    const blockCount = Math.ceil(data.length / k);
+    const out = new Uint8Array(blockCount * BLOCK_LENGTH);
+
+    for (let b = 0; b < blockCount; b++) {
+        const chunk = new Uint8Array(k); // The final block is zero-padded
+        chunk.set(data.subarray(b * k, (b + 1) * k));
+        const codeword = encodeBlock(chunk, paritySymbols);
+        for (let c = 0; c < BLOCK_LENGTH; c++) out[c * blockCount + b] = codeword[c];
+    }
+    return out;
+};
+
+/**
+ * Reverses `rsProtect`, repairing what it can. Returns null when any codeword is
+ * beyond repair.
+ */
+export const rsRecover = (
+    encoded: Uint8Array,
+    length: number,
+    paritySymbols: number,
+): { data: Uint8Array; correctedErrors: number } | null => {
+    const k = BLOCK_LENGTH - paritySymbols;
+    const blockCount = Math.ceil(length / k);
+    if (encoded.length < blockCount * BLOCK_LENGTH) return null;
+
+    const data = new Uint8Array(blockCount * k);
+    const codeword = new Uint8Array(BLOCK_LENGTH);
+    let correctedErrors = 0;
+
+    for (let b = 0; b < blockCount; b++) {
+        for (let c = 0; c < BLOCK_LENGTH; c++) codeword[c] = encoded[c * blockCount + b];
+        const corrected = correctBlock(codeword, paritySymbols);
+        if (corrected < 0) return null;
+        correctedErrors += corrected;
+        data.set(codeword.subarray(0, k), b * k);
+    }
+    return { data: data.subarray(0, length), correctedErrors };
+};
+
+/**
+ * Undoes the interleaving of `rsProtect` without repairing anything, for looking
+ * at data too damaged for `rsRecover`.
+ */
+export const rsDeinterleave = (encoded: Uint8Array, length: number, paritySymbols: number): Uint8Array => {
+    const k = BLOCK_LENGTH - paritySymbols;
+    const blockCount = Math.ceil(length / k);
+    const data = new Uint8Array(blockCount * k);
+    for (let b = 0; b < blockCount; b++) {
+        for (let c = 0; c < k; c++) data[b * k + c] = encoded[c * blockCount + b] ?? 0;
+    }
+    return data.subarray(0, length);
+};
@@ -0,0 +1,202 @@
+import type { AudioFeatures, RendererName, RendererParams } from '../../types';
+import { crc32 } from '../crc32';
+import { mulberry32 } from '../random';
+
+/**
+ * The part of the 2D canvas API the artwork is drawn with. A browser
+ * `CanvasRenderingContext2D` satisfies it, and so does the software rasterizer
+ * the command-line tool uses.
+ */
+export type OrbitDrawingContext = Pick<
+    CanvasRenderingContext2D,
+    | 'fillStyle'
+    | 'strokeStyle'
+    | 'lineWidth'
+    | 'lineCap'
+    | 'globalAlpha'
+    | 'globalCompositeOperation'
+    | 'fillRect'
+    | 'beginPath'
+    | 'moveTo'
+    | 'lineTo'
+    | 'arc'
+    | 'fill'
+    | 'stroke'
+    | 'createLinearGradient'
+> & { readonly canvas: { width: number; height: number } };
+
+/** A setting a renderer exposes, with what the parameter panel needs to show it. */
+export type RendererParam =
+    | { key: string; label: string; type: 'range'; min: number; max: number; step: number; default: number }
+    | { key: string; label: string; type: 'select'; options: { value: string; label: string }[]; default: string };
+
+export type Palette = [string, string, string]; // Low, mid and high frequencies
+
+/**
+ * What a renderer draws with. The background is already painted. A renderer
+ * draws only what happens between `from` and `to`, as fractions of the audio,
+ * and on top of the earlier slices, so an animation can build the artwork up
+ * slice by slice. Anything it scales by, such as the loudest peak, still comes
+ * from the whole audio, and its drawing must not depend on how it is sliced.
+ */
+export interface RenderScene {
+    ctx: OrbitDrawingContext;
+    features: AudioFeatures;
+    params: RendererParams; // Every declared parameter has a valid value
+    palette: Palette;
+    from: number;
+    to: number;
+}
+
+/**
+ * How a style lays time out: `turns` times clockwise around the centre from
+ * three o'clock, and when `radius` is set, moving outwards between those two
+ * radii as fractions of the width.
+ */
+export interface Timeline {
+    turns: number;
+    radius?: [number, number];
+}
+
+/** Once around at a constant radius, the layout of the ring styles. */
+export const CIRCULAR_TIMELINE: Timeline = { turns: 1 };
+
+export interface Renderer {
+    name: RendererName;
+    label: string;
+    description: string;
+    params: RendererParam[];
+    draw: (scene: RenderScene) => void;
+    timeline?: (params: RendererParams) => Timeline; // CIRCULAR_TIMELINE when not set
+}
+
+// Parameters several renderers share
+
+export const PALETTE_PARAM: RendererParam = {
+    key: 'palette',
+    label: 'Palette',
+    type: 'select',
+    options: [
+        { value: 'triadic', label: 'Triadic' },
+        { value: 'analogous', label: 'Analogous' },
+        { value: 'split', label: 'Split complementary' },
+        { value: 'monochrome', label: 'Monochrome' },
+    ],
+    default: 'triadic',
+};
+
+export const BACKGROUND_PARAM: RendererParam = {
+    key: 'background',
+    label: 'Background',
+    type: 'select',
+    options: [
+        { value: 'starfield', label: 'Starfield' },
+        { value: 'midnight', label: 'Midnight' },
+        { value: 'black', label: 'Plain black' },
+    ],
+    default: 'starfield',
+};
+
+export const RING_COUNT_PARAM = { key: 'rings', label: 'Rings', type: 'range', min: 1, max: 6, step: 1, default: 3 } satisfies RendererParam;
+
+/**
+ * Maps a moment in the audio to its angle on a circular timeline.
+ */
+export const timeToAngle = (time: number, duration: number) => duration > 0 ? (time / duration) * Math.PI * 2 : 0;
+
+/**
+ * Finds how far through the audio, from 0 to 1, a point on the artwork lies.
+ * The point is relative to the centre, in fractions of the width. On a
+ * winding timeline the turn nearest the point wins.
+ */
+export const progressAt = (timeline: Timeline, x: number, y: number) => {
+    const turnFraction = (Math.atan2(y, x) / (Math.PI * 2) + 1) % 1;
+    if (!timeline.radius || timeline.turns <= 1) return turnFraction;
+
+    const [inner, outer] = timeline.radius;
+    const distance = Math.hypot(x, y);
+    let best = turnFraction / timeline.turns;
+    for (let turn = 1; turn < timeline.turns; turn++) {
+        const progress = (turn + turnFraction) / timeline.turns;
+        if (Math.abs(inner + (outer - inner) * progress - distance) < Math.abs(inner + (outer - inner) * best - distance)) best = progress;
+    }
+    return best;
+};
+
+/** Whether a moment, as a fraction of the audio, falls in the scene's slice. The end of the audio belongs to the last slice. */
+export const inSlice = ({ from, to }: RenderScene, progress: number) => progress >= from && (progress < to || to >= 1);
+
+/** The frame of the spectrogram that holds the given moment. */
+export const frameAt = (features: AudioFeatures, time: number) =>
+    Math.max(0, Math.min(features.spectrogram.length - 1, Math.floor(time * features.sampleRate / features.hopSize)));
+
+/**
+ * Seeds every random choice in a render from the audio features, so the same
+ * audio always draws the same artwork. A variant seed shifts it to another,
+ * equally repeatable, one.
+ */
+export const createRenderRandom = (features: AudioFeatures, variantSeed?: string): (() => number) => {
+    const seed = features.spectrogram.slice(0, 100).reduce((acc, frame, i) => acc + frame.reduce((a, b) => a + b, i + 1), 1);
+    return mulberry32(variantSeed ? seed ^ crc32(new TextEncoder().encode(variantSeed)) : seed);
+};
+
+/**
+ * Generates a deterministic three-color palette around a random base hue.
+ */
+export const createPalette = (strategy: string, random: () => number): Palette => {
+    const baseHue = random() * 360;
+    const saturation = 75; // Vibrant but not overly saturated
+    const lightness = 60; // Bright enough to glow on a dark background
+    const hsl = (hueOffset: number, light = lightness) => {
+        const hue = (baseHue + hueOffset) % 360;
+        return `hsl(${hue < 0 ? hue + 360 : hue}, ${saturation}%, ${light}%)`;
+    };
+
+    switch (strategy) {
+        case 'analogous':
+            return [hsl(-30), hsl(0), hsl(30)];
+        case 'split':
+            return [hsl(0), hsl(150), hsl(210)];
+        case 'monochrome':
+            return [hsl(0, 45), hsl(0, 60), hsl(0, 75)];
+        default:
+            // Three hues evenly spaced on the color wheel
+            return [hsl(0), hsl(120), hsl(240)];
+    }
+};
+
+/**
+ * Paints the background. Starry backgrounds take their stars from the render's
+ * random stream, so they too repeat for the same audio.
+ */
+export const drawBackground = (ctx: OrbitDrawingContext, background: string, random: () => number) => {
+    const { width, height } = ctx.canvas;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+
+    if (background === 'midnight') {
+        const gradient = ctx.createLinearGradient(0, 0, 0, height);
+        gradient.addColorStop(0, '#02030a');
+        gradient.addColorStop(1, '#0b1233');
+        ctx.fillStyle = gradient;
+    } else {
+        ctx.fillStyle = '#000000';
+    }
+    ctx.fillRect(0, 0, width, height);
+    if (background === 'black') return;
+
+    // Faint background stars
+    for (let i = 0; i < 400; i++) {
+        const x = random() * width;
+        const y = random() * height;
+        const radius = random() * 0.8;
+        const alpha = random() * 0.5 + 0.1;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = `rgba(200, 220, 255, ${alpha})`;
+        ctx.fill();
+    }
+};
+
+/** Picks the palette color for a position from 0 (lowest) to 1 (highest) in the spectrum. */
+export const paletteColor = (palette: Palette, ratio: number) => ratio < 0.2 ? palette[0] : ratio < 0.5 ? palette[1] : palette[2];
@@ -0,0 +1,80 @@
+import { BACKGROUND_PARAM, frameAt, inSlice, PALETTE_PARAM, paletteColor, timeToAngle, type Renderer } from './common';
+
+/**
+ * A star for every onset: its angle is when it happens, its distance from the
+ * centre how bright it sounds, its size how strong it is. Onsets close in
+ * time and place are linked into constellations.
+ */
+export const constellationRenderer: Renderer = {
+    name: 'constellation',
+    label: 'Constellation',
+    description: 'Every beat becomes a star, linked to its neighbours.',
+    params: [
+        { key: 'starSize', label: 'Star size', type: 'range', min: 1, max: 8, step: 0.5, default: 4 },
+        { key: 'reach', label: 'Link reach', type: 'range', min: 0, max: 0.5, step: 0.05, default: 0.2 },
+        PALETTE_PARAM,
+        BACKGROUND_PARAM,
+    ],
+    draw: (scene) => {
+        const { ctx, features, params, palette } = scene;
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const starSize = Number(params.starSize);
+        const reach = Number(params.reach) * width;
+        const strongestOnset = features.onsets.reduce((max, onset) => Math.max(max, onset.energy), 0);
+
+        const stars = features.onsets.map(onset => {
+            // The spectral centroid of the onset's mel bands, from 0 (dark) to 1 (bright)
+            const bands = features.melBands[frameAt(features, onset.time)] ?? new Uint8Array(0);
+            let total = 0;
+            let weighted = 0;
+            bands.forEach((value, band) => {
+                total += value;
+                weighted += value * band;
+            });
+            const brightness = total > 0 && bands.length > 1 ? weighted / total / (bands.length - 1) : 0.5;
+            const angle = timeToAngle(onset.time, features.duration);
+            const radius = width * (0.1 + brightness * 0.35);
+            return {
+                x: centerX + radius * Math.cos(angle),
+                y: centerY + radius * Math.sin(angle),
+                strength: onset.energy / strongestOnset,
+                color: paletteColor(palette, brightness),
+                visible: inSlice(scene, onset.time / features.duration),
+            };
+        });
+
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.lineCap = 'round';
+        ctx.lineWidth = 1.2;
+        for (let i = 1; i < stars.length; i++) {
+            const [a, b] = [stars[i - 1], stars[i]];
+            // A link appears with the later of its two stars
+            if (!b.visible || Math.hypot(b.x - a.x, b.y - a.y) > reach) continue;
+            ctx.beginPath();
+            ctx.moveTo(a.x, a.y);
+            ctx.lineTo(b.x, b.y);
+            ctx.strokeStyle = b.color;
+            ctx.globalAlpha = 0.2 + 0.4 * Math.min(a.strength, b.strength);
+            ctx.stroke();
+        }
+
+        for (const star of stars) {
+            if (!star.visible) continue;
+            // Even the weakest onsets stay visible as small stars
+            const size = starSize * (0.3 + 0.7 * star.strength);
+            for (const [radius, color, alpha] of [
+                [size * 3, star.color, 0.2],
+                [size, star.color, 0.8],
+                [size * 0.35, '#ffffff', 0.9],
+            ] as const) {
+                ctx.beginPath();
+                ctx.arc(star.x, star.y, radius, 0, Math.PI * 2);
+                ctx.fillStyle = color;
+                ctx.globalAlpha = alpha;
+                ctx.fill();
+            }
+        }
+    },
+};
@@ -0,0 +1,121 @@
+import type { ArtworkStyle, AudioFeatures, RendererName, RendererParams } from '../../types';
+import { CIRCULAR_TIMELINE, createPalette, createRenderRandom, drawBackground, type OrbitDrawingContext, type Renderer, type Timeline } from './common';
+import { constellationRenderer } from './constellation';
+import { orbitRenderer } from './orbit';
+import { spectrogramRenderer } from './spectrogram';
+import { spiralRenderer } from './spiral';
+import { waveformRingRenderer } from './waveformRing';
+
+export type { OrbitDrawingContext, Renderer, RendererParam, Timeline } from './common';
+export { CIRCULAR_TIMELINE, progressAt, timeToAngle } from './common';
+
+/** Every artwork style, by name. */
+export const RENDERERS: Record<RendererName, Renderer> = {
+    orbit: orbitRenderer,
+    spiral: spiralRenderer,
+    'waveform-ring': waveformRingRenderer,
+    constellation: constellationRenderer,
+    spectrogram: spectrogramRenderer,
+};
+
+export const DEFAULT_ARTWORK_STYLE: ArtworkStyle = { renderer: 'orbit' };
+
+export const defaultParams = (name: RendererName): RendererParams =>
+    Object.fromEntries(RENDERERS[name].params.map(param => [param.key, param.default]));
+
+/**
+ * Fills in a renderer's defaults and checks the given values against its
+ * declared parameters.
+ */
+export const resolveParams = (renderer: Renderer, params: RendererParams = {}): RendererParams => {
+    for (const key of Object.keys(params)) {
+        if (!renderer.params.some(param => param.key === key)) throw new Error(`The ${renderer.label} style has no parameter ${key}.`);
+    }
+    return Object.fromEntries(renderer.params.map(param => {
+        const value = params[param.key];
+        if (value === undefined) return [param.key, param.default];
+        if (param.type === 'range') {
+            const number = Number(value);
+            if (!(number >= param.min && number <= param.max)) {
+                throw new Error(`${param.label} must be between ${param.min} and ${param.max}, got ${value}.`);
+            }
+            return [param.key, number];
+        }
+        if (!param.options.some(option => option.value === value)) {
+            throw new Error(`Unknown ${param.label.toLowerCase()}: ${value}. Choose ${param.options.map(option => option.value).join(', ')}.`);
+        }
+        return [param.key, value];
+    }));
+};
+
+/** How the given style lays time out on the artwork. */
+export const timelineOf = (style: ArtworkStyle = DEFAULT_ARTWORK_STYLE): Timeline => {
+    const renderer = RENDERERS[style.renderer];
+    return renderer.timeline?.(resolveParams(renderer, style.params)) ?? CIRCULAR_TIMELINE;
+};
+
+/**
+ * Writes a style as a short tag for the binary header: the renderer's name
+ * and any parameters that differ from its defaults, e.g. "spiral;turns=7".
+ */
+export const styleTag = (style: ArtworkStyle = DEFAULT_ARTWORK_STYLE): string => {
+    const defaults = defaultParams(style.renderer);
+    const changed = Object.entries(style.params ?? {}).filter(([key, value]) => String(value) !== String(defaults[key]));
+    return [style.renderer, ...changed.map(([key, value]) => `${key}=${value}`)].join(';');
+};
+
+/**
+ * Reads a tag written by `styleTag`. Returns undefined for a renderer or
+ * parameter this build does not know, so a newer orbit still decodes.
+ */
+export const parseStyleTag = (tag: string | undefined): ArtworkStyle | undefined => {
+    const [name, ...pairs] = tag?.split(';') ?? [];
+    if (!name || !Object.hasOwn(RENDERERS, name)) return undefined;
+    const renderer = RENDERERS[name as RendererName];
+    try {
+        const params = resolveParams(renderer, Object.fromEntries(pairs.map(pair => {
+            const split = pair.indexOf('=');
+            if (split < 1) throw new Error(`Malformed style parameter: ${pair}.`);
+            return [pair.slice(0, split), pair.slice(split + 1)];
+        })));
+        return { renderer: name as RendererName, params };
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Paints the background of the artwork and returns a function that draws it
+ * up to a point in the audio, from 0 to 1. Each call adds the slice since the
+ * previous one, so an animation never redraws what is already there.
+ */
+export const createArtworkReveal = (
+    ctx: OrbitDrawingContext,
+    features: AudioFeatures,
+    style: ArtworkStyle = DEFAULT_ARTWORK_STYLE,
+    variantSeed?: string,
+): ((to: number) => void) => {
+    const renderer = RENDERERS[style.renderer];
+    if (!renderer) throw new Error(`Unknown artwork style: ${style.renderer}. Choose ${Object.keys(RENDERERS).join(', ')}.`);
+    const params = resolveParams(renderer, style.params);
+
+    const random = createRenderRandom(features, variantSeed);
+    const palette = createPalette(String(params.palette), random);
+    drawBackground(ctx, String(params.background), random);
+
+    let revealed = 0;
+    return (to) => {
+        renderer.draw({ ctx, features, params, palette, from: revealed, to });
+        revealed = to;
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+    };
+};
+
+/**
+ * Draws the artwork for the given features in the given style. Nothing in it
+ * depends on `Math.random`: identical features, style and variant seed give
+ * identical pixels on the same canvas implementation.
+ */
+export const drawArtwork = (ctx: OrbitDrawingContext, features: AudioFeatures, style?: ArtworkStyle, variantSeed?: string) =>
+    createArtworkReveal(ctx, features, style, variantSeed)(1);
@@ -0,0 +1,144 @@
+import { BACKGROUND_PARAM, inSlice, PALETTE_PARAM, paletteColor, RING_COUNT_PARAM, timeToAngle, type Renderer } from './common';
+
+const OUT_OF_PHASE_COLOR = 'hsl(0, 85%, 60%)';
+const OUT_OF_PHASE_CORRELATION = -0.25; // Unrelated channels jitter around 0; only clearly opposed ones turn red
+
+/**
+ * The original look: rings of radial bursts, one per spectrogram frame, with
+ * white flares at the onsets. A stereo recording draws each channel's bursts
+ * on its own, outwards for the left and inwards for the right or on inner and
+ * outer rings, and its width as a halo inside them.
+ */
+export const orbitRenderer: Renderer = {
+    name: 'orbit',
+    label: 'Orbit',
+    description: 'Rings of frequency bursts with flares on every beat.',
+    params: [
+        RING_COUNT_PARAM,
+        { key: 'density', label: 'Lines per frame', type: 'range', min: 16, max: 256, step: 16, default: 128 },
+        {
+            key: 'stereo',
+            label: 'Stereo',
+            type: 'select',
+            options: [
+                { value: 'mirrored', label: 'Mirrored: left out, right in' },
+                { value: 'rings', label: 'Left inner rings, right outer' },
+                { value: 'mix', label: 'Mixed to mono' },
+            ],
+            default: 'mirrored',
+        },
+        PALETTE_PARAM,
+        BACKGROUND_PARAM,
+    ],
+    draw: (scene) => {
+        const { ctx, features, params, palette } = scene;
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const rings = Number(params.rings);
+
+        // Use 'lighter' for additive light effect
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.lineWidth = 1.5;
+        ctx.lineCap = 'round';
+
+        const timeSteps = features.spectrogram.length;
+        const freqBins = features.spectrogram[0]?.length || 1;
+        const binStep = Math.max(1, Math.round(freqBins / Number(params.density)));
+        // Mono recordings, and stereo ones mixed down, have one set of bursts
+        const stereo = params.stereo !== 'mix' ? features.stereo : undefined;
+        const ringSets = !stereo
+            ? [{ spectra: features.spectrogram, inner: 0.12, outer: 0.28, direction: 1 }]
+            : params.stereo === 'rings'
+                ? [
+                    { spectra: stereo.left, inner: 0.12, outer: 0.19, direction: 1 },
+                    { spectra: stereo.right, inner: 0.21, outer: 0.28, direction: 1 },
+                ]
+                : [
+                    { spectra: stereo.left, inner: 0.12, outer: 0.28, direction: 1 },
+                    { spectra: stereo.right, inner: 0.12, outer: 0.28, direction: -1 },
+                ];
+
+        for (const { spectra, inner, outer, direction } of ringSets) {
+            // Each set's rings share the band between its inner and outer radius, as fractions of the width
+            const ringSpacing = rings > 1 ? (outer - inner) / (rings - 1) : 0;
+
+            for (let layer = 0; layer < rings; layer++) {
+                const baseRadius = width * (inner + layer * ringSpacing);
+                const waviness = 15 + layer * 10;
+
+                for (let t = 0; t < timeSteps; t++) {
+                    if (!inSlice(scene, t / timeSteps)) continue;
+                    const angle = (t / timeSteps) * Math.PI * 2;
+                    const freqData = spectra[t];
+
+                    for (let f = 1; f < freqBins; f += binStep) { // Start at 1 to ignore DC offset
+                        const energy = freqData[f] / 255;
+                        if (energy < 0.2) continue;
+
+                        const radialLength = height * 0.08 * energy * direction; // Narrower ring bursts
+                        const wave = Math.sin(t / 15 + layer * 2 + f / 5) * waviness;
+                        const startRadius = baseRadius + wave;
+                        const endRadius = startRadius + radialLength;
+
+                        ctx.beginPath();
+                        const startX = centerX + startRadius * Math.cos(angle);
+                        const startY = centerY + startRadius * Math.sin(angle);
+                        const endX = centerX + endRadius * Math.cos(angle);
+                        const endY = centerY + endRadius * Math.sin(angle);
+
+                        ctx.moveTo(startX, startY);
+                        ctx.lineTo(endX, endY);
+                        ctx.strokeStyle = paletteColor(palette, f / freqBins);
+                        ctx.globalAlpha = energy * 0.5;
+                        ctx.stroke();
+                    }
+                }
+            }
+        }
+        ctx.globalAlpha = 1;
+
+        // Stereo width as a halo around the rings: the wider the sound, the longer the line, red where the channels cancel
+        if (stereo) {
+            ctx.lineWidth = 1.5;
+            for (let t = 0; t < timeSteps; t++) {
+                const spread = stereo.width[t];
+                if (!inSlice(scene, t / timeSteps) || spread < 0.02) continue;
+                const angle = (t / timeSteps) * Math.PI * 2;
+                const [from, to] = [width * (0.42 - 0.03 * spread), width * (0.42 + 0.03 * spread)];
+                ctx.beginPath();
+                ctx.moveTo(centerX + from * Math.cos(angle), centerY + from * Math.sin(angle));
+                ctx.lineTo(centerX + to * Math.cos(angle), centerY + to * Math.sin(angle));
+                ctx.strokeStyle = stereo.correlation[t] < OUT_OF_PHASE_CORRELATION ? OUT_OF_PHASE_COLOR : palette[1];
+                ctx.globalAlpha = 0.2 + 0.6 * Math.min(1, spread * 2);
+                ctx.stroke();
+            }
+            ctx.globalAlpha = 1;
+        }
+
+        // Onset flares, scaled against the strongest onset so quiet and loud tracks flare alike
+        const strongestOnset = features.onsets.reduce((max, onset) => Math.max(max, onset.energy), 0);
+        features.onsets.forEach(onset => {
+            if (!inSlice(scene, onset.time / features.duration)) return;
+            const angle = timeToAngle(onset.time, features.duration);
+            const intensity = onset.energy / strongestOnset;
+            if (intensity < 0.2) return;
+
+            const startX = centerX + (width * 0.1) * Math.cos(angle);
+            const startY = centerY + (width * 0.1) * Math.sin(angle);
+            const endX = centerX + (width * 0.45) * Math.cos(angle);
+            const endY = centerY + (width * 0.45) * Math.sin(angle);
+
+            const grad = ctx.createLinearGradient(startX, startY, endX, endY);
+            grad.addColorStop(0, `rgba(255, 255, 255, ${intensity * 0.8})`);
+            grad.addColorStop(1, `rgba(255, 255, 255, 0)`);
+
+            ctx.beginPath();
+            ctx.moveTo(startX, startY);
+            ctx.lineTo(endX, endY);
+            ctx.strokeStyle = grad;
+            ctx.lineWidth = 1 + intensity * 2.0;
+            ctx.stroke();
+        });
+    },
+};
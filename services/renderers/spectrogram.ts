@@ -0,0 +1,137 @@
+import type { AudioFeatures } from '../../types';
+import {
+    bandEdges,
+    CODE_BITS,
+    codedFrequency,
+    levelColor,
+    packSpectrogramCode,
+    SPECTROGRAM_RADII,
+    SWATCH_COUNT,
+    swatchLevel,
+} from '../spectrogramLayout';
+import { inSlice, type OrbitDrawingContext, type Renderer } from './common';
+
+const cssColor = ([r, g, b]: [number, number, number]) => `rgb(${r}, ${g}, ${b})`;
+
+/** Fills the ring sector between two radii and two angles. */
+const fillSector = (ctx: OrbitDrawingContext, inner: number, outer: number, from: number, to: number, color: string) => {
+    const { width, height } = ctx.canvas;
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 2, outer, from, to);
+    ctx.arc(width / 2, height / 2, inner, to, from, true);
+    ctx.fillStyle = color;
+    ctx.fill();
+};
+
+/**
+ * Reads the level of every band in a column: the column's analysis frames and
+ * the band's bins averaged, in decibels as the bytes hold them. Bands
+ * narrower than a bin take the bin their centre falls in.
+ */
+const createColumnReader = (features: AudioFeatures, columns: number, bands: number, maxFrequency: number) => {
+    const frames = features.spectrogram;
+    const binCount = frames[0]?.length ?? 0;
+    const binHz = features.sampleRate / 2 / Math.max(1, binCount);
+    const edges = bandEdges(bands, maxFrequency);
+    const binRanges = Array.from({ length: bands }, (_, band) => {
+        const first = Math.floor(edges[band] / binHz);
+        const last = Math.ceil(edges[band + 1] / binHz) - 1;
+        const centre = Math.floor((edges[band] + edges[band + 1]) / 2 / binHz);
+        return last >= first ? [first, Math.min(binCount - 1, last)] : [centre, centre];
+    });
+
+    return (column: number): Uint8Array => {
+        const levels = new Uint8Array(bands);
+        if (frames.length === 0) return levels;
+        const first = Math.floor(column * frames.length / columns);
+        const last = Math.max(first + 1, Math.floor((column + 1) * frames.length / columns));
+        binRanges.forEach(([low, high], band) => {
+            let sum = 0;
+            for (let t = first; t < last; t++) {
+                for (let k = low; k <= high; k++) sum += frames[t][k];
+            }
+            levels[band] = Math.round(sum / ((last - first) * (high - low + 1)));
+        });
+        return levels;
+    };
+};
+
+/**
+ * The spectrogram itself in the polar layout of spectrogramLayout.ts, with the
+ * calibration swatches, code and rim that let `readSpectrogramOrbit` recover it
+ * from a screenshot or a recompressed copy and play it back.
+ */
+export const spectrogramRenderer: Renderer = {
+    name: 'spectrogram',
+    label: 'Spectrogram',
+    description: 'The sound as a polar spectrogram that can be played back from the picture alone.',
+    params: [
+        { key: 'columns', label: 'Time columns', type: 'range', min: 180, max: 1440, step: 180, default: 720 },
+        { key: 'bands', label: 'Frequency bands', type: 'range', min: 32, max: 128, step: 16, default: 96 },
+        {
+            key: 'maxFrequency',
+            label: 'Highest frequency',
+            type: 'select',
+            options: [
+                { value: '4000', label: '4 kHz (speech)' },
+                { value: '8000', label: '8 kHz' },
+                { value: '11000', label: '11 kHz' },
+                { value: '16000', label: '16 kHz (music)' },
+            ],
+            default: '8000',
+        },
+        // Stars would land in the calibration rings, so only plain backgrounds are offered
+        {
+            key: 'background',
+            label: 'Background',
+            type: 'select',
+            options: [
+                { value: 'black', label: 'Plain black' },
+                { value: 'midnight', label: 'Midnight' },
+            ],
+            default: 'black',
+        },
+    ],
+    draw: (scene) => {
+        const { ctx, features, params } = scene;
+        const { width } = ctx.canvas;
+        const columns = Number(params.columns);
+        const bands = Number(params.bands);
+        // Nothing above the analysis's Nyquist frequency was measured
+        const maxFrequency = codedFrequency(Math.min(Number(params.maxFrequency), features.sampleRate / 2));
+        const radius = (fraction: number) => width * fraction;
+        const { dataInner, dataOuter, swatchInner, swatchOuter, codeInner, codeOuter, rimInner, rimOuter } = SPECTROGRAM_RADII;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.globalAlpha = 1;
+
+        // The calibration does not move with time, so it comes with the first slice
+        if (scene.from === 0) {
+            for (let i = 0; i < SWATCH_COUNT; i++) {
+                const from = i / SWATCH_COUNT * Math.PI * 2;
+                const to = (i + 1) / SWATCH_COUNT * Math.PI * 2;
+                fillSector(ctx, radius(swatchInner), radius(swatchOuter), from, to, cssColor(levelColor(swatchLevel(i))));
+            }
+            const bits = packSpectrogramCode({ duration: features.duration, columns, bands, maxFrequency });
+            bits.forEach((bit, i) => {
+                const from = i / CODE_BITS * Math.PI * 2;
+                const to = (i + 1) / CODE_BITS * Math.PI * 2;
+                fillSector(ctx, radius(codeInner), radius(codeOuter), from, to, cssColor(levelColor(bit ? 255 : 0)));
+            });
+            fillSector(ctx, radius(rimInner), radius(rimOuter), 0, Math.PI * 2, '#ffffff');
+        }
+
+        const levelsAt = createColumnReader(features, columns, bands, maxFrequency);
+        const bandWidth = (radius(dataOuter) - radius(dataInner)) / bands;
+        // Cells overlap their neighbours by a hair, so no seam of background shows between them
+        const overlap = 0.5 / (radius(dataInner) * Math.PI * 2 / columns);
+        for (let c = 0; c < columns; c++) {
+            if (!inSlice(scene, c / columns)) continue;
+            const from = c / columns * Math.PI * 2;
+            const to = (c + 1 + overlap) / columns * Math.PI * 2;
+            levelsAt(c).forEach((level, band) => {
+                const inner = radius(dataInner) + band * bandWidth;
+                fillSector(ctx, inner, inner + bandWidth + 0.5, from, to, cssColor(levelColor(level)));
+            });
+        }
+    },
+};
@@ -0,0 +1,77 @@
+import { BACKGROUND_PARAM, inSlice, PALETTE_PARAM, type Renderer, type Timeline } from './common';
+
+// The spiral's radii as fractions of the width; the outer one leaves room for the last turn's ticks
+const INNER_RADIUS = 0.06;
+const OUTER_RADIUS = 0.4;
+
+/**
+ * A timeline wound outwards from the centre. Each frame's low, mid and high mel
+ * bands are stacked along the spiral, each as long as it is loud.
+ */
+export const spiralRenderer: Renderer = {
+    name: 'spiral',
+    label: 'Spiral',
+    description: 'Time winds outwards from the centre, the spectrum stacked along the path.',
+    params: [
+        { key: 'turns', label: 'Turns', type: 'range', min: 2, max: 12, step: 1, default: 5 },
+        { key: 'thickness', label: 'Line width', type: 'range', min: 0.5, max: 4, step: 0.5, default: 1.5 },
+        PALETTE_PARAM,
+        BACKGROUND_PARAM,
+    ],
+    timeline: (params): Timeline => ({ turns: Number(params.turns), radius: [INNER_RADIUS, OUTER_RADIUS] }),
+    draw: (scene) => {
+        const { ctx, features, params, palette } = scene;
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const turns = Number(params.turns);
+        const innerRadius = width * INNER_RADIUS;
+        const outerRadius = width * OUTER_RADIUS;
+        const turnSpacing = (outerRadius - innerRadius) / turns;
+        const frames = features.melBands;
+        const pointAt = (progress: number, radiusOffset = 0): [number, number] => {
+            const angle = progress * turns * Math.PI * 2;
+            const radius = innerRadius + (outerRadius - innerRadius) * progress + radiusOffset;
+            return [centerX + radius * Math.cos(angle), centerY + radius * Math.sin(angle)];
+        };
+
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.lineCap = 'round';
+
+        // The faint path itself, as far as this slice reaches
+        const pathSteps = Math.min(frames.length, turns * 360);
+        const firstStep = Math.floor(scene.from * pathSteps);
+        const lastStep = Math.floor(scene.to * pathSteps);
+        if (pathSteps > 1 && lastStep > firstStep) {
+            ctx.beginPath();
+            ctx.moveTo(...pointAt(firstStep / pathSteps));
+            for (let i = firstStep + 1; i <= lastStep; i++) ctx.lineTo(...pointAt(i / pathSteps));
+            ctx.strokeStyle = palette[1];
+            ctx.globalAlpha = 0.25;
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        }
+
+        ctx.lineWidth = Number(params.thickness);
+        frames.forEach((bands, t) => {
+            const progress = t / frames.length;
+            if (!inSlice(scene, progress)) return;
+            const groupSize = Math.ceil(bands.length / 3);
+            let offset = 0;
+            for (let group = 0; group < 3; group++) {
+                const slice = bands.subarray(group * groupSize, (group + 1) * groupSize);
+                const energy = slice.length ? slice.reduce((sum, value) => sum + value, 0) / (slice.length * 255) : 0;
+                const length = turnSpacing * 0.45 * energy;
+                if (energy >= 0.02) {
+                    ctx.beginPath();
+                    ctx.moveTo(...pointAt(progress, offset));
+                    ctx.lineTo(...pointAt(progress, offset + length));
+                    ctx.strokeStyle = palette[group];
+                    ctx.globalAlpha = 0.4 + energy * 0.6;
+                    ctx.stroke();
+                }
+                offset += length;
+            }
+        });
+    },
+};
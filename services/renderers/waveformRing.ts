@@ -0,0 +1,60 @@
+import { BACKGROUND_PARAM, inSlice, PALETTE_PARAM, RING_COUNT_PARAM, type Renderer } from './common';
+
+/**
+ * The waveform bent into concentric rings: a spoke per slice of time, as long
+ * as the loudest peak in that slice.
+ */
+export const waveformRingRenderer: Renderer = {
+    name: 'waveform-ring',
+    label: 'Waveform ring',
+    description: 'The waveform itself, bent into rings of spokes.',
+    params: [
+        { ...RING_COUNT_PARAM, default: 2 },
+        { key: 'spokes', label: 'Spokes per ring', type: 'range', min: 90, max: 1440, step: 90, default: 720 },
+        { key: 'amplitude', label: 'Amplitude', type: 'range', min: 0.05, max: 0.3, step: 0.05, default: 0.15 },
+        PALETTE_PARAM,
+        BACKGROUND_PARAM,
+    ],
+    draw: (scene) => {
+        const { ctx, features, params, palette } = scene;
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const centerY = height / 2;
+        const rings = Number(params.rings);
+        const spokes = Number(params.spokes);
+        const { waveform } = features;
+        if (waveform.length === 0) return;
+
+        // Peaks are scaled against the loudest one, so quiet recordings fill the ring too
+        const loudest = waveform.reduce((max, peak) => Math.max(max, peak), 0) || 1;
+        const spokePeaks = Float32Array.from({ length: spokes }, (_, spoke) => {
+            const from = Math.floor(spoke * waveform.length / spokes);
+            const to = Math.max(from + 1, Math.floor((spoke + 1) * waveform.length / spokes));
+            let peak = 0;
+            for (let i = from; i < to; i++) peak = Math.max(peak, waveform[i]);
+            return peak / loudest;
+        });
+
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.lineCap = 'round';
+        ctx.lineWidth = 1.2;
+        // The rings share the band between 16% and 32% of the width; spokes reach half the amplitude either side
+        const ringSpacing = rings > 1 ? 0.16 / (rings - 1) : 0;
+
+        for (let ring = 0; ring < rings; ring++) {
+            const radius = width * (0.16 + ring * ringSpacing);
+            const depth = height * Number(params.amplitude) * (1 - ring / (rings * 2));
+            ctx.strokeStyle = palette[ring % 3];
+            spokePeaks.forEach((peak, spoke) => {
+                if (peak < 0.01 || !inSlice(scene, spoke / spokes)) return;
+                const angle = (spoke / spokes) * Math.PI * 2;
+                const half = depth * peak / 2;
+                ctx.beginPath();
+                ctx.moveTo(centerX + (radius - half) * Math.cos(angle), centerY + (radius - half) * Math.sin(angle));
+                ctx.lineTo(centerX + (radius + half) * Math.cos(angle), centerY + (radius + half) * Math.sin(angle));
+                ctx.globalAlpha = 0.3 + peak * 0.6;
+                ctx.stroke();
+            });
+        }
+    },
+};
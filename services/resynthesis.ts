@@ -0,0 +1,332 @@
+import type { AudioMetadata } from '../types';
+import { OrbitCodecError, type CodecErrorCode } from './codecErrors';
+import { griffinLim } from './griffinLim';
+import type { OrbitSource, RgbaImage } from './orbitCore';
+import type { ProgressReporter } from './progress';
+import {
+    bandPosition,
+    CODE_BITS,
+    levelToMagnitude,
+    SPECTROGRAM_RADII,
+    SWATCH_COUNT,
+    SWATCH_LEVELS,
+    swatchLevel,
+    unpackSpectrogramCode,
+    type SpectrogramCode,
+} from './spectrogramLayout';
+import { encodeWav } from './wav';
+import { safeFileName, stemOf } from '../utils/fileNames';
+
+// Plays back the spectrogram style from the picture alone, for copies whose
+// hidden data did not survive: screenshots, photos of a screen, recompressed
+// uploads. The reader finds the rim, turns the code ring until its sync pattern
+// and checksum read right, learns the colour map from the swatches and reads
+// every cell; Griffin-Lim then guesses the phases the picture never held.
+
+const RIM_RAYS = 72;
+const BRIGHT = 200; // Luma of the rim; nothing else that thin is as bright
+const DARK = 100;
+const RIM_MAX_THICKNESS = 0.03; // Share of the distance from the centre; the rim is drawn at about half of it
+const RIM_CLEARANCE = 0.015; // Dark space the rim needs on both sides, likewise
+const CODE_SAMPLES_PER_BIT = 16;
+const WINDOW_SECONDS = 0.032;
+const ITERATIONS = 32;
+const OUTPUT_PEAK = 0.9;
+
+/** Decode failures after which a lone image is tried as a spectrogram; the others need something from the user. */
+const RESYNTHESIS_FALLBACK_CODES: CodecErrorCode[] = ['not-an-orbit', 'header-corrupt', 'payload-checksum-mismatch', 'truncated', 'uncorrectable'];
+
+type Color = [number, number, number];
+
+/** What a spectrogram orbit's picture holds: its code and each column's levels, bands from the lowest up. */
+export interface SpectrogramReading {
+    code: SpectrogramCode;
+    levels: Float32Array[]; // Fractional levels on the colour map, 0 to 255
+}
+
+interface Circle {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+// --- READING THE PICTURE ---
+
+const luma = ([r, g, b]: Color) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/** The colour at a point between pixel centres, or null outside the image. */
+const sampleAt = (image: RgbaImage, x: number, y: number): Color | null => {
+    const px = x - 0.5;
+    const py = y - 0.5;
+    if (px < -0.5 || py < -0.5 || px > image.width - 0.5 || py > image.height - 0.5) return null;
+    const x0 = Math.max(0, Math.min(image.width - 1, Math.floor(px)));
+    const y0 = Math.max(0, Math.min(image.height - 1, Math.floor(py)));
+    const x1 = Math.min(image.width - 1, x0 + 1);
+    const y1 = Math.min(image.height - 1, y0 + 1);
+    const fx = Math.max(0, Math.min(1, px - x0));
+    const fy = Math.max(0, Math.min(1, py - y0));
+    const color: Color = [0, 0, 0];
+    for (let c = 0; c < 3; c++) {
+        const top = image.data[(y0 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y0 * image.width + x1) * 4 + c] * fx;
+        const bottom = image.data[(y1 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y1 * image.width + x1) * 4 + c] * fx;
+        color[c] = top * (1 - fy) + bottom * fy;
+    }
+    return color;
+};
+
+/**
+ * Walks rays out from a point inside the rim, and returns where each one
+ * crosses the outermost thin bright line with dark space on both sides.
+ */
+const findRimPoints = (image: RgbaImage, centreX: number, centreY: number): [number, number][] => {
+    const points: [number, number][] = [];
+    const reach = Math.hypot(image.width, image.height);
+    for (let ray = 0; ray < RIM_RAYS; ray++) {
+        const angle = ray / RIM_RAYS * Math.PI * 2;
+        const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+        // Luma every half pixel, up to the edge of the image
+        const profile: number[] = [];
+        for (let d = 0; d < reach; d += 0.5) {
+            const color = sampleAt(image, centreX + d * dx, centreY + d * dy);
+            if (!color) break;
+            profile.push(luma(color));
+        }
+
+        for (let end = profile.length - 1; end > 0; end--) {
+            if (profile[end] < BRIGHT) continue;
+            let start = end;
+            while (start > 0 && profile[start - 1] >= BRIGHT) start--;
+            const distance = (start + end) / 4;
+            // Only the far half of the clearance must be dark; the near half is left to blurred edges
+            const clearance = Math.max(4, Math.ceil(RIM_CLEARANCE * distance * 2));
+            const thin = (end - start + 1) / 2 <= Math.max(3, RIM_MAX_THICKNESS * distance);
+            const near = Math.floor(clearance / 2);
+            let clear = start - clearance >= 0;
+            for (let i = start - clearance; clear && i < start - near; i++) clear = profile[i] < DARK;
+            // Past the rim the image may end, as a tight crop does
+            for (let i = end + near + 1; clear && i <= end + clearance && i < profile.length; i++) clear = profile[i] < DARK;
+            if (thin && clear) {
+                points.push([centreX + distance * dx, centreY + distance * dy]);
+                break;
+            }
+            end = start;
+        }
+    }
+    return points;
+};
+
+/** The least-squares circle through points (Kåsa's fit), or null when they are too few or in a line. */
+const fitCircle = (points: [number, number][]): Circle | null => {
+    if (points.length < 3) return null;
+    // Centred on the points' mean, which keeps the sums small
+    const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+    const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+    let [xx, xy, yy, xz, yz, z] = [0, 0, 0, 0, 0, 0];
+    for (const [px, py] of points) {
+        const [x, y] = [px - meanX, py - meanY];
+        const r2 = x * x + y * y;
+        xx += x * x;
+        xy += x * y;
+        yy += y * y;
+        xz += x * r2;
+        yz += y * r2;
+        z += r2;
+    }
+    // With centred points the normal equations for the centre (a, b) reduce to two
+    const determinant = xx * yy - xy * xy;
+    if (Math.abs(determinant) < 1e-9) return null;
+    const a = (xz * yy - yz * xy) / determinant / 2;
+    const b = (yz * xx - xz * xy) / determinant / 2;
+    return { x: meanX + a, y: meanY + b, radius: Math.sqrt(a * a + b * b + z / points.length) };
+};
+
+/** Fits the rim, dropping points that missed it, or returns null when too few agree. */
+const fitRim = (points: [number, number][]): Circle | null => {
+    const first = fitCircle(points);
+    if (!first) return null;
+    const tolerance = Math.max(1.5, first.radius * 0.02);
+    const inliers = points.filter(([x, y]) => Math.abs(Math.hypot(x - first.x, y - first.y) - first.radius) <= tolerance);
+    return inliers.length >= RIM_RAYS / 2 ? fitCircle(inliers) : null;
+};
+
+/**
+ * Reads a spectrogram orbit from its picture, which may have been scaled,
+ * cropped around the orbit, rotated or recompressed. Returns null when the
+ * picture holds no spectrogram layout.
+ */
+export const readSpectrogramOrbit = (image: RgbaImage): SpectrogramReading | null => {
+    // A second pass from the first fit's centre sees the rim square on
+    let rim: Circle | null = { x: image.width / 2, y: image.height / 2, radius: 0 };
+    for (let pass = 0; pass < 2 && rim; pass++) rim = fitRim(findRimPoints(image, rim.x, rim.y));
+    if (!rim) return null;
+    const { x: centreX, y: centreY } = rim;
+    const canvasWidth = rim.radius / ((SPECTROGRAM_RADII.rimInner + SPECTROGRAM_RADII.rimOuter) / 2);
+
+    /** The mean colour over a grid of points in a ring sector, given in fractions of the canvas width and in radians. */
+    const sectorColor = (inner: number, outer: number, from: number, to: number, radialSteps: number, angularSteps: number): Color => {
+        const sum: Color = [0, 0, 0];
+        let count = 0;
+        for (let i = 0; i < radialSteps; i++) {
+            const radius = canvasWidth * (inner + (outer - inner) * (i + 0.5) / radialSteps);
+            for (let j = 0; j < angularSteps; j++) {
+                const angle = from + (to - from) * (j + 0.5) / angularSteps;
+                const color = sampleAt(image, centreX + radius * Math.cos(angle), centreY + radius * Math.sin(angle));
+                if (!color) continue;
+                for (let c = 0; c < 3; c++) sum[c] += color[c];
+                count++;
+            }
+        }
+        return count > 0 ? sum.map(value => value / count) as Color : [0, 0, 0];
+    };
+
+    // The code ring, read at every rotation; those that pass the sync pattern and checksum cluster around the true one
+    const { codeInner, codeOuter, swatchInner, swatchOuter, dataInner, dataOuter } = SPECTROGRAM_RADII;
+    const sampleCount = CODE_BITS * CODE_SAMPLES_PER_BIT;
+    const codeRing = Float64Array.from({ length: sampleCount }, (_, i) => {
+        const angle = i / sampleCount * Math.PI * 2;
+        const margin = (codeOuter - codeInner) / 4;
+        return luma(sectorColor(codeInner + margin, codeOuter - margin, angle, angle, 3, 1));
+    });
+    const sorted = Float64Array.from(codeRing).sort();
+    const threshold = (sorted[Math.floor(sampleCount * 0.1)] + sorted[Math.floor(sampleCount * 0.9)]) / 2;
+    let code: SpectrogramCode | null = null;
+    let [sumX, sumY] = [0, 0];
+    const bits = new Uint8Array(CODE_BITS);
+    for (let shift = 0; shift < sampleCount; shift++) {
+        for (let i = 0; i < CODE_BITS; i++) {
+            bits[i] = codeRing[(shift + i * CODE_SAMPLES_PER_BIT + CODE_SAMPLES_PER_BIT / 2) % sampleCount] > threshold ? 1 : 0;
+        }
+        const read = unpackSpectrogramCode(bits);
+        if (!read) continue;
+        code ??= read;
+        sumX += Math.cos(shift / sampleCount * Math.PI * 2);
+        sumY += Math.sin(shift / sampleCount * Math.PI * 2);
+    }
+    if (!code) return null;
+    const rotation = Math.atan2(sumY, sumX); // Where three o'clock of the layout ended up
+
+    // Each level's reference colour, from both of its swatches
+    const swatchMargin = (swatchOuter - swatchInner) / 4;
+    const references = Array.from({ length: SWATCH_LEVELS }, (_, level) => {
+        const sum: Color = [0, 0, 0];
+        for (const index of [level, level + SWATCH_LEVELS]) {
+            const from = rotation + (index + 0.25) / SWATCH_COUNT * Math.PI * 2;
+            const to = rotation + (index + 0.75) / SWATCH_COUNT * Math.PI * 2;
+            sectorColor(swatchInner + swatchMargin, swatchOuter - swatchMargin, from, to, 2, 3).forEach((value, c) => { sum[c] += value / 2; });
+        }
+        return sum;
+    });
+    // A map whose top is no brighter than its bottom was not read off a real layout
+    if (luma(references[SWATCH_LEVELS - 1]) - luma(references[0]) < 60) return null;
+    const levelOf = createLevelReader(references);
+
+    const { columns, bands } = code;
+    const bandWidth = (dataOuter - dataInner) / bands;
+    const levels = Array.from({ length: columns }, (_, column) => {
+        const from = rotation + (column + 0.25) / columns * Math.PI * 2;
+        const to = rotation + (column + 0.75) / columns * Math.PI * 2;
+        return Float32Array.from({ length: bands }, (_, band) => {
+            const inner = dataInner + (band + 0.25) * bandWidth;
+            return levelOf(sectorColor(inner, inner + bandWidth / 2, from, to, 2, 2));
+        });
+    });
+    return { code, levels };
+};
+
+/**
+ * Turns colours back into levels by their nearest point on the path through
+ * the swatches' colours, so a shift in tone, brightness or saturation is undone
+ * as long as the colours keep their order.
+ */
+const createLevelReader = (references: Color[]) => {
+    const levels = references.map((_, i) => swatchLevel(i));
+    return (color: Color): number => {
+        let best = Infinity;
+        let level = 0;
+        for (let i = 0; i < references.length - 1; i++) {
+            const [from, to] = [references[i], references[i + 1]];
+            const direction = [0, 1, 2].map(c => to[c] - from[c]);
+            const lengthSquared = direction.reduce((sum, d) => sum + d * d, 0);
+            const along = lengthSquared > 0
+                ? Math.max(0, Math.min(1, direction.reduce((sum, d, c) => sum + d * (color[c] - from[c]), 0) / lengthSquared))
+                : 0;
+            const distance = [0, 1, 2].reduce((sum, c) => sum + (color[c] - from[c] - along * direction[c]) ** 2, 0);
+            if (distance < best) {
+                best = distance;
+                level = levels[i] + along * (levels[i + 1] - levels[i]);
+            }
+        }
+        return level;
+    };
+};
+
+// --- RESYNTHESIS ---
+
+/**
+ * Rebuilds mono audio from a reading at twice its top frequency: the levels
+ * are interpolated onto a short-time Fourier grid and given phases by
+ * Griffin-Lim. Peaks are normalised, since the picture keeps levels only
+ * relative to the analysis.
+ */
+export const resynthesizeSpectrogram = (
+    { code, levels }: SpectrogramReading,
+    onProgress?: (fraction: number) => void,
+): { sampleRate: number; samples: Float32Array } => {
+    const { duration, columns, bands, maxFrequency } = code;
+    const sampleRate = maxFrequency * 2;
+    const windowSize = 2 ** Math.round(Math.log2(sampleRate * WINDOW_SECONDS));
+    const hopSize = windowSize / 4;
+    const length = Math.max(1, Math.round(duration * sampleRate));
+    const frames = Math.ceil(length / hopSize) + 1;
+    const bins = windowSize / 2 + 1;
+
+    const bandOf = Float64Array.from({ length: bins }, (_, k) =>
+        Math.max(0, Math.min(bands - 1, bandPosition(k * sampleRate / windowSize, bands, maxFrequency))));
+    const magnitudes = Array.from({ length: frames }, (_, t) => {
+        // Column c covers the c-th of `columns` equal stretches of the duration
+        const position = Math.max(0, Math.min(columns - 1, t * hopSize / length * columns - 0.5));
+        const column = Math.min(columns - 2, Math.floor(position));
+        const [before, after] = column >= 0 ? [levels[column], levels[column + 1]] : [levels[0], levels[0]];
+        const mix = column >= 0 ? position - column : 0;
+        return Float32Array.from(bandOf, (band) => {
+            const low = Math.min(bands - 1, Math.floor(band));
+            const high = Math.min(bands - 1, low + 1);
+            const between = band - low;
+            const at = (column: Float32Array) => column[low] + (column[high] - column[low]) * between;
+            return levelToMagnitude(at(before) + (at(after) - at(before)) * mix);
+        });
+    });
+
+    const samples = griffinLim(magnitudes, windowSize, hopSize, length, ITERATIONS, onProgress);
+    const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+    if (peak > 0) samples.forEach((sample, i) => { samples[i] = sample * OUTPUT_PEAK / peak; });
+    return { sampleRate, samples };
+};
+
+/**
+ * The fallback for an orbit whose hidden data is gone: a single image that
+ * failed to decode with one of the damage errors and holds a spectrogram
+ * layout is played back from the picture instead, as a WAV file. Returns null
+ * when the fallback does not apply, so the caller can rethrow the error.
+ */
+export const resynthesizeOrbit = (
+    sources: OrbitSource[],
+    error: unknown,
+    report: ProgressReporter,
+): { bytes: Uint8Array; mimeType: string; fileName: string; metadata: AudioMetadata } | null => {
+    if (!(error instanceof OrbitCodecError) || !RESYNTHESIS_FALLBACK_CODES.includes(error.code)) return null;
+    if (sources.length !== 1 || !('image' in sources[0])) return null;
+    const [source] = sources;
+
+    report('resynthesizing', 0, 'Looking for a spectrogram to play back...');
+    const reading = readSpectrogramOrbit(source.image);
+    if (!reading) return null;
+    report('resynthesizing', 0.05);
+    const { sampleRate, samples } = resynthesizeSpectrogram(reading, fraction => report('resynthesizing', 0.05 + fraction * 0.95));
+    return {
+        bytes: encodeWav({ sampleRate, channelData: [samples] }),
+        mimeType: 'audio/wav',
+        fileName: `${safeFileName(stemOf(source.name).replace(/\.orbit$/i, '')) || 'orbit'}-resynthesized.wav`,
+        metadata: { duration: reading.code.duration.toFixed(2) },
+    };
+};
@@ -0,0 +1,116 @@
+import type { AnimationOptions, AudioFeatures, CodecProgress } from '../types';
+import { animationFrameCount, resolveAnimationOptions } from './animation';
+import { CANVAS_SIZE } from './orbitCore';
+import { createProgressReporter } from './progress';
+import { createArtworkReveal, drawArtwork } from './renderers';
+
+// Records the reveal as a WebM video with the original audio. MediaRecorder
+// only captures in real time and only on the main thread, so this plays the
+// audio into the recording while the artwork builds up on a canvas.
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const HOLD_LAST_FRAME_MS = 1000; // The finished artwork stays on screen after the audio ends
+
+const supportedMimeType = () =>
+    typeof MediaRecorder === 'undefined' ? undefined : VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+/** Whether this browser can record WebM video. */
+export const canRecordRevealVideo = () => supportedMimeType() !== undefined;
+
+/**
+ * Records the artwork building up in step with its audio. Takes as long as the
+ * audio plays, which is silent: the sound only goes into the recording. The
+ * video ends on the still, held for a moment.
+ */
+export const recordRevealVideo = async (
+    audioFile: File,
+    features: AudioFeatures,
+    onProgress: (progress: CodecProgress) => void,
+    options: AnimationOptions = {},
+): Promise<Blob> => {
+    const { signal, style, variantSeed } = options;
+    const { fps, size } = resolveAnimationOptions(options);
+    const mimeType = supportedMimeType();
+    if (!mimeType) throw new Error('This browser cannot record WebM video. Export an APNG instead.');
+    const report = createProgressReporter(onProgress, signal);
+    report('animating', 0, 'Decoding audio...');
+
+    const audioContext = new AudioContext();
+    try {
+        const audioBuffer = await audioContext.decodeAudioData(await audioFile.arrayBuffer());
+        signal?.throwIfAborted();
+
+        const artwork = document.createElement('canvas');
+        artwork.width = artwork.height = CANVAS_SIZE;
+        const output = document.createElement('canvas');
+        output.width = output.height = size;
+        const artworkCtx = artwork.getContext('2d');
+        const outputCtx = output.getContext('2d');
+        if (!artworkCtx || !outputCtx) throw new Error('Could not get canvas context');
+        outputCtx.imageSmoothingQuality = 'high';
+        const present = () => outputCtx.drawImage(artwork, 0, 0, size, size);
+
+        const reveal = createArtworkReveal(artworkCtx, features, style, variantSeed);
+        present();
+
+        const destination = audioContext.createMediaStreamDestination();
+        const source = audioContext.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(destination);
+        const stream = new MediaStream([...output.captureStream(fps).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+        const recorder = new MediaRecorder(stream, { mimeType });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (event) => chunks.push(event.data);
+
+        const frameCount = animationFrameCount(features.duration, fps);
+        await new Promise<void>((resolve, reject) => {
+            let frame = 0;
+            let revealedSlices = 0;
+            let holdTimer: ReturnType<typeof setTimeout> | undefined;
+            const startTime = audioContext.currentTime;
+
+            const stop = (error?: unknown) => {
+                cancelAnimationFrame(frame);
+                clearTimeout(holdTimer);
+                source.onended = null;
+                signal?.removeEventListener('abort', onAbort);
+                recorder.onstop = () => error === undefined ? resolve() : reject(error);
+                if (recorder.state !== 'inactive') recorder.stop();
+                else recorder.onstop(new Event('stop'));
+            };
+            const onAbort = () => {
+                source.stop();
+                stop(signal?.reason);
+            };
+            signal?.addEventListener('abort', onAbort);
+
+            // Each slice appears once playback reaches it, as in the APNG
+            const tick = () => {
+                const elapsed = audioContext.currentTime - startTime;
+                const slices = Math.min(frameCount, Math.floor(elapsed * fps) + 1);
+                if (slices > revealedSlices) {
+                    reveal(slices / frameCount);
+                    revealedSlices = slices;
+                    present();
+                }
+                // Aborting cancels the next tick, so this never throws the abort reason
+                report('animating', elapsed / Math.max(features.duration, 1e-6), 'Recording video...');
+                frame = requestAnimationFrame(tick);
+            };
+            source.onended = () => {
+                cancelAnimationFrame(frame);
+                drawArtwork(artworkCtx, features, style, variantSeed);
+                present();
+                report('finalizing', 0, 'Finishing video...');
+                holdTimer = setTimeout(() => stop(), HOLD_LAST_FRAME_MS);
+            };
+
+            recorder.start();
+            source.start();
+            frame = requestAnimationFrame(tick);
+        });
+        return new Blob(chunks, { type: 'video/webm' });
+    } finally {
+        await audioContext.close();
+    }
+};
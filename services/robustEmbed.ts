@@ -0,0 +1,212 @@
+import type { RgbaImage } from './orbitCore';
+import { mulberry32 } from './random';
+import { rsProtect, rsRecover } from './reedSolomon';
+
+// The robust container, for payloads of up to two kilobytes that must survive chat
+// apps and social sites. JPEG conversion and resizing wipe out every low bit,
+// but not the average brightness of a patch of pixels, so each bit here moves
+// the mean of one cell of a grid onto one of two interleaved lattices
+// (quantization index modulation). Cells are 8×8 pixels as drawn, one JPEG
+// block, whose DC term keeps the mean almost exactly. The grid is laid over the
+// image in relative terms, so a uniformly resized copy still lines up.
+//
+// Every 8th cell in both directions holds a known sync bit, by which the decoder
+// recognises the layout and its grid size. The other cells carry Reed-Solomon
+// codewords, whitened and spread over the image by a fixed shuffle, each bit at
+// least three times over; the decoder adds up the copies before deciding.
+
+export const ROBUST_CELL_SIZE = 8; // Pixels per cell side in the image as encoded
+const STEP = 24; // Lattice step in 8-bit levels; no cell moves by more than half of it
+const LOWEST_TARGET = STEP / 4; // Means kept away from black and white, where JPEG clips
+const HIGHEST_TARGET = 255 - STEP / 4;
+const SYNC_SPACING = 8;
+const MIN_COPIES = 3;
+const PARITY_SYMBOLS = 32;
+const CODEWORD_LENGTH = 255;
+const READ_INSET = 0.125; // The decoder skips the edge of each cell, which resizing smears into its neighbours
+const SYNC_THRESHOLD = 0.75; // Share of sync cells that must read right; unrelated images get about half
+
+/** Where one grid size puts its sync and data bits. */
+interface RobustLayout {
+    grid: number; // Cells per side
+    syncCells: Uint32Array;
+    syncBits: Uint8Array;
+    dataCells: Uint32Array; // In the shuffled order the coded bits are written in
+    whitening: Uint8Array; // XORed over the coded bytes, so padding does not draw a pattern
+    codedBytes: number; // Whole Reed-Solomon codewords
+    dataBytes: number; // What the codewords carry
+}
+
+const layouts = new Map<number, RobustLayout>();
+
+const layoutFor = (grid: number): RobustLayout => {
+    const cached = layouts.get(grid);
+    if (cached) return cached;
+
+    const random = mulberry32(0x4F524241 ^ grid); // 'ORBA'
+    const syncCells: number[] = [];
+    const dataCells: number[] = [];
+    for (let cell = 0; cell < grid * grid; cell++) {
+        const isSync = (cell % grid) % SYNC_SPACING === 0 && Math.floor(cell / grid) % SYNC_SPACING === 0;
+        (isSync ? syncCells : dataCells).push(cell);
+    }
+    for (let i = dataCells.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [dataCells[i], dataCells[j]] = [dataCells[j], dataCells[i]];
+    }
+
+    const codewords = Math.floor(dataCells.length / (MIN_COPIES * 8 * CODEWORD_LENGTH));
+    const codedBytes = codewords * CODEWORD_LENGTH;
+    const layout: RobustLayout = {
+        grid,
+        syncCells: Uint32Array.from(syncCells),
+        syncBits: Uint8Array.from(syncCells, () => (random() < 0.5 ? 0 : 1)),
+        dataCells: Uint32Array.from(dataCells),
+        whitening: Uint8Array.from({ length: codedBytes }, () => Math.floor(random() * 256)),
+        codedBytes,
+        dataBytes: codewords * (CODEWORD_LENGTH - PARITY_SYMBOLS),
+    };
+    layouts.set(grid, layout);
+    return layout;
+};
+
+/** Bytes the robust container holds in a square image of `canvasSize` pixels per side. */
+export const robustCapacity = (canvasSize: number): number => layoutFor(Math.floor(canvasSize / ROBUST_CELL_SIZE)).dataBytes;
+
+/** The pixel rectangle of a cell, shrunk on every side by an inset given as a share of its size. */
+const cellBounds = (image: RgbaImage, grid: number, cell: number, inset = 0) => {
+    const cellX = cell % grid;
+    const cellY = Math.floor(cell / grid);
+    const scaleX = image.width / grid;
+    const scaleY = image.height / grid;
+    const left = Math.floor((cellX + inset) * scaleX);
+    const top = Math.floor((cellY + inset) * scaleY);
+    return {
+        left,
+        top,
+        right: Math.max(left + 1, Math.ceil((cellX + 1 - inset) * scaleX)),
+        bottom: Math.max(top + 1, Math.ceil((cellY + 1 - inset) * scaleY)),
+    };
+};
+
+type Bounds = ReturnType<typeof cellBounds>;
+
+const contains = (bounds: Bounds, x: number, y: number) =>
+    x >= bounds.left && x < bounds.right && y >= bounds.top && y < bounds.bottom;
+
+/** The mean luma (JPEG's Y) over a rectangle, less any hole cut out of it. */
+const meanOf = (image: RgbaImage, bounds: Bounds, hole?: Bounds): number => {
+    let sum = 0;
+    let count = 0;
+    for (let y = bounds.top; y < bounds.bottom; y++) {
+        for (let x = bounds.left; x < bounds.right; x++) {
+            if (hole && contains(hole, x, y)) continue;
+            const i = (y * image.width + x) * 4;
+            sum += 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+            count++;
+        }
+    }
+    return count > 0 ? sum / count : NaN;
+};
+
+/** Shifts a region's pixels until their mean is on the target, taking another pass or two where channels clip. */
+const moveMean = (image: RgbaImage, target: number, bounds: Bounds, hole?: Bounds) => {
+    for (let pass = 0; pass < 3; pass++) {
+        const shift = target - meanOf(image, bounds, hole);
+        if (!(Math.abs(shift) >= 0.5)) break; // Also stops for an empty region, whose mean is NaN
+        for (let y = bounds.top; y < bounds.bottom; y++) {
+            for (let x = bounds.left; x < bounds.right; x++) {
+                if (hole && contains(hole, x, y)) continue;
+                const i = (y * image.width + x) * 4;
+                for (let c = 0; c < 3; c++) image.data[i + c] += shift;
+            }
+        }
+    }
+};
+
+/**
+ * Moves a cell's mean to the nearest lattice point for the bit. The middle the
+ * decoder reads and the ring around it each get that mean, so texture inside
+ * the cell cannot pull the two apart.
+ */
+const writeCell = (image: RgbaImage, grid: number, cell: number, bit: number) => {
+    const bounds = cellBounds(image, grid, cell);
+    const middle = cellBounds(image, grid, cell, READ_INSET);
+    const offset = bit * STEP / 2;
+    let target = Math.round((meanOf(image, bounds) - offset) / STEP) * STEP + offset;
+    while (target < LOWEST_TARGET) target += STEP;
+    while (target > HIGHEST_TARGET) target -= STEP;
+    moveMean(image, target, middle);
+    moveMean(image, target, bounds, middle);
+};
+
+/**
+ * How strongly a cell reads as a 0 (towards +1) or a 1 (towards -1), from how
+ * close its mean is to either lattice.
+ */
+const readCell = (image: RgbaImage, grid: number, cell: number): number =>
+    Math.cos(2 * Math.PI * meanOf(image, cellBounds(image, grid, cell, READ_INSET)) / STEP);
+
+/**
+ * Writes a frame into a square image whose side is a multiple of the cell size.
+ * Throws when the frame is longer than `robustCapacity` allows.
+ */
+export const embedRobust = (image: RgbaImage, frame: Uint8Array, onProgress?: (fraction: number) => void) => {
+    if (image.width !== image.height || image.width % ROBUST_CELL_SIZE !== 0) {
+        throw new Error(`The robust container needs a square image with sides a multiple of ${ROBUST_CELL_SIZE}, not ${image.width}x${image.height}.`);
+    }
+    const layout = layoutFor(image.width / ROBUST_CELL_SIZE);
+    if (frame.length > layout.dataBytes) {
+        throw new Error(`The robust container holds ${layout.dataBytes} bytes in a ${image.width}x${image.height} image, not ${frame.length}.`);
+    }
+
+    const data = new Uint8Array(layout.dataBytes);
+    data.set(frame);
+    const coded = rsProtect(data, PARITY_SYMBOLS).map((byte, i) => byte ^ layout.whitening[i]);
+    const codedBits = layout.codedBytes * 8;
+
+    const { grid, syncCells, syncBits, dataCells } = layout;
+    syncCells.forEach((cell, i) => writeCell(image, grid, cell, syncBits[i]));
+    for (let i = 0; i < dataCells.length; i++) {
+        const bit = i % codedBits;
+        writeCell(image, grid, dataCells[i], (coded[bit >> 3] >> (7 - (bit & 7))) & 1);
+        if (onProgress && i % 4096 === 0) onProgress(i / dataCells.length);
+    }
+    onProgress?.(1);
+};
+
+/**
+ * Looks for the sync cells of each grid size in turn, and returns the first
+ * grid whose sync bits read right, or null when the image has no robust layer.
+ */
+export const detectRobustGrid = (image: RgbaImage, grids: number[]): number | null => {
+    for (const grid of grids) {
+        if (image.width < grid || image.height < grid) continue;
+        const { syncCells, syncBits } = layoutFor(grid);
+        let matches = 0;
+        syncCells.forEach((cell, i) => {
+            if ((readCell(image, grid, cell) < 0 ? 1 : 0) === syncBits[i]) matches++;
+        });
+        if (matches >= syncCells.length * SYNC_THRESHOLD) return grid;
+    }
+    return null;
+};
+
+/**
+ * Reads the frame back from an image with a robust layer of the given grid
+ * size, repairing what error correction can. Returns null when it cannot.
+ * The frame comes back padded to the layer's capacity.
+ */
+export const extractRobust = (image: RgbaImage, grid: number): { data: Uint8Array; correctedErrors: number } | null => {
+    const layout = layoutFor(grid);
+    const codedBits = layout.codedBytes * 8;
+    const votes = new Float64Array(codedBits);
+    layout.dataCells.forEach((cell, i) => { votes[i % codedBits] += readCell(image, grid, cell); });
+
+    const coded = new Uint8Array(layout.codedBytes);
+    for (let bit = 0; bit < codedBits; bit++) {
+        if (votes[bit] < 0) coded[bit >> 3] |= 1 << (7 - (bit & 7));
+    }
+    coded.forEach((byte, i) => { coded[i] = byte ^ layout.whitening[i]; });
+    return rsRecover(coded, layout.dataBytes, PARITY_SYMBOLS);
+};
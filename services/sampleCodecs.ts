@@ -0,0 +1,203 @@
+// Compact sample encodings for lossy copies of audio too long to embed as it is:
+// G.711 μ-law at 8 bits and IMA ADPCM at 4 bits per sample. Both are old, tiny
+// and in the WAV specification, so the copies open in most audio tools. IMA
+// ADPCM at 2 bits, for speech in the couple of kilobytes of the robust
+// container, is not, and few tools read it; decoding turns every copy into
+// 16-bit PCM anyway.
+
+// --- μ-LAW ---
+
+const MU_LAW_BIAS = 0x84;
+const MU_LAW_CLIP = 32635;
+
+/**
+ * Compresses one sample in [-1, 1] to a μ-law byte.
+ */
+export const encodeMuLaw = (sample: number): number => {
+    let value = Math.round(Math.max(-1, Math.min(1, sample)) * 0x7FFF);
+    const sign = value < 0 ? 0x80 : 0;
+    value = Math.min(Math.abs(value), MU_LAW_CLIP) + MU_LAW_BIAS;
+    let exponent = 7;
+    for (let mask = 0x4000; (value & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+    const mantissa = (value >> (exponent + 3)) & 0x0F;
+    return ~(sign | (exponent << 4) | mantissa) & 0xFF;
+};
+
+/**
+ * Expands a μ-law byte back to a sample in [-1, 1].
+ */
+export const decodeMuLaw = (byte: number): number => {
+    const value = ~byte & 0xFF;
+    const exponent = (value >> 4) & 0x07;
+    const magnitude = ((((value & 0x0F) << 3) + MU_LAW_BIAS) << exponent) - MU_LAW_BIAS;
+    return (value & 0x80 ? -magnitude : magnitude) / 0x8000;
+};
+
+// --- IMA ADPCM ---
+
+const IMA_STEPS = [
+    7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45, 50, 55, 60, 66, 73, 80, 88, 97,
+    107, 118, 130, 143, 157, 173, 190, 209, 230, 253, 279, 307, 337, 371, 408, 449, 494, 544, 598, 658, 724, 796,
+    876, 963, 1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066, 2272, 2499, 2749, 3024, 3327, 3660, 4026, 4428, 4871,
+    5358, 5894, 6484, 7132, 7845, 8630, 9493, 10442, 11487, 12635, 13899, 15289, 16818, 18500, 20350, 22385, 24623,
+    27086, 29794, 32767,
+];
+const IMA_INDEX_STEPS = [-1, -1, -1, -1, 2, 4, 6, 8];
+const IMA_INDEX_STEPS_2BIT = [-1, 2];
+
+/** Bits per sample IMA ADPCM is written at: the usual 4, or 2 for speech in very little space. */
+export type ImaBits = 2 | 4;
+
+/** One channel's predictor and step index, carried from sample to sample. */
+interface ImaState {
+    predictor: number;
+    index: number;
+}
+
+const clampSample = (value: number) => Math.max(-0x8000, Math.min(0x7FFF, value));
+
+/**
+ * Moves the state by one nibble, the same way when encoding and decoding.
+ */
+const applyNibble = (state: ImaState, nibble: number) => {
+    const step = IMA_STEPS[state.index];
+    let delta = step >> 3;
+    if (nibble & 4) delta += step;
+    if (nibble & 2) delta += step >> 1;
+    if (nibble & 1) delta += step >> 2;
+    state.predictor = clampSample(state.predictor + (nibble & 8 ? -delta : delta));
+    state.index = Math.max(0, Math.min(IMA_STEPS.length - 1, state.index + IMA_INDEX_STEPS[nibble & 7]));
+};
+
+/**
+ * Moves the state by one 2-bit code: a sign and whether the step is taken
+ * half or one and a half times.
+ */
+const applyCode2Bit = (state: ImaState, code: number) => {
+    const step = IMA_STEPS[state.index];
+    const delta = code & 1 ? step + (step >> 1) : step >> 1;
+    state.predictor = clampSample(state.predictor + (code & 2 ? -delta : delta));
+    state.index = Math.max(0, Math.min(IMA_STEPS.length - 1, state.index + IMA_INDEX_STEPS_2BIT[code & 1]));
+};
+
+/** Picks the 2-bit code that brings the predictor closest to the sample. */
+const chooseCode2Bit = (state: ImaState, sample: number): number => {
+    const diff = sample - state.predictor;
+    return (diff < 0 ? 2 : 0) | (Math.abs(diff) >= IMA_STEPS[state.index] ? 1 : 0);
+};
+
+/**
+ * Picks the nibble that brings the predictor closest to the sample.
+ */
+const chooseNibble = (state: ImaState, sample: number): number => {
+    let diff = sample - state.predictor;
+    let nibble = 0;
+    if (diff < 0) {
+        nibble = 8;
+        diff = -diff;
+    }
+    let step = IMA_STEPS[state.index];
+    for (let bit = 4; bit > 0; bit >>= 1, step >>= 1) {
+        if (diff >= step) {
+            nibble |= bit;
+            diff -= step;
+        }
+    }
+    return nibble;
+};
+
+/**
+ * The customary block size at a sample rate: larger blocks for higher rates,
+ * and smaller ones below them, so a clip of a few hundred bytes is not mostly padding.
+ */
+export const imaBlockAlign = (sampleRate: number, channels: number): number =>
+    (sampleRate <= 4000 ? 128 : sampleRate <= 11025 ? 256 : sampleRate <= 22050 ? 512 : 1024) * channels;
+
+/** Samples per channel in one block: the one in its header and the rest packed into its data bytes. */
+export const imaSamplesPerBlock = (blockAlign: number, channels: number, bits: ImaBits = 4): number =>
+    (blockAlign - 4 * channels) * (8 / bits) / channels + 1;
+
+/**
+ * Encodes samples in the Microsoft IMA ADPCM block layout: each block starts with
+ * every channel's first sample and step index, then interleaves the channels
+ * four bytes (eight samples, or sixteen at 2 bits) at a time, the earliest in
+ * the lowest bits. The last block is padded with silence.
+ */
+export const encodeImaAdpcm = (channelData: Float32Array[], blockAlign: number, bits: ImaBits = 4): Uint8Array => {
+    const channels = channelData.length;
+    const frameCount = channelData[0]?.length ?? 0;
+    const samplesPerBlock = imaSamplesPerBlock(blockAlign, channels, bits);
+    const samplesPerGroup = 32 / bits;
+    const blockCount = Math.ceil(frameCount / samplesPerBlock);
+    const out = new Uint8Array(blockCount * blockAlign);
+    const states: ImaState[] = channelData.map(() => ({ predictor: 0, index: 0 }));
+    const sampleAt = (c: number, frame: number) =>
+        frame < frameCount ? clampSample(Math.round(channelData[c][frame] * 0x7FFF)) : 0;
+    const [choose, apply] = bits === 2 ? [chooseCode2Bit, applyCode2Bit] : [chooseNibble, applyNibble];
+
+    for (let block = 0; block < blockCount; block++) {
+        const start = block * samplesPerBlock;
+        let offset = block * blockAlign;
+        for (let c = 0; c < channels; c++) {
+            const state = states[c];
+            state.predictor = sampleAt(c, start);
+            out[offset] = state.predictor & 0xFF;
+            out[offset + 1] = (state.predictor >> 8) & 0xFF;
+            out[offset + 2] = state.index;
+            offset += 4;
+        }
+        for (let group = 1; group < samplesPerBlock; group += samplesPerGroup) {
+            for (let c = 0; c < channels; c++) {
+                for (let i = 0; i < samplesPerGroup; i++) {
+                    const code = choose(states[c], sampleAt(c, start + group + i));
+                    apply(states[c], code);
+                    out[offset + ((i * bits) >> 3)] |= code << ((i * bits) & 7);
+                }
+                offset += 4;
+            }
+        }
+    }
+    return out;
+};
+
+/**
+ * Decodes IMA ADPCM blocks written as `encodeImaAdpcm` writes them, stopping
+ * after `frameCount` samples per channel.
+ */
+export const decodeImaAdpcm = (
+    data: Uint8Array,
+    channels: number,
+    blockAlign: number,
+    frameCount: number,
+    bits: ImaBits = 4,
+): Float32Array[] => {
+    const samplesPerBlock = imaSamplesPerBlock(blockAlign, channels, bits);
+    const samplesPerGroup = 32 / bits;
+    const mask = (1 << bits) - 1;
+    const apply = bits === 2 ? applyCode2Bit : applyNibble;
+    const channelData = Array.from({ length: channels }, () => new Float32Array(frameCount));
+    const blockCount = Math.min(Math.floor(data.length / blockAlign), Math.ceil(frameCount / samplesPerBlock));
+
+    for (let block = 0; block < blockCount; block++) {
+        const start = block * samplesPerBlock;
+        let offset = block * blockAlign;
+        const states: ImaState[] = [];
+        for (let c = 0; c < channels; c++) {
+            const predictor = (data[offset] | (data[offset + 1] << 8)) << 16 >> 16;
+            states.push({ predictor, index: Math.min(data[offset + 2], IMA_STEPS.length - 1) });
+            if (start < frameCount) channelData[c][start] = predictor / 0x8000;
+            offset += 4;
+        }
+        for (let group = 1; group < samplesPerBlock; group += samplesPerGroup) {
+            for (let c = 0; c < channels; c++) {
+                for (let i = 0; i < samplesPerGroup; i++) {
+                    apply(states[c], (data[offset + ((i * bits) >> 3)] >> ((i * bits) & 7)) & mask);
+                    const frame = start + group + i;
+                    if (frame < frameCount) channelData[c][frame] = states[c].predictor / 0x8000;
+                }
+                offset += 4;
+            }
+        }
+    }
+    return channelData;
+};
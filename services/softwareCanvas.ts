@@ -0,0 +1,303 @@
+import type { RgbaImage } from './orbitCore';
+import type { OrbitDrawingContext } from './renderers';
+
+type Rgba = [number, number, number, number]; // Channels 0-255, alpha 0-1
+
+/** A path segment list; arcs are flattened, full circles are also kept exactly. */
+interface Subpath {
+    points: number[]; // x, y pairs
+    circle?: { x: number; y: number; radius: number };
+}
+
+const ARC_SEGMENT_LENGTH = 2; // Pixels per straight piece when an arc is flattened
+
+/**
+ * A linear gradient with color stops, evaluated per pixel.
+ */
+class LinearGradient implements CanvasGradient {
+    private readonly stops: { offset: number; color: Rgba }[] = [];
+
+    constructor(private readonly x0: number, private readonly y0: number, private readonly x1: number, private readonly y1: number) {}
+
+    addColorStop(offset: number, color: string) {
+        this.stops.push({ offset, color: parseColor(color) });
+        this.stops.sort((a, b) => a.offset - b.offset);
+    }
+
+    colorAt(x: number, y: number): Rgba {
+        const dx = this.x1 - this.x0;
+        const dy = this.y1 - this.y0;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : ((x - this.x0) * dx + (y - this.y0) * dy) / lengthSq;
+        const { stops } = this;
+        if (stops.length === 0) return [0, 0, 0, 0];
+        if (t <= stops[0].offset) return stops[0].color;
+        for (let i = 1; i < stops.length; i++) {
+            if (t <= stops[i].offset) {
+                const from = stops[i - 1];
+                const to = stops[i];
+                const mix = (t - from.offset) / (to.offset - from.offset || 1);
+                return from.color.map((value, c) => value + (to.color[c] - value) * mix) as Rgba;
+            }
+        }
+        return stops[stops.length - 1].color;
+    }
+}
+
+/**
+ * Parses the CSS color forms the renderers use: `#rgb`, `#rrggbb`, `rgb()`,
+ * `rgba()`, `hsl()` and `hsla()`.
+ */
+const parseColor = (color: string): Rgba => {
+    const value = color.trim().toLowerCase();
+    if (value.startsWith('#')) {
+        const hex = value.length === 4 ? value.slice(1).split('').map(h => h + h).join('') : value.slice(1);
+        const n = parseInt(hex, 16);
+        return [(n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF, 1];
+    }
+
+    const match = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(value);
+    if (!match) throw new Error(`Unsupported color: ${color}`);
+    const args = match[2].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+    const alpha = args[3] ?? 1;
+    if (match[1].startsWith('rgb')) return [args[0], args[1], args[2], alpha];
+
+    // HSL to RGB, as in the CSS Color specification
+    const [hue, saturation, lightness] = [args[0], args[1] / 100, args[2] / 100];
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return 255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+    };
+    return [channel(0), channel(8), channel(4), alpha];
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * A small software implementation of the canvas calls the orbit renderers make,
+ * so artwork can be drawn where no DOM canvas exists (the command-line tool).
+ * Strokes are anti-aliased by their distance to each segment, full circles by
+ * their distance to the centre; other filled paths are not anti-aliased. Only
+ * the `source-over` and `lighter` composite operations are implemented.
+ */
+export class SoftwareCanvasContext implements OrbitDrawingContext {
+    readonly canvas: { width: number; height: number };
+    fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+    strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+    lineWidth = 1;
+    lineCap: CanvasLineCap = 'butt';
+    globalAlpha = 1;
+    globalCompositeOperation: GlobalCompositeOperation = 'source-over';
+
+    private readonly data: Uint8ClampedArray;
+    private subpaths: Subpath[] = [];
+
+    constructor(width: number, height: number) {
+        this.canvas = { width, height };
+        this.data = new Uint8ClampedArray(width * height * 4);
+    }
+
+    /** The drawn pixels. The array is shared, not copied. */
+    getImageData(): RgbaImage {
+        return { data: this.data, width: this.canvas.width, height: this.canvas.height };
+    }
+
+    createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient {
+        return new LinearGradient(x0, y0, x1, y1);
+    }
+
+    fillRect(x: number, y: number, w: number, h: number) {
+        const paint = this.paint(this.fillStyle);
+        const { width, height } = this.canvas;
+        for (let py = Math.max(0, Math.floor(y)); py < Math.min(height, Math.ceil(y + h)); py++) {
+            const coverY = Math.min(py + 1, y + h) - Math.max(py, y);
+            for (let px = Math.max(0, Math.floor(x)); px < Math.min(width, Math.ceil(x + w)); px++) {
+                const coverX = Math.min(px + 1, x + w) - Math.max(px, x);
+                this.blend(px, py, paint(px + 0.5, py + 0.5), coverX * coverY);
+            }
+        }
+    }
+
+    beginPath() {
+        this.subpaths = [];
+    }
+
+    moveTo(x: number, y: number) {
+        this.subpaths.push({ points: [x, y] });
+    }
+
+    lineTo(x: number, y: number) {
+        const current = this.subpaths[this.subpaths.length - 1];
+        if (!current) return this.moveTo(x, y);
+        current.points.push(x, y);
+        current.circle = undefined;
+    }
+
+    arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+        let sweep = endAngle - startAngle;
+        if (!counterclockwise && sweep < 0) sweep = sweep % (2 * Math.PI) + 2 * Math.PI;
+        if (counterclockwise && sweep > 0) sweep = sweep % (2 * Math.PI) - 2 * Math.PI;
+        const isFullCircle = Math.abs(sweep) >= 2 * Math.PI;
+        if (isFullCircle) sweep = Math.sign(sweep) * 2 * Math.PI;
+
+        const steps = Math.max(8, Math.ceil(Math.abs(sweep) * radius / ARC_SEGMENT_LENGTH));
+        const current = this.subpaths[this.subpaths.length - 1];
+        const startsNew = !current || current.points.length === 0;
+        const points: number[] = [];
+        for (let i = 0; i <= steps; i++) {
+            const angle = startAngle + sweep * i / steps;
+            points.push(x + radius * Math.cos(angle), y + radius * Math.sin(angle));
+        }
+        if (startsNew) {
+            this.subpaths.push({ points, ...(isFullCircle && { circle: { x, y, radius } }) });
+        } else {
+            current.points.push(...points);
+            current.circle = undefined;
+        }
+    }
+
+    fill() {
+        const paint = this.paint(this.fillStyle);
+        for (const subpath of this.subpaths) {
+            if (subpath.circle) {
+                this.fillCircle(subpath.circle, paint);
+            } else {
+                this.fillPolygon(subpath.points, paint);
+            }
+        }
+    }
+
+    stroke() {
+        const paint = this.paint(this.strokeStyle);
+        for (const { points } of this.subpaths) {
+            for (let i = 2; i < points.length; i += 2) {
+                this.strokeSegment(points[i - 2], points[i - 1], points[i], points[i + 1], paint);
+            }
+        }
+    }
+
+    /**
+     * Resolves a fill or stroke style to a per-pixel color lookup.
+     */
+    private paint(style: string | CanvasGradient | CanvasPattern): (x: number, y: number) => Rgba {
+        if (typeof style === 'string') {
+            const color = parseColor(style);
+            return () => color;
+        }
+        if (style instanceof LinearGradient) return (x, y) => style.colorAt(x, y);
+        throw new Error('Patterns are not supported by the software canvas.');
+    }
+
+    /**
+     * Composites one color onto a pixel with the given coverage.
+     */
+    private blend(x: number, y: number, color: Rgba, coverage: number) {
+        const alpha = color[3] * coverage * this.globalAlpha;
+        if (alpha <= 0) return;
+        const index = (y * this.canvas.width + x) * 4;
+        const { data } = this;
+        if (this.globalCompositeOperation === 'lighter') {
+            data[index] += color[0] * alpha;
+            data[index + 1] += color[1] * alpha;
+            data[index + 2] += color[2] * alpha;
+            data[index + 3] += alpha * 255;
+        } else {
+            data[index] = color[0] * alpha + data[index] * (1 - alpha);
+            data[index + 1] = color[1] * alpha + data[index + 1] * (1 - alpha);
+            data[index + 2] = color[2] * alpha + data[index + 2] * (1 - alpha);
+            data[index + 3] = alpha * 255 + data[index + 3] * (1 - alpha);
+        }
+    }
+
+    /**
+     * Draws one anti-aliased line segment. It walks the segment's major axis and
+     * only visits the pixels near the line on each step, so long thin strokes
+     * stay cheap.
+     */
+    private strokeSegment(x0: number, y0: number, x1: number, y1: number, paint: (x: number, y: number) => Rgba) {
+        const { width, height } = this.canvas;
+        const half = this.lineWidth / 2;
+        const reach = half + 1;
+        const dx = x1 - x0;
+        const dy = y1 - y0;
+        const length = Math.hypot(dx, dy);
+        const roundCaps = this.lineCap !== 'butt';
+
+        const steep = Math.abs(dy) > Math.abs(dx);
+        const [a0, b0, a1, b1] = steep ? [y0, x0, y1, x1] : [x0, y0, x1, y1];
+        const da = a1 - a0;
+        const db = b1 - b0;
+        const spread = da === 0 ? reach : reach * length / Math.abs(da);
+
+        for (let a = Math.floor(Math.min(a0, a1) - reach); a <= Math.ceil(Math.max(a0, a1) + reach); a++) {
+            const t = da === 0 ? 0 : clamp01((a + 0.5 - a0) / da);
+            const center = b0 + db * t;
+            for (let b = Math.floor(center - spread); b <= Math.ceil(center + spread); b++) {
+                const [px, py] = steep ? [b, a] : [a, b];
+                if (px < 0 || py < 0 || px >= width || py >= height) continue;
+
+                const cx = px + 0.5;
+                const cy = py + 0.5;
+                const along = length === 0 ? 0 : ((cx - x0) * dx + (cy - y0) * dy) / length;
+                const nearest = length === 0 ? 0 : clamp01(along / length);
+                const distance = Math.hypot(cx - (x0 + dx * nearest), cy - (y0 + dy * nearest));
+                let coverage = clamp01(half + 0.5 - distance);
+                if (!roundCaps) {
+                    // Butt caps end flat at the endpoints instead of rounding past them
+                    const overshoot = Math.max(-along, along - length, 0);
+                    coverage = Math.min(coverage, clamp01(0.5 - overshoot));
+                }
+                if (coverage > 0) this.blend(px, py, paint(cx, cy), coverage);
+            }
+        }
+    }
+
+    private fillCircle({ x, y, radius }: { x: number; y: number; radius: number }, paint: (x: number, y: number) => Rgba) {
+        const { width, height } = this.canvas;
+        if (radius < 0.5) {
+            // Smaller than a pixel: spread the circle's area over the pixel holding its centre
+            const px = Math.floor(x);
+            const py = Math.floor(y);
+            if (px >= 0 && py >= 0 && px < width && py < height) {
+                this.blend(px, py, paint(x, y), Math.PI * radius * radius);
+            }
+            return;
+        }
+        for (let py = Math.max(0, Math.floor(y - radius - 1)); py <= Math.min(height - 1, Math.ceil(y + radius + 1)); py++) {
+            for (let px = Math.max(0, Math.floor(x - radius - 1)); px <= Math.min(width - 1, Math.ceil(x + radius + 1)); px++) {
+                const coverage = clamp01(radius + 0.5 - Math.hypot(px + 0.5 - x, py + 0.5 - y));
+                if (coverage > 0) this.blend(px, py, paint(px + 0.5, py + 0.5), coverage);
+            }
+        }
+    }
+
+    /**
+     * Fills a closed polygon with the nonzero winding rule, one scanline at a time.
+     */
+    private fillPolygon(points: number[], paint: (x: number, y: number) => Rgba) {
+        const { width, height } = this.canvas;
+        if (points.length < 6) return;
+        const ys = points.filter((_, i) => i % 2 === 1);
+        for (let py = Math.max(0, Math.floor(Math.min(...ys))); py <= Math.min(height - 1, Math.ceil(Math.max(...ys))); py++) {
+            const cy = py + 0.5;
+            const crossings: { x: number; winding: number }[] = [];
+            for (let i = 0; i < points.length; i += 2) {
+                const j = (i + 2) % points.length;
+                const [xa, ya, xb, yb] = [points[i], points[i + 1], points[j], points[j + 1]];
+                if ((ya <= cy) === (yb <= cy)) continue;
+                crossings.push({ x: xa + (cy - ya) / (yb - ya) * (xb - xa), winding: yb > ya ? 1 : -1 });
+            }
+            crossings.sort((a, b) => a.x - b.x);
+
+            let winding = 0;
+            for (let k = 0; k < crossings.length - 1; k++) {
+                winding += crossings[k].winding;
+                if (winding === 0) continue;
+                for (let px = Math.max(0, Math.round(crossings[k].x)); px < Math.min(width, Math.round(crossings[k + 1].x)); px++) {
+                    this.blend(px, py, paint(px + 0.5, cy), 1);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,158 @@
+import { crc32 } from './crc32';
+
+// The spectrogram style draws the audio's magnitude spectrogram in a fixed,
+// documented polar layout, so the picture alone can be turned back into sound:
+// a screenshot or a JPEG copy that lost every hidden bit still plays back an
+// approximation. All radii are fractions of the canvas width, from its centre.
+//
+//   0.12 - 0.40   Data. Time runs once clockwise from three o'clock, in equal
+//                 columns; frequency runs outwards from 0 Hz to the highest
+//                 frequency in the code, in bands equally spaced on the mel
+//                 scale. Each cell's colour is its level on the colour map,
+//                 0 for -100 dB and 255 for -30 dB, as the analysis scales it.
+//   0.415 - 0.435 Calibration swatches: 64 sectors, the colour map at 32 even
+//                 levels twice over, starting at three o'clock, so a reader can
+//                 undo whatever a screen, camera or encoder did to the colours.
+//   0.445 - 0.465 Code: 96 sectors, one bit each, the colour map's top for 1
+//                 and its bottom for 0, starting at three o'clock. It opens
+//                 with a fixed sync pattern that fixes the rotation, and holds
+//                 the duration, the column and band counts and the top
+//                 frequency, checked by a 16-bit CRC (see `SPECTROGRAM_CODE`).
+//   0.475 - 0.482 Rim: a plain white circle, by which a reader finds the centre
+//                 and the scale. Nothing but background lies outside it.
+
+export const SPECTROGRAM_RADII = {
+    dataInner: 0.12,
+    dataOuter: 0.40,
+    swatchInner: 0.415,
+    swatchOuter: 0.435,
+    codeInner: 0.445,
+    codeOuter: 0.465,
+    rimInner: 0.475,
+    rimOuter: 0.482,
+};
+
+export const SWATCH_LEVELS = 32;
+export const SWATCH_COUNT = SWATCH_LEVELS * 2;
+export const CODE_BITS = 96;
+const LAYOUT_VERSION = 1;
+
+// Levels as the analysis scales them; see `toByte` in audioAnalysis.ts
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+/** Bit fields of the code ring, most significant bit first, in order. */
+export const SPECTROGRAM_CODE = [
+    ['sync', 12], // Always SYNC_PATTERN
+    ['version', 4],
+    ['durationMs', 24],
+    ['columns', 12],
+    ['bands', 8],
+    ['maxFrequency', 10], // In steps of 50 Hz
+    ['reserved', 10], // Zero
+    ['crc', 16], // Low 16 bits of the CRC-32 of the 10 bytes before it
+] as const;
+
+const SYNC_PATTERN = 0b111110011010;
+const FREQUENCY_STEP = 50;
+
+/** What the code ring says about the spectrogram around it. */
+export interface SpectrogramCode {
+    duration: number; // Seconds
+    columns: number;
+    bands: number;
+    maxFrequency: number; // Hz, the top of the outermost band
+}
+
+/** Colour map stops from silence to the loudest level: black through violet and orange to pale yellow. */
+const COLOR_STOPS: [number, number, number][] = [
+    [0, 0, 0],
+    [60, 15, 110],
+    [180, 50, 100],
+    [250, 140, 60],
+    [252, 250, 200],
+];
+
+/** The colour of a level from 0 to 255 on the colour map. Its brightness only ever grows with the level. */
+export const levelColor = (level: number): [number, number, number] => {
+    const position = Math.max(0, Math.min(1, level / 255)) * (COLOR_STOPS.length - 1);
+    const index = Math.min(COLOR_STOPS.length - 2, Math.floor(position));
+    const mix = position - index;
+    const [from, to] = [COLOR_STOPS[index], COLOR_STOPS[index + 1]];
+    return [0, 1, 2].map(c => Math.round(from[c] + (to[c] - from[c]) * mix)) as [number, number, number];
+};
+
+/** The level of swatch `index`, counting clockwise from three o'clock. */
+export const swatchLevel = (index: number) => Math.round((index % SWATCH_LEVELS) * 255 / (SWATCH_LEVELS - 1));
+
+/** A level as a linear magnitude, where 1 is 0 dB; the lowest level is taken as silence. */
+export const levelToMagnitude = (level: number) =>
+    level <= 0 ? 0 : 10 ** ((MIN_DECIBELS + level * (MAX_DECIBELS - MIN_DECIBELS) / 255) / 20);
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/** The `bands + 1` edges of the bands, in Hz, from 0 to `maxFrequency` equally spaced in mels. */
+export const bandEdges = (bands: number, maxFrequency: number): Float64Array => {
+    const maxMel = hzToMel(maxFrequency);
+    return Float64Array.from({ length: bands + 1 }, (_, i) => melToHz(maxMel * i / bands));
+};
+
+/** Where a frequency falls among the bands, as a fractional band index measured from the first band's centre. */
+export const bandPosition = (hz: number, bands: number, maxFrequency: number) =>
+    hzToMel(hz) / hzToMel(maxFrequency) * bands - 0.5;
+
+/** Rounds a frequency to what the code can hold. */
+export const codedFrequency = (hz: number) =>
+    Math.max(1, Math.min((1 << 10) - 1, Math.round(hz / FREQUENCY_STEP))) * FREQUENCY_STEP;
+
+/** The code ring's bits, most significant first. */
+export const packSpectrogramCode = ({ duration, columns, bands, maxFrequency }: SpectrogramCode): Uint8Array => {
+    const values: Record<string, number> = {
+        sync: SYNC_PATTERN,
+        version: LAYOUT_VERSION,
+        durationMs: Math.min((1 << 24) - 1, Math.round(duration * 1000)),
+        columns,
+        bands,
+        maxFrequency: codedFrequency(maxFrequency) / FREQUENCY_STEP,
+        reserved: 0,
+    };
+    const bits = new Uint8Array(CODE_BITS);
+    let offset = 0;
+    for (const [name, width] of SPECTROGRAM_CODE) {
+        const value = name === 'crc' ? codeChecksum(bits) : values[name];
+        for (let i = 0; i < width; i++) bits[offset + i] = (value >> (width - 1 - i)) & 1;
+        offset += width;
+    }
+    return bits;
+};
+
+/** Reads the code ring's bits, or returns null when the sync pattern, version or checksum is wrong. */
+export const unpackSpectrogramCode = (bits: ArrayLike<number>): SpectrogramCode | null => {
+    const values: Record<string, number> = {};
+    let offset = 0;
+    for (const [name, width] of SPECTROGRAM_CODE) {
+        let value = 0;
+        for (let i = 0; i < width; i++) value = value * 2 + (bits[offset + i] ? 1 : 0);
+        values[name] = value;
+        offset += width;
+    }
+    if (values.sync !== SYNC_PATTERN || values.version !== LAYOUT_VERSION || values.crc !== codeChecksum(bits)) return null;
+    if (values.columns === 0 || values.bands === 0 || values.maxFrequency === 0) return null;
+    return {
+        duration: values.durationMs / 1000,
+        columns: values.columns,
+        bands: values.bands,
+        maxFrequency: values.maxFrequency * FREQUENCY_STEP,
+    };
+};
+
+/** The sync pattern's bits, which open the code ring. */
+export const syncBits = (): number[] => Array.from({ length: SPECTROGRAM_CODE[0][1] }, (_, i) => (SYNC_PATTERN >> (SPECTROGRAM_CODE[0][1] - 1 - i)) & 1);
+
+/** The CRC over the 80 bits before the checksum, packed into 10 bytes. */
+const codeChecksum = (bits: ArrayLike<number>): number => {
+    const bytes = new Uint8Array((CODE_BITS - 16) / 8);
+    for (let i = 0; i < bytes.length * 8; i++) bytes[i >> 3] |= (bits[i] ? 1 : 0) << (7 - (i & 7));
+    return crc32(bytes) & 0xFFFF;
+};
@@ -0,0 +1,158 @@
+import type { EncodeOptions, LossyCodec, LossyOptions, TranscodingParams } from '../types';
+import { stemOf } from '../utils/fileNames';
+import { formatBytes } from '../utils/format';
+import { archiveLength } from './archive';
+import { DEFAULT_BITS_PER_CHANNEL, getImageCapacity, getRobustCapacity, primaryEntryName, resolveCanvasSize, ROBUST_CANVAS_SIZE } from './orbitCore';
+import { ENCRYPTION_OVERHEAD } from './orbitCrypto';
+import { imaBlockAlign, imaSamplesPerBlock, type ImaBits } from './sampleCodecs';
+import { encodeWav } from './wav';
+
+// The lossy fallback: audio too long for one image is resampled, optionally
+// mixed down, and stored as a compact μ-law or IMA ADPCM WAV that fits. The
+// header records this, so a decoded copy is never taken for the original.
+
+// 4 kHz keeps speech just intelligible, for the couple of kilobytes of the robust container
+export const LOSSY_SAMPLE_RATES = [44100, 32000, 22050, 16000, 11025, 8000, 4000];
+const LOSSY_WAV_HEADER_LENGTH = 60; // RIFF, fmt with cbSize, fact and data headers, at most
+const CODEC_BITS: Record<LossyCodec, number> = { 'mu-law': 8, 'ima-adpcm': 4, 'ima-adpcm-2bit': 2 };
+
+/** One sample rate and channel count a lossy copy can be made at. */
+export interface LossyPreset {
+    sampleRate: number;
+    channels: number;
+    bitrate: number; // Bits per second
+}
+
+/**
+ * The rates and channel counts worth trying for a source, best first. Sources
+ * are never upsampled, and stereo only stays stereo when mono was not asked for.
+ */
+export const lossyPresets = (codec: LossyCodec, sourceRate: number, sourceChannels: number, mono = false): LossyPreset[] => {
+    const rates = LOSSY_SAMPLE_RATES.filter(rate => rate <= sourceRate);
+    const channelCounts = sourceChannels > 1 && !mono ? [2, 1] : [1];
+    return (rates.length > 0 ? rates : [sourceRate])
+        .flatMap(sampleRate => channelCounts.map(channels => ({ sampleRate, channels, bitrate: sampleRate * channels * CODEC_BITS[codec] })))
+        .sort((a, b) => b.bitrate - a.bitrate || b.sampleRate - a.sampleRate);
+};
+
+/** Bytes of the WAV file a preset makes of `duration` seconds, headers included. */
+export const lossySize = (codec: LossyCodec, { sampleRate, channels }: LossyPreset, duration: number): number => {
+    const frames = Math.ceil(duration * sampleRate);
+    if (codec === 'mu-law') return LOSSY_WAV_HEADER_LENGTH + frames * channels;
+    const blockAlign = imaBlockAlign(sampleRate, channels);
+    return LOSSY_WAV_HEADER_LENGTH + Math.ceil(frames / imaSamplesPerBlock(blockAlign, channels, CODEC_BITS[codec] as ImaBits)) * blockAlign;
+};
+
+/** Seconds of audio a preset fits in `maxBytes`, headers included: the inverse of `lossySize`. */
+export const lossySeconds = (codec: LossyCodec, { sampleRate, channels }: LossyPreset, maxBytes: number): number => {
+    const bytes = Math.max(0, maxBytes - LOSSY_WAV_HEADER_LENGTH);
+    if (codec === 'mu-law') return Math.floor(bytes / channels) / sampleRate;
+    const blockAlign = imaBlockAlign(sampleRate, channels);
+    return Math.floor(bytes / blockAlign) * imaSamplesPerBlock(blockAlign, channels, CODEC_BITS[codec] as ImaBits) / sampleRate;
+};
+
+/**
+ * Seconds of speech the robust container holds at a canvas size, as a mono
+ * 2-bit IMA ADPCM copy at the lowest rate, rounded down to a tenth.
+ */
+export const robustSpeechSeconds = (canvasSize = ROBUST_CANVAS_SIZE): number => {
+    const sampleRate = LOSSY_SAMPLE_RATES[LOSSY_SAMPLE_RATES.length - 1];
+    const preset = { sampleRate, channels: 1, bitrate: sampleRate * CODEC_BITS['ima-adpcm-2bit'] };
+    return Math.floor(lossySeconds('ima-adpcm-2bit', preset, getRobustCapacity(canvasSize)) * 10) / 10;
+};
+
+/**
+ * The best preset within the requested bitrate whose copy fits `maxBytes`,
+ * or null when even the smallest does not.
+ */
+export const chooseLossyPreset = (
+    { codec, bitrate, mono }: LossyOptions,
+    source: { sampleRate: number; channels: number; duration: number },
+    maxBytes: number,
+): LossyPreset | null => lossyPresets(codec, source.sampleRate, source.channels, mono)
+    .filter(preset => bitrate === undefined || preset.bitrate <= bitrate * 1000)
+    .find(preset => lossySize(codec, preset, source.duration) <= maxBytes) ?? null;
+
+/**
+ * What one orbit can hold of a lossy copy at the given settings: a single
+ * image's capacity in the pixels or the robust container, less any
+ * attachments, no limit in a chunk.
+ */
+export const lossyBudget = (options: EncodeOptions): number => {
+    if (options.container === 'chunk') return Infinity;
+    const attachments = options.attachments ?? [];
+    // Attachments are counted uncompressed, as deflate may not shrink them
+    const archive = attachments.length > 0
+        ? archiveLength([
+            { name: primaryEntryName(lossyFileName(options.fileName), 'audio/wav'), mimeType: 'audio/wav', size: 0 },
+            ...attachments.map(({ name, mimeType, data }) => ({ name, mimeType, size: data.length })),
+        ])
+        : 0;
+    const canvasSize = resolveCanvasSize(options.canvasSize, options.container);
+    const capacity = options.container === 'robust'
+        ? getRobustCapacity(canvasSize)
+        : getImageCapacity(options.bitsPerChannel ?? DEFAULT_BITS_PER_CHANNEL, options.errorCorrection, canvasSize);
+    return capacity - (options.passphrase ? ENCRYPTION_OVERHEAD : 0) - archive;
+};
+
+/** The lossy copy is a WAV whatever the original was. */
+const lossyFileName = (fileName: string | undefined) => fileName ? `${stemOf(fileName)}.wav` : undefined;
+
+/**
+ * Makes the lossy copy an encode with `options.lossy` embeds in place of the
+ * original file, at the highest bitrate that fits one image.
+ */
+export const transcodeLossy = (
+    channelData: Float32Array[],
+    sampleRate: number,
+    mimeType: string,
+    options: EncodeOptions & { lossy: LossyOptions },
+): { bytes: Uint8Array; mimeType: string; fileName?: string; transcoding: TranscodingParams } => {
+    const { codec } = options.lossy;
+    const duration = (channelData[0]?.length ?? 0) / sampleRate;
+    const maxBytes = lossyBudget(options);
+    const preset = chooseLossyPreset(options.lossy, { sampleRate, channels: channelData.length, duration }, maxBytes);
+    if (!preset) {
+        // The chunk container has no limit, so only the other two get here
+        throw new Error(`Even at its lowest bitrate this audio does not fit one image of ${formatBytes(maxBytes)}. `
+            + (options.container === 'robust'
+                ? 'Try a larger canvas, a shorter clip or the pixel container.'
+                : 'Try a larger canvas, more bits per channel or the PNG chunk container.'));
+    }
+
+    const mixed = preset.channels < channelData.length ? [downmix(channelData)] : channelData;
+    const resampled = mixed.map(channel => resample(channel, sampleRate, preset.sampleRate));
+    return {
+        bytes: encodeWav({ sampleRate: preset.sampleRate, channelData: resampled }, codec),
+        mimeType: 'audio/wav',
+        fileName: lossyFileName(options.fileName),
+        transcoding: { codec, ...preset, originalMimeType: mimeType },
+    };
+};
+
+const downmix = (channelData: Float32Array[]): Float32Array => {
+    const mono = new Float32Array(channelData[0].length);
+    for (const channel of channelData) {
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channelData.length;
+    }
+    return mono;
+};
+
+/**
+ * Changes the sample rate by averaging the input over each output sample's
+ * span, which keeps the worst aliasing out when downsampling. Rates only go
+ * down here, so interpolation between samples is not needed.
+ */
+const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+    if (toRate >= fromRate) return samples;
+    const ratio = fromRate / toRate;
+    const output = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+        const start = Math.floor(i * ratio);
+        const end = Math.min(samples.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+        let sum = 0;
+        for (let j = start; j < end; j++) sum += samples[j];
+        output[i] = sum / (end - start);
+    }
+    return output;
+};
@@ -0,0 +1,198 @@
+import type { LossyCodec } from '../types';
+import { decodeImaAdpcm, decodeMuLaw, encodeImaAdpcm, encodeMuLaw, imaBlockAlign, imaSamplesPerBlock, type ImaBits } from './sampleCodecs';
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_MU_LAW = 7;
+const FORMAT_IMA_ADPCM = 0x11;
+const FORMAT_EXTENSIBLE = 0xFFFE; // The real format sits in the first two bytes of the sub-format GUID
+export const WAV_HEADER_LENGTH = 44; // RIFF, fmt and data headers as `encodeWav` writes them for PCM
+
+/** How `encodeWav` stores samples. */
+export type WavEncoding = 'pcm16' | LossyCodec;
+
+export interface PcmAudio {
+    sampleRate: number;
+    channelData: Float32Array[]; // One array per channel, samples in [-1, 1]
+    duration: number; // Seconds
+}
+
+/**
+ * Parses a RIFF/WAVE file holding integer PCM (8, 16, 24 or 32 bit), IEEE
+ * float (32 or 64 bit), μ-law or IMA ADPCM (4 or 2 bit) samples into one
+ * float array per channel.
+ */
+export const parseWav = (bytes: Uint8Array): PcmAudio => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tag = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+    if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+        throw new Error('Not a WAV file.');
+    }
+
+    let format: { type: number; channels: number; sampleRate: number; bitsPerSample: number; blockAlign: number } | undefined;
+    let samples: Uint8Array | undefined;
+    let factFrames: number | undefined; // Samples per channel, which block-based encodings need
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const id = tag(offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        offset = body + size + (size & 1); // Chunks are word-aligned
+        if (id === 'fmt ' && size >= 16) {
+            let type = view.getUint16(body, true);
+            if (type === FORMAT_EXTENSIBLE && size >= 26) type = view.getUint16(body + 24, true);
+            format = {
+                type,
+                channels: view.getUint16(body + 2, true),
+                sampleRate: view.getUint32(body + 4, true),
+                blockAlign: view.getUint16(body + 12, true),
+                bitsPerSample: view.getUint16(body + 14, true),
+            };
+        } else if (id === 'fact' && size >= 4) {
+            factFrames = view.getUint32(body, true);
+        } else if (id === 'data') {
+            // A truncated data chunk is read as far as it goes
+            samples = bytes.subarray(body, Math.min(bytes.length, body + size));
+        }
+    }
+    if (!format) throw new Error('WAV file has no format chunk.');
+    if (!samples) throw new Error('WAV file has no data chunk.');
+
+    const { type, channels, sampleRate, bitsPerSample, blockAlign } = format;
+    if (type === FORMAT_IMA_ADPCM) {
+        if (channels < 1 || blockAlign <= 4 * channels) throw new Error('WAV file has an invalid format chunk.');
+        if (bitsPerSample !== 4 && bitsPerSample !== 2) throw new Error(`Unsupported WAV encoding (IMA ADPCM, ${bitsPerSample} bits).`);
+        const blocks = Math.floor(samples.length / blockAlign);
+        const frameCount = Math.min(factFrames ?? Infinity, blocks * imaSamplesPerBlock(blockAlign, channels, bitsPerSample));
+        return {
+            sampleRate,
+            channelData: decodeImaAdpcm(samples, channels, blockAlign, frameCount, bitsPerSample),
+            duration: frameCount / sampleRate,
+        };
+    }
+    const readSample = sampleReader(type, bitsPerSample);
+    if (channels < 1 || blockAlign < channels * bitsPerSample / 8) throw new Error('WAV file has an invalid format chunk.');
+
+    const frameCount = Math.floor(samples.length / blockAlign);
+    const sampleView = new DataView(samples.buffer, samples.byteOffset, samples.byteLength);
+    const channelData = Array.from({ length: channels }, () => new Float32Array(frameCount));
+    for (let frame = 0; frame < frameCount; frame++) {
+        for (let c = 0; c < channels; c++) {
+            channelData[c][frame] = readSample(sampleView, frame * blockAlign + c * bitsPerSample / 8);
+        }
+    }
+    return { sampleRate, channelData, duration: frameCount / sampleRate };
+};
+
+/**
+ * Writes samples as a WAV file: 16-bit integer PCM by default, or in one of the
+ * compact lossy encodings with the fact chunk those need. Samples are clipped
+ * to [-1, 1].
+ */
+export const encodeWav = (
+    { sampleRate, channelData }: Pick<PcmAudio, 'sampleRate' | 'channelData'>,
+    encoding: WavEncoding = 'pcm16',
+): Uint8Array => {
+    const channels = channelData.length;
+    const frameCount = channelData[0]?.length ?? 0;
+    const clipped = (c: number, frame: number) => Math.max(-1, Math.min(1, channelData[c][frame]));
+    let type: number;
+    let blockAlign: number;
+    let bitsPerSample: number;
+    let extra: number[] = []; // Extra format bytes after cbSize
+    let data: Uint8Array;
+
+    if (encoding === 'ima-adpcm' || encoding === 'ima-adpcm-2bit') {
+        const bits = encoding === 'ima-adpcm' ? 4 : 2;
+        type = FORMAT_IMA_ADPCM;
+        blockAlign = imaBlockAlign(sampleRate, channels);
+        bitsPerSample = bits;
+        const samplesPerBlock = imaSamplesPerBlock(blockAlign, channels, bits);
+        extra = [samplesPerBlock & 0xFF, samplesPerBlock >> 8];
+        data = encodeImaAdpcm(channelData, blockAlign, bits);
+    } else if (encoding === 'mu-law') {
+        type = FORMAT_MU_LAW;
+        blockAlign = channels;
+        bitsPerSample = 8;
+        data = new Uint8Array(frameCount * channels);
+        for (let frame = 0; frame < frameCount; frame++) {
+            for (let c = 0; c < channels; c++) data[frame * channels + c] = encodeMuLaw(clipped(c, frame));
+        }
+    } else {
+        type = FORMAT_PCM;
+        blockAlign = channels * 2;
+        bitsPerSample = 16;
+        data = new Uint8Array(frameCount * blockAlign);
+        const view = new DataView(data.buffer);
+        for (let frame = 0; frame < frameCount; frame++) {
+            for (let c = 0; c < channels; c++) view.setInt16(frame * blockAlign + c * 2, Math.round(clipped(c, frame) * 0x7FFF), true);
+        }
+    }
+
+    // Plain PCM keeps the classic 16-byte format chunk; the others add cbSize and a fact chunk
+    const format = new DataView(new ArrayBuffer(type === FORMAT_PCM ? 16 : 18 + extra.length));
+    format.setUint16(0, type, true);
+    format.setUint16(2, channels, true);
+    format.setUint32(4, sampleRate, true);
+    const samplesPerBlock = type === FORMAT_IMA_ADPCM ? imaSamplesPerBlock(blockAlign, channels, bitsPerSample as ImaBits) : 1;
+    format.setUint32(8, Math.round(sampleRate * blockAlign / samplesPerBlock), true);
+    format.setUint16(12, blockAlign, true);
+    format.setUint16(14, bitsPerSample, true);
+    if (type !== FORMAT_PCM) {
+        format.setUint16(16, extra.length, true);
+        extra.forEach((byte, i) => format.setUint8(18 + i, byte));
+    }
+    const chunks = [riffChunk('fmt ', new Uint8Array(format.buffer))];
+    if (type !== FORMAT_PCM) {
+        const fact = new DataView(new ArrayBuffer(4));
+        fact.setUint32(0, frameCount, true);
+        chunks.push(riffChunk('fact', new Uint8Array(fact.buffer)));
+    }
+    chunks.push(riffChunk('data', data));
+
+    const bytes = new Uint8Array(12 + chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    bytes.set(tagBytes('RIFF'));
+    new DataView(bytes.buffer).setUint32(4, bytes.length - 8, true);
+    bytes.set(tagBytes('WAVE'), 8);
+    let offset = 12;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+};
+
+const tagBytes = (tag: string) => Uint8Array.from(tag, char => char.charCodeAt(0));
+
+/** One RIFF chunk: its tag, its length and its body, padded to an even length. */
+const riffChunk = (tag: string, body: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + body.length + (body.length & 1));
+    chunk.set(tagBytes(tag));
+    new DataView(chunk.buffer).setUint32(4, body.length, true);
+    chunk.set(body, 8);
+    return chunk;
+};
+
+/**
+ * Picks the function that reads one sample of the given encoding as a float.
+ */
+const sampleReader = (type: number, bitsPerSample: number): ((view: DataView, offset: number) => number) => {
+    if (type === FORMAT_PCM) {
+        switch (bitsPerSample) {
+            case 8: return (view, offset) => (view.getUint8(offset) - 128) / 128; // 8-bit WAV is unsigned
+            case 16: return (view, offset) => view.getInt16(offset, true) / 0x8000;
+            case 24: return (view, offset) => ((view.getUint8(offset + 2) << 24 | view.getUint16(offset, true) << 8) >> 8) / 0x800000;
+            case 32: return (view, offset) => view.getInt32(offset, true) / 0x80000000;
+        }
+    }
+    if (type === FORMAT_MU_LAW && bitsPerSample === 8) {
+        return (view, offset) => decodeMuLaw(view.getUint8(offset));
+    }
+    if (type === FORMAT_FLOAT) {
+        switch (bitsPerSample) {
+            case 32: return (view, offset) => view.getFloat32(offset, true);
+            case 64: return (view, offset) => view.getFloat64(offset, true);
+        }
+    }
+    throw new Error(`Unsupported WAV encoding (format ${type}, ${bitsPerSample} bits).`);
+};
@@ -0,0 +1,97 @@
+import { crc32 } from './crc32';
+
+// A minimal ZIP writer for downloading batch results in one file. Entries are
+// stored, not deflated: orbit PNGs and most audio formats are compressed
+// already. Without ZIP64 the archive and each entry must stay under 4 GB.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034B50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014B50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054B50;
+
+const VERSION_NEEDED = 20; // 2.0, the baseline every unzip tool reads
+const FLAG_UTF8_NAMES = 1 << 11;
+const METHOD_STORED = 0;
+const MAX_ZIP_BYTES = 0xFFFFFFFF;
+
+export interface ZipEntry {
+    name: string; // Path inside the archive, with forward slashes
+    data: Uint8Array;
+    modified?: Date; // Now by default
+}
+
+/** Packs a date into the MS-DOS time and date fields ZIP headers use. */
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a ZIP archive holding the given entries in order. Names must be unique.
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const prepared = entries.map(({ name, data, modified = new Date() }) => ({
+        name: encoder.encode(name),
+        data,
+        crc: crc32(data),
+        ...dosDateTime(modified),
+    }));
+    const names = new Set(entries.map(entry => entry.name));
+    if (names.size !== entries.length) throw new Error('A ZIP archive cannot hold two entries with the same name.');
+
+    const localSize = prepared.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+    const directorySize = prepared.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+    const totalSize = localSize + directorySize + 22;
+    if (totalSize > MAX_ZIP_BYTES || entries.length > 0xFFFF) throw new Error('The results are too large for one ZIP file.');
+
+    const bytes = new Uint8Array(totalSize);
+    const view = new DataView(bytes.buffer);
+    const offsets: number[] = [];
+    let offset = 0;
+
+    // Each entry: its local header, then its data
+    for (const entry of prepared) {
+        offsets.push(offset);
+        view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+        view.setUint16(offset + 4, VERSION_NEEDED, true);
+        view.setUint16(offset + 6, FLAG_UTF8_NAMES, true);
+        view.setUint16(offset + 8, METHOD_STORED, true);
+        view.setUint16(offset + 10, entry.time, true);
+        view.setUint16(offset + 12, entry.date, true);
+        view.setUint32(offset + 14, entry.crc, true);
+        view.setUint32(offset + 18, entry.data.length, true); // Compressed size
+        view.setUint32(offset + 22, entry.data.length, true); // Uncompressed size
+        view.setUint16(offset + 26, entry.name.length, true);
+        // Extra field length stays 0
+        bytes.set(entry.name, offset + 30);
+        bytes.set(entry.data, offset + 30 + entry.name.length);
+        offset += 30 + entry.name.length + entry.data.length;
+    }
+
+    // The central directory repeats every header with its offset
+    const directoryOffset = offset;
+    prepared.forEach((entry, i) => {
+        view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+        view.setUint16(offset + 4, VERSION_NEEDED, true); // Version made by
+        view.setUint16(offset + 6, VERSION_NEEDED, true);
+        view.setUint16(offset + 8, FLAG_UTF8_NAMES, true);
+        view.setUint16(offset + 10, METHOD_STORED, true);
+        view.setUint16(offset + 12, entry.time, true);
+        view.setUint16(offset + 14, entry.date, true);
+        view.setUint32(offset + 16, entry.crc, true);
+        view.setUint32(offset + 20, entry.data.length, true);
+        view.setUint32(offset + 24, entry.data.length, true);
+        view.setUint16(offset + 28, entry.name.length, true);
+        // Extra field, comment, disk number and attributes stay 0
+        view.setUint32(offset + 42, offsets[i], true);
+        bytes.set(entry.name, offset + 46);
+        offset += 46 + entry.name.length;
+    });
+
+    view.setUint32(offset, END_OF_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 8, prepared.length, true); // Entries on this disk
+    view.setUint16(offset + 10, prepared.length, true); // Entries in total
+    view.setUint32(offset + 12, offset - directoryOffset, true);
+    view.setUint32(offset + 16, directoryOffset, true);
+    return bytes;
+};
@@ -2,19 +2,232 @@
 export interface Status {
   state: 'idle' | 'processing' | 'success' | 'error';
   message: string;
+  percent?: number; // Overall progress while processing, 0 to 100
+}
+
+/** One file written by a batch item, named as it goes into the ZIP. */
+export interface BatchOutput {
+  name: string;
+  blob: Blob;
+}
+
+/** One entry of a batch queue: an audio file to encode, or the images of one orbit set to decode. */
+export interface BatchItem {
+  id: number;
+  name: string;
+  files: File[];
+  state: 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+  message?: string; // Progress while processing, the reason when failed
+  percent?: number;
+  outputs: BatchOutput[];
 }
 
 export interface AudioFeatures {
   duration: number;
   channelData: Float32Array[];
   sampleRate: number;
-  spectrogram: Uint8Array[];
-  onsets: { time: number; energy: number }[];
+  hopSize: number; // Samples between spectrogram frames; frame t starts at t * hopSize
+  spectrogram: Uint8Array[]; // One byte-scaled magnitude spectrum per frame
+  melBands: Uint8Array[]; // The same frames summed into mel-spaced bands
+  waveform: Float32Array; // Peak level of the mono mix in each frame's hop, 0 to 1
+  onsets: { time: number; energy: number }[]; // energy is the spectral flux at the onset
+  stereo?: StereoFeatures; // Absent for mono recordings; surround ones are folded down to two channels
+}
+
+/** How the left and right channels differ, frame for frame with the mono mix's spectrogram. */
+export interface StereoFeatures {
+  left: Uint8Array[]; // Byte-scaled magnitude spectra of each channel alone
+  right: Uint8Array[];
+  width: Float32Array; // Side energy's share of each frame's hop: 0 for mono, 0.5 for unrelated channels, 1 for opposite phase
+  correlation: Float32Array; // Of the channels over each frame's hop, from -1 (opposite phase) to 1 (mono); 1 in silence
+}
+
+export type RendererName = 'orbit' | 'spiral' | 'waveform-ring' | 'constellation' | 'spectrogram';
+
+export type RendererParams = Record<string, number | string>;
+
+export interface ArtworkStyle {
+  renderer: RendererName;
+  params?: RendererParams; // Missing parameters take the renderer's defaults
+}
+
+export interface AnalysisOptions {
+  windowSize?: number; // STFT window in samples, a power of two
+  hopSize?: number; // Samples between frames; defaults to the window size
+  melBandCount?: number;
+}
+
+export interface EncryptionParams {
+    algorithm: 'AES-GCM';
+    kdf: 'PBKDF2-SHA256';
+    iterations: number;
+    salt: string; // Base64
+    iv: string; // Base64
+}
+
+export type CompressionMethod = 'deflate';
+
+export interface CompressionParams {
+    method: CompressionMethod;
+    uncompressedLength: number;
+}
+
+export type ErrorCorrectionLevel = 'none' | 'low' | 'medium' | 'high';
+
+/**
+ * Descriptive tags kept in the header, e.g. title, artist, album, date and
+ * duration (in seconds). Like the file name they are readable without the passphrase.
+ */
+export type AudioMetadata = Record<string, string>;
+
+/** A file carried in the orbit next to the audio, such as lyrics, a cover or a license. */
+export interface OrbitAttachment {
+    name: string;
+    mimeType: string;
+    data: Uint8Array;
+}
+
+/** An attachment recovered by decoding, ready to download. */
+export interface DecodedAttachment {
+    name: string; // Cleaned and unique among the orbit's files
+    mimeType: string;
+    size: number; // Bytes
+    url: string; // Object URL of the file
+}
+
+/** Compact sample encodings for lossy copies: 8-bit G.711 μ-law or 4-bit IMA ADPCM. */
+export type LossyCodec = 'mu-law' | 'ima-adpcm' | 'ima-adpcm-2bit';
+
+export interface LossyOptions {
+    codec: LossyCodec;
+    bitrate?: number; // Kilobits per second at most; the highest rate that fits when unset
+    mono?: boolean; // Mixes stereo down, which halves the bitrate at the same sample rate
+}
+
+/** How a lossy copy was made, recorded so decoding never passes it off as the original. */
+export interface TranscodingParams {
+    codec: LossyCodec;
+    sampleRate: number;
+    channels: number;
+    bitrate: number; // Bits per second of the encoded samples
+    originalMimeType: string;
+}
+
+export type ProgressStage =
+    | 'analysing'
+    | 'drawing'
+    | 'compressing'
+    | 'encrypting'
+    | 'embedding'
+    | 'finalizing'
+    | 'reading'
+    | 'extracting'
+    | 'assembling'
+    | 'decrypting'
+    | 'decompressing'
+    | 'resynthesizing'
+    | 'animating';
+
+/** One progress update of an encode or decode. */
+export interface CodecProgress {
+    stage: ProgressStage;
+    percent: number; // Of the whole operation, 0 to 100
+    message: string;
+}
+
+/** A photo of the user's to hide the audio in, in place of a drawn orbit. */
+export interface CoverOptions {
+    image: Blob; // Any image the browser can decode
+    overlay?: number; // Opacity of the orbit blended over the photo, from 0 (none, the default) to 1
+}
+
+/**
+ * Where the framed payload is stored: the artwork's low bits, a private PNG
+ * chunk beside them, or cell brightness that survives JPEG and resizing but
+ * holds only a short clip.
+ */
+export type OrbitContainer = 'pixels' | 'chunk' | 'robust';
+
+export interface EncodeOptions {
+    passphrase?: string;
+    bitsPerChannel?: number; // 1 to 4; more bits hold more audio but add visible noise
+    scatterKey?: string; // Spreads the payload over a key-seeded permutation of the pixels
+    errorCorrection?: ErrorCorrectionLevel; // Reed-Solomon redundancy wrapped around the embedded frame
+    compress?: boolean; // Deflate the audio when that makes it smaller; on by default
+    container?: OrbitContainer; // 'pixels' by default; depth, scatter and error correction only apply there
+    canvasSize?: number; // Pixels per side, one of CANVAS_SIZES; larger holds more. The smallest by default, the largest for robust
+    cover?: CoverOptions; // Hides the audio in this photo, on a canvas grown from canvasSize until it fits one image
+    lossy?: LossyOptions; // Embeds a lossy WAV copy that fits one image instead of the file itself
+    variantSeed?: string; // Draws a different but repeatable orbit for the same audio
+    analysis?: AnalysisOptions; // How the artwork's spectrogram and onsets are computed
+    style?: ArtworkStyle; // The orbit renderer with its defaults unless set
+    fileName?: string; // The audio file's name, kept in the header so decoding can restore it
+    metadata?: AudioMetadata; // Tags for the header; the duration is added when the audio can be decoded
+    attachments?: OrbitAttachment[]; // Files packed with the audio, compressed and encrypted along with it
+    signal?: AbortSignal; // Cancels the encode; the returned promise rejects with the abort reason
+}
+
+export interface EncodeResult {
+    images: string[]; // PNG data URLs, one per part
+    originalBytes: number;
+    embeddedBytes: number; // After compression and encryption
+    compressed: boolean;
+    capacityBytes: number; // Payload capacity of all images together; Infinity in chunk mode
+    container: OrbitContainer;
+    transcoding?: TranscodingParams; // Set when a lossy copy was embedded; the byte counts are the copy's
+}
+
+/** How an animated reveal is recorded: a silent, looping APNG or a WebM video with the audio. */
+export type AnimationFormat = 'apng' | 'webm';
+
+export interface AnimationOptions {
+    fps?: number; // Frames per second, 1 to 60; each frame reveals one slice of the audio
+    size?: number; // Width and height in pixels, up to the still's; the artwork is drawn full size and scaled
+    style?: ArtworkStyle; // The still's style and variant seed, so the last frame matches it
+    variantSeed?: string;
+    signal?: AbortSignal;
+}
+
+export interface DecodeOptions {
+    passphrase?: string;
+    scatterKey?: string; // Falls back to the passphrase when empty
+    signal?: AbortSignal; // Cancels the decode; the returned promise rejects with the abort reason
+}
+
+export interface DecodeResult {
+    audioUrl: string;
+    mimeType: string;
+    fileName?: string; // The name the audio was encoded under; absent in older orbits
+    metadata?: AudioMetadata; // Absent in orbits made before the binary header
+    attachments: DecodedAttachment[]; // Empty when the orbit holds the audio alone
+    transcoding?: TranscodingParams; // Set when the orbit holds a lossy copy, not the original file
+    correctedErrors: number; // Bytes repaired by error correction across all parts
+    resynthesized?: boolean; // Set when the hidden data was lost and the audio was rebuilt from a spectrogram orbit's picture
 }
 
 export interface StegoHeader {
     magic: string;
-    mimeType: string;
+    version?: number; // Header format: 2 for the binary header, absent or 1 for the JSON one before it
+    mimeType: string; // Padded with NUL characters to 32 in JSON headers
+    metadata?: AudioMetadata;
     payloadLength: number;
     bitsPerChannel: number;
+    // Readable without the passphrase, like the MIME type; absent in orbits made before names were kept
+    fileName?: string;
+    // Multi-part fields; absent in single-image orbits made before splitting was supported
+    partIndex?: number;
+    partCount?: number;
+    setId?: string;
+    totalLength?: number;
+    // CRC-32 checksums; absent in orbits made before integrity checks were added
+    payloadChecksum?: number;
+    headerChecksum?: number;
+    // Present when the payload was deflated before encryption and embedding
+    compression?: CompressionParams;
+    // Present when the payload was encrypted with a passphrase before embedding
+    encryption?: EncryptionParams;
+    // Present when the audio was replaced by a lossy copy before embedding
+    transcoding?: TranscodingParams;
+    // Present when the payload is an archive of the audio and its attachments, counting both
+    entryCount?: number;
 }
@@ -0,0 +1,62 @@
+/** Audio types by file extension, for files whose type is not otherwise known. */
+export const AUDIO_MIME_TYPES: Record<string, string> = {
+    '.wav': 'audio/wav',
+    '.mp3': 'audio/mpeg',
+    '.ogg': 'audio/ogg',
+    '.opus': 'audio/ogg',
+    '.flac': 'audio/flac',
+    '.m4a': 'audio/mp4',
+    '.aac': 'audio/aac',
+    '.webm': 'audio/webm',
+};
+
+// Browsers report some types under other names
+const MIME_TYPE_ALIASES: Record<string, string> = {
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-flac': 'audio/flac',
+    'audio/x-m4a': 'audio/mp4',
+};
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+/**
+ * The usual extension for an audio type, with its dot, or '.bin' for unknown types.
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    const canonical = MIME_TYPE_ALIASES[type] ?? type;
+    return Object.keys(AUDIO_MIME_TYPES).find(ext => AUDIO_MIME_TYPES[ext] === canonical) ?? '.bin';
+};
+
+/** A file name without its extension. */
+export const stemOf = (name: string) => name.replace(/\.[^./\\]*$/, '');
+
+/**
+ * Reduces a name to one safe to write: its last path component, without
+ * control or reserved characters, and short enough for a header. Long names
+ * keep their extension. Returns '' when nothing usable is left.
+ */
+export const safeFileName = (name: string): string => {
+    const base = name.split(/[/\\]/).pop() ?? '';
+    const cleaned = base.replace(/[\u0000-\u001F\u007F<>:"|?*]/g, '').trim().replace(/^\.+/, '');
+    if (cleaned.length <= MAX_FILE_NAME_LENGTH) return cleaned;
+    const extension = cleaned.slice(stemOf(cleaned).length);
+    return extension.length < 16
+        ? cleaned.slice(0, MAX_FILE_NAME_LENGTH - extension.length) + extension
+        : cleaned.slice(0, MAX_FILE_NAME_LENGTH);
+};
+
+/**
+ * Returns the name, or the first of "name (2).ext", "name (3).ext"... not yet
+ * taken, and marks it taken.
+ */
+export const uniqueFileName = (name: string, taken: Set<string>): string => {
+    const stem = stemOf(name);
+    const extension = name.slice(stem.length);
+    let candidate = name;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${extension}`;
+    taken.add(candidate.toLowerCase());
+    return candidate;
+};
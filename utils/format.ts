@@ -0,0 +1,27 @@
+import type { LossyCodec, TranscodingParams } from '../types';
+
+/**
+ * Formats a byte count for display, e.g. "350 bytes", "740 KB" or "3.25 MB".
+ */
+export const formatBytes = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB`
+        : bytes >= 1024 ? `${Math.round(bytes / 1024)} KB`
+            : `${Math.max(0, Math.round(bytes))} bytes`;
+
+/**
+ * Formats a length in seconds as minutes and seconds, e.g. "3:07".
+ */
+export const formatDuration = (seconds: number): string => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const CODEC_NAMES: Record<LossyCodec, string> = { 'mu-law': 'μ-law', 'ima-adpcm': 'IMA ADPCM', 'ima-adpcm-2bit': 'IMA ADPCM 2-bit' };
+
+/**
+ * Describes how a lossy copy was made, e.g. "IMA ADPCM, 88 kbps, 22.05 kHz mono".
+ */
+export const formatTranscoding = (
+    { codec, bitrate, sampleRate, channels }: Omit<TranscodingParams, 'originalMimeType'>,
+): string =>
+    `${CODEC_NAMES[codec]}, ${Math.round(bitrate / 1000)} kbps, ${sampleRate / 1000} kHz ${channels === 1 ? 'mono' : 'stereo'}`;